@@ -0,0 +1,163 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import MetricBar from "@/components/MetricBar";
+import QueryLink from "@/components/QueryLink";
+import SharedBadge from "@/components/SharedBadge";
+import ThemeStyle from "@/components/ThemeStyle";
+import { DEFAULT_DATA_DIR } from "@/lib/data/load";
+import { loadAdvertiserProfile, type ProfilePeriod } from "@/lib/data/profile";
+import type { PeriodMetrics } from "@/lib/data/types";
+import { fmtImpressions } from "@/lib/narrative/engine";
+import { advertiserPath, verticalPath, type SearchParams } from "@/lib/searchParams";
+import { themeFromParams } from "@/lib/theme";
+
+type Props = { params: Promise<{ name: string }>; searchParams: Promise<SearchParams> };
+
+const BAR_MAX_PX = 260;
+const BAR_H = 18;
+
+function fmtPct(n: number | null) {
+  if (n === null || !Number.isFinite(n)) return "—";
+  return `${n >= 0 ? "+" : ""}${n.toFixed(1)}%`;
+}
+
+const METRICS: { key: keyof PeriodMetrics; label: string; fmt: (n: number) => string }[] = [
+  { key: "impressions", label: "Impressions Served", fmt: fmtImpressions },
+  { key: "reach", label: "Households Reached", fmt: fmtImpressions },
+  { key: "frequency", label: "Average Frequency", fmt: (n) => n.toFixed(1) },
+];
+
+export async function generateMetadata({ params, searchParams }: Props): Promise<Metadata> {
+  const { name } = await params;
+  const { brand } = themeFromParams(await searchParams);
+  return { title: `${decodeURIComponent(name)} | ${brand.title}`, description: brand.description };
+}
+
+export default async function AdvertiserPage({ params, searchParams }: Props) {
+  const { name } = await params;
+  const theme = themeFromParams(await searchParams);
+  const { palette } = theme;
+  const profile = loadAdvertiserProfile(DEFAULT_DATA_DIR, decodeURIComponent(name));
+  if (!profile) notFound();
+
+  const valueOf = (p: ProfilePeriod, key: keyof PeriodMetrics) => p.metrics?.[key] ?? null;
+  const widthOf = (v: number | null, max: number) =>
+    v === null || !Number.isFinite(v) || max <= 0 ? 0 : Math.min((v / max) * BAR_MAX_PX, BAR_MAX_PX);
+  const gridCols = `110px ${BAR_MAX_PX + 230}px 80px`;
+
+  return (
+    <main
+      className="mx-auto min-h-screen w-full bg-(--theme-background) px-6 py-6 text-[14px] leading-5 text-ink"
+    >
+      <ThemeStyle theme={theme} />
+      <div className="mx-auto max-w-4xl">
+        <div className="mb-4 flex flex-wrap items-baseline justify-between gap-4">
+          <h1 className="text-xl font-semibold">{profile.advertiser}</h1>
+          <QueryLink pathname="/" className="text-link hover:underline">
+            Back to dashboard
+          </QueryLink>
+        </div>
+
+        <p className="mb-6">
+          {profile.verticals.length === 0
+            ? "Not mapped to any vertical."
+            : `Mapped to ${profile.verticals.length} ${profile.verticals.length === 1 ? "vertical" : "verticals"}: ${profile.verticals.map((v) => v.vertical).join("; ")}.`}
+          {profile.parent ? (
+            <>
+              {" "}
+              A brand of <strong>{profile.parent.name}</strong>
+              {profile.parent.brands.length > 0 ? (
+                <>
+                  , alongside{" "}
+                  {profile.parent.brands.map((b, i) => (
+                    <span key={b}>
+                      {i > 0 ? ", " : null}
+                      <QueryLink pathname={advertiserPath(b)} className="text-link hover:underline">
+                        {b}
+                      </QueryLink>
+                    </span>
+                  ))}
+                </>
+              ) : null}
+              .
+            </>
+          ) : null}
+        </p>
+
+        <section className="mb-8">
+          <h2 className="mb-3 text-lg font-semibold">By period</h2>
+          {METRICS.map((m) => {
+            const max = Math.max(...profile.periods.map((p) => valueOf(p, m.key) ?? 0), 1);
+            return (
+              <div key={m.key} className="mb-5">
+                <h3 className="mb-2 font-semibold">{m.label}</h3>
+                {profile.periods.map((p) => {
+                  const v = valueOf(p, m.key);
+                  const change = m.key === "impressions" ? p.impressions_pct_change : null;
+                  return (
+                    <div
+                      key={p.period.id}
+                      style={{ display: "grid", gridTemplateColumns: gridCols, alignItems: "center", marginBottom: "10px" }}
+                    >
+                      <span className="text-muted">{p.period.label}</span>
+                      <MetricBar side="right" widthPx={widthOf(v, max)} maxPx={BAR_MAX_PX} heightPx={BAR_H} palette={palette}>
+                        {p.metrics === null ? "Not active" : v === null ? "—" : m.fmt(v)}
+                      </MetricBar>
+                      {change !== null ? (
+                        <span
+                          className="text-right font-bold"
+                          style={{ color: change >= 0 ? palette.positive : palette.negative }}
+                        >
+                          {fmtPct(change)}
+                        </span>
+                      ) : (
+                        <span />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })}
+          <p className="text-[13px] text-muted">% change in impressions is against the previous period.</p>
+        </section>
+
+        {profile.verticals.map(({ vertical, shared, standings }) => {
+          const maxShare = Math.max(...standings.map((s) => s.share_pct ?? 0), 0);
+          return (
+            <section key={vertical} className="mb-8">
+              <h2 className="mb-1 text-lg font-semibold">
+                <QueryLink pathname={verticalPath(vertical)} className="hover:underline">
+                  {vertical}
+                </QueryLink>
+                {shared ? <SharedBadge shared={shared} policy={profile.attribution} /> : null}
+              </h2>
+              <p className="mb-3 text-[13px] text-muted">Share of the vertical&apos;s impressions and rank among its advertisers.</p>
+              {standings.map((s) => (
+                <div
+                  key={s.period.id}
+                  style={{ display: "grid", gridTemplateColumns: gridCols, alignItems: "center", marginBottom: "10px" }}
+                >
+                  <span className="text-muted">{s.period.label}</span>
+                  <MetricBar
+                    side="right"
+                    widthPx={widthOf(s.share_pct, maxShare)}
+                    maxPx={BAR_MAX_PX}
+                    heightPx={BAR_H}
+                    palette={palette}
+                  >
+                    {shared?.share === 0
+                      ? "Not counted in this vertical"
+                      : s.share_pct === null || s.rank === null
+                        ? "Not active"
+                        : `${s.share_pct.toFixed(1)}% of ${fmtImpressions(s.vertical_impressions)} · rank ${s.rank} of ${s.advertisers}`}
+                  </MetricBar>
+                </div>
+              ))}
+            </section>
+          );
+        })}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,45 @@
+import type { Metadata } from "next";
+import AliasEditor from "@/components/AliasEditor";
+import QueryLink from "@/components/QueryLink";
+import ThemeStyle from "@/components/ThemeStyle";
+import { uploadsEnabled } from "@/lib/api";
+import { loadAliasTable, reviewAliases } from "@/lib/data/aliases";
+import { DEFAULT_DATA_DIR } from "@/lib/data/load";
+import type { SearchParams } from "@/lib/searchParams";
+import { themeFromParams } from "@/lib/theme";
+
+type Props = { searchParams: Promise<SearchParams> };
+
+export async function generateMetadata({ searchParams }: Props): Promise<Metadata> {
+  const { brand } = themeFromParams(await searchParams);
+  return { title: `Advertiser aliases | ${brand.title}`, description: brand.description };
+}
+
+export default async function AliasesPage({ searchParams }: Props) {
+  const theme = themeFromParams(await searchParams);
+  const table = loadAliasTable(DEFAULT_DATA_DIR);
+
+  return (
+    <main
+      className="mx-auto min-h-screen w-full bg-(--theme-background) px-6 py-6 text-[14px] leading-5 text-ink"
+    >
+      <ThemeStyle theme={theme} />
+      <div className="mx-auto max-w-6xl">
+        <div className="mb-4 flex flex-wrap items-baseline justify-between gap-4">
+          <h1 className="text-xl font-semibold">Advertiser aliases</h1>
+          <QueryLink pathname="/" className="text-link hover:underline">
+            Back to dashboard
+          </QueryLink>
+        </div>
+
+        {uploadsEnabled() ? (
+          <AliasEditor table={table} review={reviewAliases(DEFAULT_DATA_DIR, table)} />
+        ) : (
+          <p className="text-muted">
+            Editing aliases is turned off on this deployment. Set ALLOW_DATA_UPLOADS=1 to turn it on.
+          </p>
+        )}
+      </div>
+    </main>
+  );
+}
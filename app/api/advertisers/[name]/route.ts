@@ -0,0 +1,18 @@
+import { ApiError, datasetForRequest, handleApi, jsonWithETag } from "@/lib/api";
+import { findAdvertiser, withChanges } from "@/lib/data/advertisers";
+import { aliasResolver } from "@/lib/data/aliases";
+
+export const GET = handleApi(async (req: Request, { params }: { params: Promise<{ name: string }> }) => {
+  const { name } = await params;
+  const dataset = datasetForRequest(new URL(req.url));
+
+  // an alias finds its entity
+  const hit = findAdvertiser(dataset, aliasResolver(dataset.aliases)(name));
+  if (!hit) throw new ApiError(404, `Unknown advertiser: ${name}`);
+
+  return jsonWithETag(req, {
+    periods: dataset.periods,
+    advertiser: withChanges(hit.detail),
+    verticals: hit.verticals,
+  });
+});
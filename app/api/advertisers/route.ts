@@ -0,0 +1,53 @@
+import { datasetForRequest, handleApi, jsonWithETag, parseListQuery, sortAndLimit } from "@/lib/api";
+import { listAdvertisers, type AdvertiserListing } from "@/lib/data/advertisers";
+import type { Dataset } from "@/lib/data/load";
+import { buildSearchIndex, searchIndex, type SearchEntry } from "@/lib/search";
+
+const METRICS = ["impressions"] as const;
+
+// matches returned for `q` when no limit is given
+const SEARCH_LIMIT = 10;
+
+type Listing = {
+  advertisers: AdvertiserListing[];
+  byName: Map<string, AdvertiserListing>;
+  index: SearchEntry[];
+};
+
+// built once per dataset; the search box queries it on every keystroke
+const listings = new WeakMap<Dataset, Listing>();
+
+function listingFor(dataset: Dataset): Listing {
+  let listing = listings.get(dataset);
+  if (!listing) {
+    const advertisers = listAdvertisers(dataset);
+    listing = {
+      advertisers,
+      byName: new Map(advertisers.map((a) => [a.advertiser, a])),
+      index: buildSearchIndex(advertisers.map((a) => ({ name: a.advertiser, weight: a.impressions ?? 0 }))),
+    };
+    listings.set(dataset, listing);
+  }
+  return listing;
+}
+
+// Every advertiser, or with `q` the best matches for it, with the verticals
+// each is counted in.
+export const GET = handleApi(async (req: Request) => {
+  const url = new URL(req.url);
+  const query = parseListQuery(url, METRICS, "impressions");
+  const dataset = datasetForRequest(url);
+  const { advertisers, byName, index } = listingFor(dataset);
+
+  const q = url.searchParams.get("q")?.trim() ?? "";
+  if (q) {
+    const hits = searchIndex(index, q, query.limit ?? SEARCH_LIMIT).map((h) => byName.get(h.name)!);
+    return jsonWithETag(req, { periods: dataset.periods, q, total: hits.length, advertisers: hits });
+  }
+  return jsonWithETag(req, {
+    periods: dataset.periods,
+    total: advertisers.length,
+    query,
+    advertisers: sortAndLimit(advertisers, (a) => a.impressions, query),
+  });
+});
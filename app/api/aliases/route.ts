@@ -0,0 +1,19 @@
+import { ApiError, handleApi, readJsonBody, requireUploadsEnabled } from "@/lib/api";
+import { AliasError, loadAliasTable, parseAliasTable, saveAliasTable } from "@/lib/data/aliases";
+import { DEFAULT_DATA_DIR } from "@/lib/data/load";
+
+export const GET = handleApi(async () => Response.json(loadAliasTable(DEFAULT_DATA_DIR)));
+
+// Body: the whole alias table, which replaces the stored one.
+export const PUT = handleApi(async (req: Request) => {
+  requireUploadsEnabled();
+  let table;
+  try {
+    table = parseAliasTable(await readJsonBody(req));
+  } catch (err) {
+    if (err instanceof AliasError) throw new ApiError(400, err.message);
+    throw err;
+  }
+  saveAliasTable(DEFAULT_DATA_DIR, table);
+  return Response.json(loadAliasTable(DEFAULT_DATA_DIR));
+});
@@ -0,0 +1,11 @@
+import { handleApi, readJsonBody, requireUploadsEnabled } from "@/lib/api";
+import { DEFAULT_DATA_DIR } from "@/lib/data/load";
+import { loadManifest } from "@/lib/data/manifest";
+import { parseUploadFile, previewUpload } from "@/lib/data/upload";
+
+// Body: one UploadFile. Returns its headers, sample rows and suggested column mapping.
+export const POST = handleApi(async (req: Request) => {
+  requireUploadsEnabled();
+  const file = parseUploadFile(await readJsonBody(req));
+  return Response.json(previewUpload(loadManifest(DEFAULT_DATA_DIR), file));
+});
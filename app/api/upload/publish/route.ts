@@ -0,0 +1,19 @@
+import { handleApi, readJsonBody, requireUploadsEnabled } from "@/lib/api";
+import { DEFAULT_DATA_DIR } from "@/lib/data/load";
+import { parseUploadRequest } from "@/lib/data/upload";
+import { publishUpload } from "@/lib/data/versions";
+
+// Body: an UploadRequest plus an optional `note`. 422 with the validation when it does not pass.
+export const POST = handleApi(async (req: Request) => {
+  requireUploadsEnabled();
+  const body = await readJsonBody(req);
+  const request = parseUploadRequest(body);
+  const rawNote = (body as { note?: unknown }).note;
+  const note = typeof rawNote === "string" && rawNote.trim() ? rawNote.trim() : request.files.map((f) => f.name).join(", ");
+
+  const { version, validation } = publishUpload(DEFAULT_DATA_DIR, request, note);
+  if (!version) {
+    return Response.json({ error: "The upload did not pass validation", validation }, { status: 422 });
+  }
+  return Response.json({ version, validation });
+});
@@ -0,0 +1,13 @@
+import { handleApi, readJsonBody, requireUploadsEnabled } from "@/lib/api";
+import { DEFAULT_DATA_DIR } from "@/lib/data/load";
+import { loadManifest } from "@/lib/data/manifest";
+import { discardStage, parseUploadRequest, stageUpload } from "@/lib/data/upload";
+
+// Body: an UploadRequest. Validates it against a staged copy of the data without publishing.
+export const POST = handleApi(async (req: Request) => {
+  requireUploadsEnabled();
+  const request = parseUploadRequest(await readJsonBody(req));
+  const staged = stageUpload(DEFAULT_DATA_DIR, loadManifest(DEFAULT_DATA_DIR), request);
+  discardStage(staged.dir);
+  return Response.json(staged.validation);
+});
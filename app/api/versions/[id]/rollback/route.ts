@@ -0,0 +1,9 @@
+import { handleApi, requireUploadsEnabled } from "@/lib/api";
+import { DEFAULT_DATA_DIR } from "@/lib/data/load";
+import { rollBackTo } from "@/lib/data/versions";
+
+export const POST = handleApi(async (_req: Request, { params }: { params: Promise<{ id: string }> }) => {
+  requireUploadsEnabled();
+  const { id } = await params;
+  return Response.json({ current: rollBackTo(DEFAULT_DATA_DIR, id) });
+});
@@ -0,0 +1,7 @@
+import { handleApi } from "@/lib/api";
+import { DEFAULT_DATA_DIR } from "@/lib/data/load";
+import { currentVersionId, listVersions } from "@/lib/data/versions";
+
+export const GET = handleApi(async () =>
+  Response.json({ current: currentVersionId(DEFAULT_DATA_DIR), versions: listVersions(DEFAULT_DATA_DIR) })
+);
@@ -0,0 +1,43 @@
+import { ApiError, datasetForRequest, handleApi, jsonWithETag, parseListQuery, sortAndLimit } from "@/lib/api";
+import { advertisersInVertical, withChanges, type AdvertiserChange } from "@/lib/data/advertisers";
+
+const METRICS = [
+  "impressions",
+  "reach",
+  "frequency",
+  "impressions_delta",
+  "impressions_pct_change",
+  "reach_pct_change",
+  "frequency_pct_change",
+] as const;
+
+type Metric = (typeof METRICS)[number];
+
+function valueOf(a: AdvertiserChange, metric: Metric): number | null {
+  if (metric === "impressions" || metric === "reach" || metric === "frequency") {
+    return a.comparison?.[metric] ?? null;
+  }
+  return a[metric];
+}
+
+export const GET = handleApi(async (req: Request, { params }: { params: Promise<{ vertical: string }> }) => {
+  const { vertical } = await params;
+  const url = new URL(req.url);
+  const query = parseListQuery(url, METRICS, "impressions");
+  const dataset = datasetForRequest(url);
+
+  if (!dataset.rollup.verticals.some((v) => v.vertical === vertical)) {
+    throw new ApiError(404, `Unknown vertical: ${vertical}`);
+  }
+
+  const advertisers = advertisersInVertical(dataset, vertical).map(withChanges);
+
+  return jsonWithETag(req, {
+    periods: dataset.periods,
+    vertical,
+    attribution: dataset.attribution,
+    total: advertisers.length,
+    query,
+    advertisers: sortAndLimit(advertisers, (a) => valueOf(a, query.metric), query),
+  });
+});
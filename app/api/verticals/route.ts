@@ -0,0 +1,36 @@
+import { datasetForRequest, handleApi, jsonWithETag, parseListQuery, sortAndLimit } from "@/lib/api";
+import { analysesFor } from "@/lib/data/cache";
+
+const METRICS = ["pct_change", "delta", "share_of_change", "base_impressions", "comparison_impressions"] as const;
+
+export const GET = handleApi(async (req: Request) => {
+  const url = new URL(req.url);
+  const query = parseListQuery(url, METRICS, "pct_change");
+  const dataset = datasetForRequest(url);
+  const { contribution } = analysesFor(dataset);
+  const totals = new Map(dataset.rollup.verticals.map((v) => [v.vertical, v]));
+  const contributions = new Map(contribution.verticals.map((c) => [c.vertical, c]));
+
+  // the verticals the dashboard charts, with the % change it draws
+  const verticals = dataset.verticals.map((v) => {
+    const c = contributions.get(v.vertical);
+    return {
+      vertical: v.vertical,
+      pct_change: v.pct_change,
+      base_impressions: c?.base_impressions ?? null,
+      comparison_impressions: c?.comparison_impressions ?? null,
+      delta: c?.delta ?? null,
+      share_of_change: c?.share_of_change ?? null,
+      advertisers: totals.get(v.vertical)?.advertisers ?? 0,
+    };
+  });
+
+  return jsonWithETag(req, {
+    periods: dataset.periods,
+    overall: dataset.rollup.overall,
+    verticalSource: dataset.verticalSource,
+    attribution: dataset.attribution,
+    query,
+    verticals: sortAndLimit(verticals, (v) => v[query.metric], query),
+  });
+});
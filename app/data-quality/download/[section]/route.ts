@@ -0,0 +1,20 @@
+import { csvFormat } from "d3-dsv";
+import { analysesFor, loadCachedDataset } from "@/lib/data/cache";
+import { DEFAULT_DATA_DIR } from "@/lib/data/load";
+import { loadManifest } from "@/lib/data/manifest";
+import { periodIdsFromParams } from "@/lib/searchParams";
+
+export async function GET(req: Request, { params }: { params: Promise<{ section: string }> }) {
+  const { section: id } = await params;
+  const search = Object.fromEntries(new URL(req.url).searchParams);
+  const ids = periodIdsFromParams(loadManifest(DEFAULT_DATA_DIR), search);
+  const section = analysesFor(loadCachedDataset(DEFAULT_DATA_DIR, ids)).quality.sections.find((s) => s.id === id);
+  if (!section) return new Response(`Unknown section: ${id}`, { status: 404 });
+
+  return new Response(csvFormat(section.rows, section.columns), {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="data-quality-${section.id}.csv"`,
+    },
+  });
+}
@@ -0,0 +1,126 @@
+import type { Metadata } from "next";
+import PeriodPairPicker from "@/components/PeriodPairPicker";
+import QueryLink from "@/components/QueryLink";
+import ThemeStyle from "@/components/ThemeStyle";
+import { analysesFor, loadCachedDataset } from "@/lib/data/cache";
+import { DEFAULT_DATA_DIR } from "@/lib/data/load";
+import { loadManifest } from "@/lib/data/manifest";
+import { periodIdsFromParams, type SearchParams } from "@/lib/searchParams";
+import { themeFromParams } from "@/lib/theme";
+
+const PREVIEW_ROWS = 50;
+
+type Props = { searchParams: Promise<SearchParams> };
+
+export async function generateMetadata({ searchParams }: Props): Promise<Metadata> {
+  const { brand } = themeFromParams(await searchParams);
+  return { title: `Data quality | ${brand.title}`, description: brand.description };
+}
+
+export default async function DataQualityPage({ searchParams }: Props) {
+  const search = await searchParams;
+  const theme = themeFromParams(search);
+  const manifest = loadManifest(DEFAULT_DATA_DIR);
+  const ids = periodIdsFromParams(manifest, search);
+  const dataset = loadCachedDataset(DEFAULT_DATA_DIR, ids);
+  const { pctRescaled, sections } = analysesFor(dataset).quality;
+  const query = new URLSearchParams({ base: dataset.periods.base.id, comparison: dataset.periods.comparison.id });
+
+  return (
+    <main className="mx-auto min-h-screen w-full max-w-6xl bg-(--theme-background) px-6 py-6 text-[14px] leading-5 text-ink">
+      <ThemeStyle theme={theme} />
+      <div className="mb-4 flex items-baseline justify-between">
+        <h1 className="text-xl font-semibold">Data quality</h1>
+        <QueryLink
+          pathname="/"
+          updates={{ base: dataset.periods.base.id, comparison: dataset.periods.comparison.id }}
+          className="text-link hover:underline"
+        >
+          Back to dashboard
+        </QueryLink>
+      </div>
+
+      <div className="mb-4">
+        <PeriodPairPicker periods={manifest.periods} selected={dataset.periods} />
+      </div>
+
+      <table className="mb-6 border-collapse">
+        <tbody>
+          {dataset.report.files.map((f) => (
+            <tr key={f.file}>
+              <td className="pr-6 font-mono">{f.file}</td>
+              <td className="pr-6 text-right">{f.rowsAccepted.toLocaleString("en-US")} accepted</td>
+              <td className="text-right text-muted">of {f.rowsRead.toLocaleString("en-US")} rows</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <p className="mb-6">
+        The vertical % change column{" "}
+        <strong>{pctRescaled ? "held proportions and was multiplied by 100" : "was used as-is (already in percent)"}</strong>.
+      </p>
+
+      <ul className="mb-8 list-disc pl-5">
+        {sections.map((s) => (
+          <li key={s.id}>
+            <a href={`#${s.id}`} className="text-link hover:underline">
+              {s.title}
+            </a>{" "}
+            <span className="text-muted">({s.rows.length.toLocaleString("en-US")})</span>
+          </li>
+        ))}
+      </ul>
+
+      {sections.map((s) => (
+        <section key={s.id} id={s.id} className="mb-10">
+          <div className="mb-1 flex items-baseline justify-between">
+            <h2 className="text-lg font-semibold">
+              {s.title} <span className="font-normal text-muted">({s.rows.length.toLocaleString("en-US")})</span>
+            </h2>
+            {s.rows.length > 0 ? (
+              <a href={`/data-quality/download/${s.id}?${query}`} className="text-link hover:underline">
+                Download CSV
+              </a>
+            ) : null}
+          </div>
+          <p className="mb-2 text-muted">{s.description}</p>
+
+          {s.rows.length === 0 ? (
+            <p className="text-muted">Nothing to report.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full border-collapse text-[13px]">
+                <thead>
+                  <tr className="border-b border-line text-left">
+                    {s.columns.map((c) => (
+                      <th key={c} className="py-1 pr-4 font-semibold">
+                        {c}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {s.rows.slice(0, PREVIEW_ROWS).map((r, i) => (
+                    <tr key={i} className="border-b border-line/50 align-top">
+                      {s.columns.map((c) => (
+                        <td key={c} className="py-1 pr-4">
+                          {typeof r[c] === "number" ? r[c].toLocaleString("en-US") : r[c]}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {s.rows.length > PREVIEW_ROWS ? (
+                <p className="mt-1 text-muted">
+                  Showing {PREVIEW_ROWS} of {s.rows.length.toLocaleString("en-US")}. Download the CSV for the full list.
+                </p>
+              ) : null}
+            </div>
+          )}
+        </section>
+      ))}
+    </main>
+  );
+}
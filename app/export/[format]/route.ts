@@ -0,0 +1,72 @@
+import { chartStateFromParams } from "@/lib/chartState";
+import { advertisersInVertical, toVerticalAdvertisers } from "@/lib/data/advertisers";
+import { COHORT_FILTERS } from "@/lib/data/cohorts";
+import { loadCachedDataset } from "@/lib/data/cache";
+import { DEFAULT_DATA_DIR } from "@/lib/data/load";
+import { loadManifest } from "@/lib/data/manifest";
+import { atParentLevel, parentsInVertical } from "@/lib/data/parents";
+import { buildChartScene, type ChartSceneInput } from "@/lib/export/chartScene";
+import { sheetToCsv } from "@/lib/export/csv";
+import { exportFontsFor } from "@/lib/export/fonts";
+import { sceneToPng } from "@/lib/export/png";
+import { sceneToPdf, sceneToSvg } from "@/lib/export/scene";
+import { buildViewSheets, primarySheet } from "@/lib/export/viewData";
+import { sheetsToXlsx } from "@/lib/export/xlsx";
+import { firstParam, periodIdsFromParams } from "@/lib/searchParams";
+import { themeFromParams } from "@/lib/theme";
+
+const FORMATS = ["svg", "png", "pdf", "csv", "xlsx"];
+
+// Renders the chart for the page's query string (periods, selection, sort,
+// top-N, cohort) as a standalone SVG, PNG or vector PDF with the font
+// embedded, or its rows as CSV or XLSX. CSV holds one table, picked with `sheet` (the view's main table by
+// default); XLSX holds them all plus a metadata sheet.
+export async function GET(req: Request, { params }: { params: Promise<{ format: string }> }) {
+  const { format } = await params;
+  if (!FORMATS.includes(format)) return new Response(`Unknown format: ${format}`, { status: 404 });
+
+  const search = Object.fromEntries(new URL(req.url).searchParams);
+  const dataset = loadCachedDataset(DEFAULT_DATA_DIR, periodIdsFromParams(loadManifest(DEFAULT_DATA_DIR), search));
+  const state = chartStateFromParams(search);
+  const brands = state.vertical ? toVerticalAdvertisers(state.vertical, advertisersInVertical(dataset, state.vertical)) : null;
+  // the parent view draws the selected vertical's parent companies, as on the page
+  const advertisers =
+    brands && state.level === "parent" && Object.keys(dataset.parentByAdvertiser).length > 0
+      ? atParentLevel(parentsInVertical(brands, dataset.parentByAdvertiser), brands)
+      : brands;
+  const input: ChartSceneInput = {
+    data: dataset.verticals,
+    advertisers,
+    periods: dataset.periods,
+    state,
+    cohort: COHORT_FILTERS.find((c) => c === firstParam(search.cohort)) ?? "all",
+    attribution: dataset.attribution,
+    palette: themeFromParams(search).palette,
+  };
+
+  const isData = format === "csv" || format === "xlsx";
+  const filename = `${isData ? "data" : "chart"}-${dataset.periods.base.id}-vs-${dataset.periods.comparison.id}.${format}`;
+  const headers = { "Content-Disposition": `attachment; filename="${filename}"` };
+  if (isData) {
+    const sheets = buildViewSheets({ ...input, sourceFiles: dataset.report.files.map((f) => f.file) }, new Date());
+    if (format === "xlsx") {
+      return new Response(Buffer.from(sheetsToXlsx(sheets)), {
+        headers: { ...headers, "Content-Type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" },
+      });
+    }
+    const wanted = firstParam(search.sheet);
+    const sheet = wanted ? sheets.find((s) => s.name.toLowerCase() === wanted.toLowerCase()) : primarySheet(sheets);
+    if (!sheet) return new Response(`Unknown sheet: ${wanted}`, { status: 404 });
+    return new Response(sheetToCsv(sheet), { headers: { ...headers, "Content-Type": "text/csv; charset=utf-8" } });
+  }
+
+  const scene = buildChartScene(input);
+  const fonts = await exportFontsFor(scene);
+  if (format === "svg") {
+    return new Response(sceneToSvg(scene, fonts), { headers: { ...headers, "Content-Type": "image/svg+xml; charset=utf-8" } });
+  }
+  if (format === "png") {
+    return new Response(Buffer.from(sceneToPng(scene, fonts)), { headers: { ...headers, "Content-Type": "image/png" } });
+  }
+  return new Response(Buffer.from(sceneToPdf(scene, fonts)), { headers: { ...headers, "Content-Type": "application/pdf" } });
+}
@@ -1,5 +1,7 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import ThemeStyle from "@/components/ThemeStyle";
+import { deploymentTheme } from "@/lib/theme";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -12,10 +14,10 @@ const geistMono = Geist_Mono({
   subsets: ["latin"],
 });
 
-export const metadata: Metadata = {
-  title: "Create Next App",
-  description: "Generated by create next app",
-};
+export function generateMetadata(): Metadata {
+  const { brand } = deploymentTheme();
+  return { title: brand.title, description: brand.description };
+}
 
 export default function RootLayout({
   children,
@@ -24,9 +26,8 @@ export default function RootLayout({
 }>) {
   return (
     <html lang="en">
-      <body
-        className={`${geistSans.variable} ${geistMono.variable} antialiased`}
-      >
+      <body className={`${geistSans.variable} ${geistMono.variable} antialiased`}>
+        <ThemeStyle theme={deploymentTheme()} />
         {children}
       </body>
     </html>
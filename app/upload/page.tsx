@@ -0,0 +1,52 @@
+import type { Metadata } from "next";
+import QueryLink from "@/components/QueryLink";
+import ThemeStyle from "@/components/ThemeStyle";
+import UploadWizard from "@/components/UploadWizard";
+import { uploadsEnabled } from "@/lib/api";
+import { DEFAULT_DATA_DIR } from "@/lib/data/load";
+import { loadManifest } from "@/lib/data/manifest";
+import { currentVersionId, listVersions } from "@/lib/data/versions";
+import type { SearchParams } from "@/lib/searchParams";
+import { themeFromParams } from "@/lib/theme";
+
+type Props = { searchParams: Promise<SearchParams> };
+
+export async function generateMetadata({ searchParams }: Props): Promise<Metadata> {
+  const { brand } = themeFromParams(await searchParams);
+  return { title: `Upload data | ${brand.title}`, description: brand.description };
+}
+
+export default async function UploadPage({ searchParams }: Props) {
+  const theme = themeFromParams(await searchParams);
+  const manifest = loadManifest(DEFAULT_DATA_DIR);
+
+  return (
+    <main
+      className="mx-auto min-h-screen w-full bg-(--theme-background) px-6 py-6 text-[14px] leading-5 text-ink"
+    >
+      <ThemeStyle theme={theme} />
+      <div className="mx-auto max-w-6xl">
+        <div className="mb-4 flex flex-wrap items-baseline justify-between gap-4">
+          <h1 className="text-xl font-semibold">Upload data</h1>
+          <QueryLink pathname="/" className="text-link hover:underline">
+            Back to dashboard
+          </QueryLink>
+        </div>
+
+        {uploadsEnabled() ? (
+          <UploadWizard
+            periods={manifest.periods}
+            mapping={manifest.mapping}
+            defaultPair={manifest.defaultPair}
+            versions={listVersions(DEFAULT_DATA_DIR)}
+            currentVersion={currentVersionId(DEFAULT_DATA_DIR)}
+          />
+        ) : (
+          <p className="text-muted">
+            Uploads are turned off on this deployment. Set ALLOW_DATA_UPLOADS=1 to turn them on.
+          </p>
+        )}
+      </div>
+    </main>
+  );
+}
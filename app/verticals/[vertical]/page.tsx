@@ -0,0 +1,159 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import ImpressionHistogram from "@/components/ImpressionHistogram";
+import MiniDivergingBar from "@/components/MiniDivergingBar";
+import PeriodPairPicker from "@/components/PeriodPairPicker";
+import QueryLink from "@/components/QueryLink";
+import ThemeStyle from "@/components/ThemeStyle";
+import VerticalAdvertiserTable from "@/components/VerticalAdvertiserTable";
+import { advertisersInVertical, withChanges } from "@/lib/data/advertisers";
+import { ATTRIBUTION_LABELS } from "@/lib/data/attribution";
+import { concentrationOf, impressionHistogram, verticalImpressions } from "@/lib/data/concentration";
+import { loadCachedDataset } from "@/lib/data/cache";
+import { DEFAULT_DATA_DIR } from "@/lib/data/load";
+import { loadManifest } from "@/lib/data/manifest";
+import { fmtImpressions } from "@/lib/narrative/engine";
+import { periodIdsFromParams, type SearchParams } from "@/lib/searchParams";
+import { themeFromParams } from "@/lib/theme";
+
+type Props = { params: Promise<{ vertical: string }>; searchParams: Promise<SearchParams> };
+
+export async function generateMetadata({ params, searchParams }: Props): Promise<Metadata> {
+  const { vertical } = await params;
+  const { brand } = themeFromParams(await searchParams);
+  return { title: `${decodeURIComponent(vertical)} | ${brand.title}`, description: brand.description };
+}
+
+export default async function VerticalPage({ params, searchParams }: Props) {
+  const name = decodeURIComponent((await params).vertical);
+  const search = await searchParams;
+  const theme = themeFromParams(search);
+  const { palette } = theme;
+
+  const manifest = loadManifest(DEFAULT_DATA_DIR);
+  const dataset = loadCachedDataset(DEFAULT_DATA_DIR, periodIdsFromParams(manifest, search));
+  const { periods } = dataset;
+  const total = dataset.rollup.verticals.find((v) => v.vertical === name);
+  if (!total) notFound();
+
+  // the same grouping the dashboard's advertiser chart draws from, attributed
+  // to this vertical as its bars are
+  const rows = advertisersInVertical(dataset, name).map(withChanges);
+  const sharedCount = rows.filter((r) => r.shared).length;
+  const impressions = verticalImpressions(dataset, name);
+  const stats = {
+    base: concentrationOf(impressions.base),
+    comparison: concentrationOf(impressions.comparison),
+  };
+  const charted = dataset.verticals.find((v) => v.vertical === name);
+  const onChart = charted !== undefined;
+  // the % change the chart below highlights; the rollup's when it is not charted
+  const pctChange = charted?.pct_change ?? total.pct_change;
+
+  const fmtShare = (n: number | null) => (n === null ? "—" : `${n.toFixed(1)}%`);
+  const fmtHhi = (n: number | null) => (n === null ? "—" : Math.round(n).toLocaleString("en-US"));
+  const statRows = [
+    { label: "Advertisers", value: (s: typeof stats.base) => s.advertisers.toLocaleString("en-US") },
+    { label: "Impressions", value: (s: typeof stats.base) => fmtImpressions(s.impressions) },
+    { label: "Top-5 share", value: (s: typeof stats.base) => fmtShare(s.top5SharePct) },
+    { label: "HHI", value: (s: typeof stats.base) => fmtHhi(s.hhi) },
+  ];
+
+  return (
+    <main
+      className="mx-auto min-h-screen w-full bg-(--theme-background) px-6 py-6 text-[14px] leading-5 text-ink"
+    >
+      <ThemeStyle theme={theme} />
+      <div className="mx-auto max-w-6xl">
+        <div className="mb-4 flex flex-wrap items-baseline justify-between gap-4">
+          <h1 className="text-xl font-semibold">{name}</h1>
+          <QueryLink pathname="/" className="text-link hover:underline">
+            Back to dashboard
+          </QueryLink>
+        </div>
+
+        <div className="mb-4">
+          <PeriodPairPicker periods={manifest.periods} selected={periods} />
+        </div>
+
+        <p className="mb-6">
+          {name} advertisers served <strong>{fmtImpressions(total.comparison_impressions)}</strong> impressions in{" "}
+          {periods.comparison.label}, against {fmtImpressions(total.base_impressions)} in {periods.base.label}
+          {pctChange !== null ? (
+            <>
+              {" "}
+              (
+              <strong style={{ color: pctChange >= 0 ? palette.positive : palette.negative }}>
+                {`${pctChange >= 0 ? "+" : ""}${pctChange.toFixed(1)}%`}
+              </strong>
+              )
+            </>
+          ) : null}
+          .
+          {onChart
+            ? null
+            : dataset.verticalSource === "precomputed"
+              ? " It is not one of the verticals in the precomputed file, which the dashboard's chart lists."
+              : ` It has no ${periods.base.label} impressions, so it has no % change to chart.`}
+        </p>
+
+        <div className="mb-8 flex flex-wrap items-start gap-10">
+          <section>
+            <h2 className="mb-2 text-lg font-semibold">Concentration</h2>
+            <table className="border-collapse">
+              <thead>
+                <tr className="border-b border-line">
+                  <td />
+                  <th scope="col" className="py-1 pl-6 text-right font-semibold">{periods.base.label}</th>
+                  <th scope="col" className="py-1 pl-6 text-right font-semibold">{periods.comparison.label}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {statRows.map((r) => (
+                  <tr key={r.label} className="border-b border-line">
+                    <th scope="row" className="py-1 text-left font-normal">{r.label}</th>
+                    <td className="py-1 pl-6 text-right">{r.value(stats.base)}</td>
+                    <td className="py-1 pl-6 text-right">{r.value(stats.comparison)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="mt-2 max-w-sm text-[13px] text-muted">
+              HHI sums the squared % shares of impressions: 10,000 is one advertiser, under 1,500 is usually read as
+              unconcentrated.
+            </p>
+          </section>
+
+          {onChart ? (
+            <section className="min-w-[280px] flex-1">
+              <h2 className="mb-2 text-lg font-semibold">Among all verticals</h2>
+              <MiniDivergingBar data={dataset.verticals} highlight={name} palette={palette} />
+            </section>
+          ) : null}
+        </div>
+
+        <section className="mb-8">
+          <h2 className="mb-2 text-lg font-semibold">Impressions per advertiser</h2>
+          <div className="max-w-3xl">
+            <ImpressionHistogram
+              bins={impressionHistogram(impressions.base, impressions.comparison)}
+              periods={periods}
+              palette={palette}
+            />
+          </div>
+        </section>
+
+        <section>
+          <h2 className="mb-2 text-lg font-semibold">Advertisers</h2>
+          {sharedCount > 0 ? (
+            <p className="mb-2 text-[13px] text-muted">
+              {sharedCount.toLocaleString("en-US")} of these advertisers are also mapped to other verticals; their
+              impressions are {ATTRIBUTION_LABELS[dataset.attribution]}.
+            </p>
+          ) : null}
+          <VerticalAdvertiserTable rows={rows} periods={periods} attribution={dataset.attribution} palette={palette} />
+        </section>
+      </div>
+    </main>
+  );
+}
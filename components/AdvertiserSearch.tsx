@@ -0,0 +1,139 @@
+"use client";
+
+import React, { useEffect, useId, useState } from "react";
+import type { AdvertiserListing } from "@/lib/data/advertisers";
+import type { PeriodPair } from "@/lib/data/periods";
+
+// pause in typing before the query is sent
+const DEBOUNCE_MS = 150;
+
+type Results = {
+  query: string;
+  hits: AdvertiserListing[];
+  failed: boolean;
+};
+
+// Matches come from GET /api/advertisers?q=, so the page does not carry every
+// advertiser's name.
+export default function AdvertiserSearch({
+  periods,
+  onSelect,
+}: {
+  periods: PeriodPair;
+  onSelect: (hit: AdvertiserListing) => void;
+}) {
+  const listId = useId();
+  const [query, setQuery] = useState("");
+  const [open, setOpen] = useState(false);
+  const [activeIdx, setActiveIdx] = useState(0);
+  const [results, setResults] = useState<Results>({ query: "", hits: [], failed: false });
+
+  const trimmed = query.trim();
+  const baseId = periods.base.id;
+  const comparisonId = periods.comparison.id;
+  useEffect(() => {
+    if (!trimmed) return;
+    const controller = new AbortController();
+    const t = window.setTimeout(async () => {
+      try {
+        const qs = new URLSearchParams({ q: trimmed, limit: "10", base: baseId, comparison: comparisonId });
+        const res = await fetch(`/api/advertisers?${qs}`, { signal: controller.signal });
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        const body: { advertisers: AdvertiserListing[] } = await res.json();
+        setResults({ query: trimmed, hits: body.advertisers, failed: false });
+      } catch {
+        if (!controller.signal.aborted) setResults({ query: trimmed, hits: [], failed: true });
+      }
+    }, DEBOUNCE_MS);
+    return () => {
+      window.clearTimeout(t);
+      controller.abort();
+    };
+  }, [trimmed, baseId, comparisonId]);
+
+  // the last results stay up while the next query is on its way
+  const pending = results.query !== trimmed;
+  const hits = trimmed ? results.hits : [];
+
+  const choose = (hit: AdvertiserListing) => {
+    setQuery(hit.advertiser);
+    setOpen(false);
+    onSelect(hit);
+  };
+
+  const onKeyDown = (evt: React.KeyboardEvent<HTMLInputElement>) => {
+    if (evt.key === "ArrowDown") {
+      evt.preventDefault();
+      setOpen(true);
+      setActiveIdx((i) => Math.min(i + 1, hits.length - 1));
+    } else if (evt.key === "ArrowUp") {
+      evt.preventDefault();
+      setActiveIdx((i) => Math.max(i - 1, 0));
+    } else if (evt.key === "Enter") {
+      if (open && hits[activeIdx]) {
+        evt.preventDefault();
+        choose(hits[activeIdx]);
+      }
+    } else if (evt.key === "Escape") {
+      setOpen(false);
+    }
+  };
+
+  const showList = open && trimmed.length > 0;
+
+  return (
+    <div className="relative mx-auto w-full max-w-md text-[14px]">
+      <input
+        type="search"
+        role="combobox"
+        aria-expanded={showList}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={showList && hits[activeIdx] ? `${listId}-${activeIdx}` : undefined}
+        placeholder="Search advertisers…"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setActiveIdx(0);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={onKeyDown}
+        className="w-full rounded border border-line px-3 py-1.5 text-ink"
+      />
+
+      {showList ? (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute z-20 mt-1 max-h-80 w-full overflow-auto rounded border border-line bg-surface shadow"
+        >
+          {hits.length === 0 ? (
+            <li className="px-3 py-1.5 text-muted">
+              {pending ? "Searching…" : results.failed ? "Search is unavailable; try again." : "No matching advertisers"}
+            </li>
+          ) : (
+            hits.map((h, i) => (
+              <li
+                key={h.advertiser}
+                id={`${listId}-${i}`}
+                role="option"
+                aria-selected={i === activeIdx}
+                className={`cursor-pointer px-3 py-1.5 ${i === activeIdx ? "bg-highlight" : ""}`}
+                onMouseEnter={() => setActiveIdx(i)}
+                // mousedown so the pick lands before the input's blur closes the list
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  choose(h);
+                }}
+              >
+                {h.advertiser}
+              </li>
+            ))
+          )}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import React, { useState } from "react";
+import type { AliasReview, AliasTable } from "@/lib/data/aliases";
+import { fmtImpressions } from "@/lib/narrative/engine";
+
+const buttonClass = "rounded border border-line px-2 py-0.5 hover:bg-highlight disabled:text-muted";
+const inputClass = "rounded border border-line bg-surface px-2 py-1";
+
+// Moves `alias` under `entity`, creating the entity when it is new.
+function addAlias(table: AliasTable, alias: string, entity: string): AliasTable {
+  const lower = alias.trim().toLowerCase();
+  const entities = table.entities.map((e) => ({ ...e, aliases: e.aliases.filter((a) => a.toLowerCase() !== lower) }));
+  const hit = entities.find((e) => e.name === entity);
+  return {
+    ...table,
+    entities: hit
+      ? entities.map((e) => (e === hit ? { ...e, aliases: [...e.aliases, alias.trim()] } : e))
+      : [...entities, { name: entity, aliases: [alias.trim()] }],
+  };
+}
+
+function removeAlias(table: AliasTable, entity: string, alias: string): AliasTable {
+  return {
+    ...table,
+    entities: table.entities
+      .map((e) => (e.name === entity ? { ...e, aliases: e.aliases.filter((a) => a !== alias) } : e))
+      .filter((e) => e.aliases.length > 0),
+  };
+}
+
+// Marks `entity` exact, or lifts the mark.
+function setExact(table: AliasTable, entity: string, exact: boolean): AliasTable {
+  return {
+    ...table,
+    entities: table.entities.map((e) =>
+      e.name !== entity ? e : exact ? { ...e, exact } : { name: e.name, aliases: e.aliases }
+    ),
+  };
+}
+
+// Gives each of `names` an exact entity of its own, so the joins stop merging
+// them. Exact names ignore case, so names differing only in case share one.
+function keepApart(table: AliasTable, names: string[]): AliasTable {
+  const byLower = new Map<string, string>();
+  for (const e of table.entities) byLower.set(e.name.toLowerCase(), e.name);
+  const added: string[] = [];
+  for (const n of names) {
+    if (byLower.has(n.toLowerCase())) continue;
+    byLower.set(n.toLowerCase(), n);
+    added.push(n);
+  }
+  const kept = new Set(names.map((n) => byLower.get(n.toLowerCase())));
+  return {
+    ...table,
+    entities: [
+      ...table.entities.map((e) => (kept.has(e.name) ? { ...e, exact: true } : e)),
+      ...added.map((name) => ({ name, aliases: [name], exact: true })),
+    ],
+  };
+}
+
+/**
+ * Edits the advertiser alias table: accept or dismiss suggested merges, add
+ * aliases by hand, and save. Suggestions are recomputed on the server after
+ * each save.
+ */
+export default function AliasEditor({ table: saved, review }: { table: AliasTable; review: AliasReview }) {
+  const router = useRouter();
+  const [table, setTable] = useState(saved);
+  const [handled, setHandled] = useState<Set<string>>(new Set());
+  const [entity, setEntity] = useState("");
+  const [alias, setAlias] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const dirty = JSON.stringify(table) !== JSON.stringify(saved);
+
+  const resolve = (name: string, next: AliasTable) => {
+    setTable(next);
+    setHandled(new Set(handled).add(name));
+  };
+
+  const save = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/aliases", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(table),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error ?? `Request failed (${res.status})`);
+      setTable(json);
+      setHandled(new Set());
+      router.refresh();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const suggestions = review.suggestions.filter((s) => !handled.has(s.name));
+
+  return (
+    <div className="text-[14px] leading-5">
+      <div className="sticky top-0 mb-4 flex items-center gap-3 bg-(--theme-background) py-2">
+        <button type="button" disabled={busy || !dirty} onClick={save} className={buttonClass}>
+          {busy ? "Saving…" : "Save aliases"}
+        </button>
+        {dirty ? <span className="text-muted">Unsaved changes</span> : null}
+        {error ? <span className="text-negative">{error}</span> : null}
+      </div>
+
+      <section className="mb-8">
+        <h2 className="mb-1 text-lg font-semibold">
+          Suggested merges <span className="font-normal text-muted">({suggestions.length})</span>
+        </h2>
+        <p className="mb-2 text-muted">
+          Advertisers in the period files with no vertical, largest first, next to the mapped names they most resemble.
+        </p>
+        {suggestions.length === 0 ? (
+          <p className="text-muted">Nothing to review.</p>
+        ) : (
+          <table className="w-full border-collapse text-[13px]">
+            <tbody>
+              {suggestions.map((s) => (
+                <tr key={s.name} className="border-b border-line align-top">
+                  <th scope="row" className="py-1 pr-4 text-left font-normal">
+                    {s.name} <span className="text-muted">{fmtImpressions(s.impressions)}</span>
+                  </th>
+                  <td className="py-1">
+                    {s.candidates.map((c) => (
+                      <div key={c.name} className="mb-1 flex flex-wrap items-center gap-2">
+                        <span>
+                          {c.name} <span className="text-muted">({c.verticals.join(", ")})</span>
+                        </span>
+                        <button type="button" onClick={() => resolve(s.name, addAlias(table, s.name, c.name))} className={buttonClass}>
+                          Same advertiser
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            resolve(s.name, { ...table, distinct: [...table.distinct, [s.name, c.name]] })
+                          }
+                          className={buttonClass}
+                        >
+                          Different
+                        </button>
+                      </div>
+                    ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <section className="mb-8">
+        <h2 className="mb-1 text-lg font-semibold">Aliases</h2>
+        <p className="mb-2 text-muted">
+          Each raw name is read as its entity&apos;s name. An exact name wins over one that only normalizes alike. An
+          entity marked exact matches only the names it lists, so two companies whose names normalize alike stay apart.
+        </p>
+        <form
+          className="mb-3 flex flex-wrap items-center gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (!entity.trim() || !alias.trim()) return;
+            setTable(addAlias(table, alias, entity.trim()));
+            setAlias("");
+          }}
+        >
+          <input value={alias} onChange={(e) => setAlias(e.target.value)} placeholder="Name in the data" className={inputClass} />
+          is
+          <input
+            value={entity}
+            onChange={(e) => setEntity(e.target.value)}
+            placeholder="Entity name"
+            list="alias-entities"
+            className={inputClass}
+          />
+          <datalist id="alias-entities">
+            {table.entities.map((e) => (
+              <option key={e.name} value={e.name} />
+            ))}
+          </datalist>
+          <button type="submit" className={buttonClass}>
+            Add
+          </button>
+        </form>
+        {table.entities.length === 0 ? (
+          <p className="text-muted">No aliases yet.</p>
+        ) : (
+          <table className="border-collapse text-[13px]">
+            <tbody>
+              {table.entities.map((e) => (
+                <tr key={e.name} className="border-b border-line align-top">
+                  <th scope="row" className="py-1 pr-4 text-left font-semibold">
+                    {e.name}
+                  </th>
+                  <td className="py-1 pr-4 whitespace-nowrap">
+                    <label className="inline-flex items-center gap-1 text-muted">
+                      <input
+                        type="checkbox"
+                        checked={e.exact ?? false}
+                        onChange={(ev) => setTable(setExact(table, e.name, ev.target.checked))}
+                      />
+                      Exact name
+                    </label>
+                  </td>
+                  <td className="py-1">
+                    {e.aliases.map((a) => (
+                      <span key={a} className="mr-2 inline-flex items-center gap-1">
+                        {a}
+                        <button
+                          type="button"
+                          aria-label={`Remove ${a}`}
+                          onClick={() => setTable(removeAlias(table, e.name, a))}
+                          className="text-muted hover:text-ink"
+                        >
+                          ×
+                        </button>
+                      </span>
+                    ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {table.distinct.length > 0 ? (
+          <p className="mt-2 text-muted">
+            {table.distinct.length.toLocaleString("en-US")} suggestions marked as different advertisers.
+          </p>
+        ) : null}
+      </section>
+
+      <section>
+        <h2 className="mb-1 text-lg font-semibold">
+          Names merged by normalization <span className="font-normal text-muted">({review.collapsed.length})</span>
+        </h2>
+        <p className="mb-2 text-muted">
+          Spellings read as one advertiser because they differ only in case, punctuation or a suffix like Inc or LLC.
+          Their impressions are added up, and households and frequency are left blank. Keep apart gives each name an
+          exact entity.
+        </p>
+        <ul className="text-[13px]">
+          {review.collapsed.map((c) => (
+            <li key={c.key} className="flex flex-wrap items-center gap-2 border-b border-line py-1">
+              {c.names.join(" · ")}
+              <button type="button" onClick={() => setTable(keepApart(table, c.names))} className={buttonClass}>
+                Keep apart
+              </button>
+            </li>
+          ))}
+        </ul>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+"use client";
+
+import React, { useState } from "react";
+import { sheetToCsv } from "@/lib/export/csv";
+import { downloadBlob, exportableSvg, svgToPng } from "@/lib/export/domExport";
+import { primarySheet, type Sheet } from "@/lib/export/viewData";
+import { sheetsToXlsx } from "@/lib/export/xlsx";
+
+type Format = "svg" | "png" | "pdf" | "csv" | "xlsx";
+
+const buttonClass =
+  "rounded border border-line px-2 py-0.5 text-ink hover:bg-highlight disabled:text-muted";
+
+export default function ChartExportMenu({
+  getSvg,
+  getSheets,
+  filename,
+}: {
+  getSvg: () => SVGSVGElement | null;
+  // the rows behind the current view, for "Download data"
+  getSheets: () => Sheet[];
+  // without prefix or extension; downloads are named chart-<filename> and data-<filename>
+  filename: string;
+}) {
+  const [busy, setBusy] = useState<Format | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const exportBlob = async (format: Format): Promise<Blob | null> => {
+    if (format === "csv") return new Blob([sheetToCsv(primarySheet(getSheets()))], { type: "text/csv" });
+    if (format === "xlsx") {
+      return new Blob([sheetsToXlsx(getSheets()).slice().buffer], {
+        type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      });
+    }
+    if (format === "pdf") {
+      // drawn on the server from the view's query string, as vectors with the font embedded
+      const res = await fetch(`/export/pdf${window.location.search}`);
+      if (!res.ok) throw new Error(`PDF export failed: ${res.status}`);
+      return res.blob();
+    }
+    const svg = getSvg();
+    if (!svg) return null;
+    const markup = await exportableSvg(svg);
+    const { width, height } = svg.viewBox.baseVal;
+    return format === "svg" ? new Blob([markup], { type: "image/svg+xml" }) : svgToPng(markup, width, height);
+  };
+
+  const run = async (format: Format) => {
+    setBusy(format);
+    setError(null);
+    try {
+      const blob = await exportBlob(format);
+      const prefix = format === "csv" || format === "xlsx" ? "data" : "chart";
+      if (blob) downloadBlob(blob, `${prefix}-${filename}.${format}`);
+    } catch {
+      setError(`Could not export ${format.toUpperCase()}.`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const button = (f: Format) => (
+    <button key={f} type="button" disabled={busy !== null} onClick={() => run(f)} className={buttonClass}>
+      {busy === f ? "…" : f.toUpperCase()}
+    </button>
+  );
+
+  return (
+    <div className="flex flex-wrap items-center justify-end gap-2 text-[13px]">
+      <span className="text-muted">Export:</span>
+      {(["svg", "png", "pdf"] as const).map(button)}
+      <span className="ml-3 text-muted">Download data:</span>
+      {(["csv", "xlsx"] as const).map(button)}
+      {error ? <span className="text-negative">{error}</span> : null}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import React, { useState } from "react";
+import { buildSteps, Waterfall } from "@/components/Waterfall";
+import type { ContributionAnalysis } from "@/lib/data/contribution";
+import type { PeriodPair } from "@/lib/data/periods";
+import { DEFAULT_PALETTE, type ChartPalette } from "@/lib/theme";
+
+export default function ContributionWaterfallChart({
+  analysis,
+  periods,
+  palette = DEFAULT_PALETTE,
+}: {
+  analysis: ContributionAnalysis;
+  periods: PeriodPair;
+  palette?: ChartPalette;
+}) {
+  const [selectedVertical, setSelectedVertical] = useState<string | null>(null);
+
+  const verticalSteps = buildSteps(
+    `${periods.base.label} total`,
+    analysis.overall.base_impressions,
+    analysis.verticals.map((v) => ({
+      key: v.vertical,
+      label: v.vertical,
+      delta: v.delta,
+      share: v.share_of_change,
+      selectable: true,
+    })),
+    {
+      label: analysis.attribution === "full" ? "Unmapped & multi-vertical overlap" : "Unmapped & off-chart verticals",
+      delta: analysis.residual,
+      share: analysis.overall.delta === 0 ? null : (analysis.residual / Math.abs(analysis.overall.delta)) * 100,
+    },
+    `${periods.comparison.label} total`
+  );
+
+  const selected = selectedVertical ? analysis.verticals.find((v) => v.vertical === selectedVertical) ?? null : null;
+  const advertisers = selected ? analysis.advertisersByVertical[selected.vertical] : null;
+
+  const advertiserSteps =
+    selected && advertisers
+      ? buildSteps(
+          `${selected.vertical}, ${periods.base.label}`,
+          selected.base_impressions,
+          [...advertisers.top, ...(advertisers.other ? [advertisers.other] : [])].map((a, i) => ({
+            key: `${a.advertiser}-${i}`,
+            label: a.advertiser,
+            delta: a.delta,
+            share: a.share_of_vertical_change,
+            selectable: false,
+          })),
+          null,
+          `${selected.vertical}, ${periods.comparison.label}`
+        )
+      : null;
+
+  return (
+    <div className="w-full">
+      <Waterfall
+        title={`Contribution to the Change in TV Impressions, ${periods.base.label} to ${periods.comparison.label}`}
+        steps={verticalSteps}
+        selectedKey={selectedVertical}
+        onSelect={setSelectedVertical}
+        palette={palette}
+      />
+
+      <p className="mx-auto mt-3 max-w-4xl text-center text-[13px] text-muted">
+        Each bar is a vertical&apos;s change in impressions and its share of the overall change. Advertisers mapped to
+        several verticals count in each one, so the last step reconciles the verticals with the overall total. Select a
+        vertical to see which advertisers drove its change.
+      </p>
+
+      {advertiserSteps && selected ? (
+        <div className="mt-6">
+          <Waterfall
+            title={`Advertiser Contribution within ${selected.vertical}`}
+            steps={advertiserSteps}
+            palette={palette}
+          />
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import React from "react";
+import type { HistogramBin } from "@/lib/data/concentration";
+import type { PeriodPair } from "@/lib/data/periods";
+import { DEFAULT_PALETTE, type ChartPalette } from "@/lib/theme";
+
+// 1K, 10K, ... 1MM, 10MM, ... 1B; bin edges are powers of ten
+function fmtEdge(n: number) {
+  if (n >= 1e12) return `${n / 1e12}T`;
+  if (n >= 1e9) return `${n / 1e9}B`;
+  if (n >= 1e6) return `${n / 1e6}MM`;
+  if (n >= 1e3) return `${n / 1e3}K`;
+  return String(n);
+}
+
+// Advertisers per impressions bin, the base period beside the comparison period.
+export default function ImpressionHistogram({
+  bins,
+  periods,
+  palette = DEFAULT_PALETTE,
+}: {
+  bins: HistogramBin[];
+  periods: PeriodPair;
+  palette?: ChartPalette;
+}) {
+  const vbWidth = 760;
+  const vbHeight = 240;
+  const margin = { top: 28, right: 12, bottom: 40, left: 44 };
+  const innerW = vbWidth - margin.left - margin.right;
+  const innerH = vbHeight - margin.top - margin.bottom;
+  const max = Math.max(...bins.flatMap((b) => [b.base, b.comparison]), 1);
+  const slot = innerW / Math.max(bins.length, 1);
+  const barW = Math.min(28, slot * 0.36);
+  const y = (n: number) => margin.top + innerH - (n / max) * innerH;
+
+  const series = [
+    { key: "base" as const, label: periods.base.label, fill: palette.bar },
+    { key: "comparison" as const, label: periods.comparison.label, fill: palette.selected },
+  ];
+
+  return (
+    <svg
+      viewBox={`0 0 ${vbWidth} ${vbHeight}`}
+      className="h-auto w-full"
+      role="img"
+      aria-label={`Advertisers by impressions, ${periods.base.label} and ${periods.comparison.label}`}
+    >
+      {series.map((s, i) => (
+        <g key={s.key}>
+          <rect x={margin.left + i * 120} y={6} width={10} height={10} fill={s.fill} />
+          <text x={margin.left + i * 120 + 14} y={15} fontSize={12} fill={palette.text}>
+            {s.label}
+          </text>
+        </g>
+      ))}
+
+      <text x={margin.left - 6} y={margin.top + 4} fontSize={11} fill={palette.textMuted} textAnchor="end">
+        {max.toLocaleString("en-US")}
+      </text>
+      <text x={margin.left - 6} y={margin.top + innerH} fontSize={11} fill={palette.textMuted} textAnchor="end">
+        0
+      </text>
+
+      {bins.map((b, i) => {
+        const cx = margin.left + slot * (i + 0.5);
+        return (
+          <g key={b.lo}>
+            {series.map((s, j) => {
+              const n = b[s.key];
+              const x = cx + (j === 0 ? -barW - 1 : 1);
+              return (
+                <g key={s.key}>
+                  <rect x={x} y={y(n)} width={barW} height={margin.top + innerH - y(n)} fill={s.fill}>
+                    <title>{`${s.label}: ${n.toLocaleString("en-US")} advertisers with ${fmtEdge(b.lo)}–${fmtEdge(b.hi)} impressions`}</title>
+                  </rect>
+                  {n > 0 ? (
+                    <text x={x + barW / 2} y={y(n) - 3} fontSize={10} fill={palette.textSecondary} textAnchor="middle">
+                      {n.toLocaleString("en-US")}
+                    </text>
+                  ) : null}
+                </g>
+              );
+            })}
+            <text x={cx} y={margin.top + innerH + 16} fontSize={11} fill={palette.text} textAnchor="middle">
+              {`${fmtEdge(b.lo)}–${fmtEdge(b.hi)}`}
+            </text>
+          </g>
+        );
+      })}
+
+      <line
+        x1={margin.left}
+        y1={margin.top + innerH}
+        x2={vbWidth - margin.right}
+        y2={margin.top + innerH}
+        stroke={palette.axis}
+        strokeWidth={0.7}
+      />
+      <text x={margin.left + innerW / 2} y={vbHeight - 6} fontSize={12} fill={palette.textMuted} textAnchor="middle">
+        Impressions per advertiser
+      </text>
+    </svg>
+  );
+}
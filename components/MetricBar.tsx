@@ -0,0 +1,80 @@
+import React from "react";
+import { DEFAULT_PALETTE, type ChartPalette } from "@/lib/theme";
+
+/**
+ * One half of a metric comparison: a bar drawn from an axis line with its
+ * label pinned to the bar's far end, so the label follows the bar as it
+ * shrinks. `side="left"` grows leftwards from an axis on the right (the base
+ * period), `side="right"` rightwards from an axis on the left.
+ */
+export default function MetricBar({
+  side,
+  widthPx,
+  maxPx,
+  heightPx,
+  palette = DEFAULT_PALETTE,
+  children,
+}: {
+  side: "left" | "right";
+  widthPx: number;
+  maxPx: number;
+  heightPx: number;
+  palette?: ChartPalette;
+  // the label
+  children: React.ReactNode;
+}) {
+  const axisEdge = side === "left" ? "right" : "left";
+
+  return (
+    <div style={{ display: "flex", justifyContent: side === "left" ? "flex-end" : "flex-start", alignItems: "center" }}>
+      <div
+        style={{
+          position: "relative",
+          height: `${heightPx}px`,
+          width: `${maxPx}px`,
+          overflow: "visible",
+        }}
+      >
+        {/* axis line (bar starts here) */}
+        <div
+          style={{
+            position: "absolute",
+            top: -4,
+            bottom: -4,
+            [axisEdge]: 0,
+            width: "1px",
+            background: palette.axisSoft,
+          }}
+        />
+
+        {/* bar */}
+        <div
+          style={{
+            position: "absolute",
+            [axisEdge]: 0,
+            top: 0,
+            height: `${heightPx}px`,
+            width: `${widthPx}px`,
+            background: palette.barLight,
+            border: `1px solid ${palette.barStroke}`,
+            boxSizing: "border-box",
+          }}
+        />
+
+        {/* label just past the bar's far end */}
+        <div
+          style={{
+            position: "absolute",
+            top: "50%",
+            transform: "translateY(-50%)",
+            [axisEdge]: `${widthPx + 12}px`,
+            whiteSpace: "nowrap",
+            textAlign: side === "left" ? "right" : "left",
+          }}
+        >
+          {children}
+        </div>
+      </div>
+    </div>
+  );
+}
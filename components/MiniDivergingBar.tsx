@@ -0,0 +1,55 @@
+import React from "react";
+import type { VerticalDatum } from "@/lib/data/types";
+import { DEFAULT_PALETTE, type ChartPalette } from "@/lib/theme";
+
+// A thumbnail of the dashboard's diverging bar chart with one vertical picked
+// out, to place it among the others.
+export default function MiniDivergingBar({
+  data,
+  highlight,
+  palette = DEFAULT_PALETTE,
+}: {
+  data: VerticalDatum[];
+  highlight: string;
+  palette?: ChartPalette;
+}) {
+  const sorted = data.slice().sort((a, b) => b.pct_change - a.pct_change);
+  const vbWidth = 360;
+  const rowH = 7;
+  const barH = 5;
+  const vbHeight = sorted.length * rowH + 8;
+  const maxAbs = Math.max(...sorted.map((d) => Math.abs(d.pct_change)), 1);
+  const half = vbWidth / 2 - 8;
+  const zeroX = vbWidth / 2;
+  const rank = sorted.findIndex((d) => d.vertical === highlight) + 1;
+
+  return (
+    <svg
+      viewBox={`0 0 ${vbWidth} ${vbHeight}`}
+      className="h-auto w-full max-w-[360px]"
+      role="img"
+      aria-label={`${highlight} ranks ${rank} of ${sorted.length} verticals by % change in impressions`}
+    >
+      {sorted.map((d, i) => {
+        const w = (Math.abs(d.pct_change) / maxAbs) * half;
+        const isHighlight = d.vertical === highlight;
+        return (
+          <rect
+            key={d.vertical}
+            x={d.pct_change >= 0 ? zeroX : zeroX - w}
+            y={4 + i * rowH}
+            width={w}
+            height={barH}
+            fill={d.pct_change >= 0 ? palette.positive : palette.negative}
+            fillOpacity={isHighlight ? 1 : 0.25}
+            stroke={isHighlight ? palette.text : "none"}
+            strokeWidth={isHighlight ? 0.8 : 0}
+          >
+            <title>{`${d.vertical}: ${d.pct_change >= 0 ? "+" : ""}${d.pct_change.toFixed(1)}%`}</title>
+          </rect>
+        );
+      })}
+      <line x1={zeroX} y1={0} x2={zeroX} y2={vbHeight} stroke={palette.axis} strokeWidth={0.7} />
+    </svg>
+  );
+}
@@ -0,0 +1,13 @@
+import React from "react";
+import type { Narrative } from "@/lib/narrative/engine";
+
+// Renders generated narrative text, emphasized runs in bold.
+export default function NarrativeText({ narrative }: { narrative: Narrative }) {
+  return (
+    <>
+      {narrative.map((seg, i) =>
+        seg.strong ? <strong key={i}>{seg.text}</strong> : <React.Fragment key={i}>{seg.text}</React.Fragment>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,54 @@
+"use client";
+
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import type React from "react";
+import type { Period, PeriodPair } from "@/lib/data/periods";
+import { hrefWith } from "@/lib/searchParams";
+
+export default function PeriodPairPicker({ periods, selected }: { periods: Period[]; selected: PeriodPair }) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const selectClass = "rounded border border-line bg-surface px-2 py-1";
+
+  // Keep every other query param (view, selection, ...) across the change.
+  const onSubmit = (evt: React.FormEvent<HTMLFormElement>) => {
+    evt.preventDefault();
+    const form = new FormData(evt.currentTarget);
+    router.push(
+      hrefWith(
+        Object.fromEntries(searchParams),
+        { base: String(form.get("base")), comparison: String(form.get("comparison")) },
+        pathname
+      )
+    );
+  };
+
+  return (
+    <form method="get" onSubmit={onSubmit} className="flex flex-wrap items-center gap-2 text-[13px]">
+      <label className="flex items-center gap-1">
+        Compare
+        <select name="base" defaultValue={selected.base.id} className={selectClass}>
+          {periods.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-1">
+        with
+        <select name="comparison" defaultValue={selected.comparison.id} className={selectClass}>
+          {periods.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <button type="submit" className="rounded border border-line px-2 py-1 hover:bg-highlight">
+        Apply
+      </button>
+    </form>
+  );
+}
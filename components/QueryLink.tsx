@@ -0,0 +1,29 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname, useSearchParams } from "next/navigation";
+import type React from "react";
+import { hrefWith } from "@/lib/searchParams";
+
+// A link to the current URL with some query params changed. Reads the live
+// query string, so client-side state written into the URL is kept.
+export default function QueryLink({
+  updates = {},
+  pathname,
+  className,
+  children,
+}: {
+  updates?: Record<string, string | null>;
+  // another page to carry the query (periods, theme, ...) to
+  pathname?: string;
+  className?: string;
+  children: React.ReactNode;
+}) {
+  const currentPathname = usePathname();
+  const searchParams = useSearchParams();
+  return (
+    <Link href={hrefWith(Object.fromEntries(searchParams), updates, pathname ?? currentPathname)} className={className}>
+      {children}
+    </Link>
+  );
+}
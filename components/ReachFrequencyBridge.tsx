@@ -0,0 +1,51 @@
+"use client";
+
+import React from "react";
+import { buildSteps, Waterfall } from "@/components/Waterfall";
+import { describeDecomposition, type Decomposition } from "@/lib/data/decomposition";
+import type { PeriodPair } from "@/lib/data/periods";
+import { DEFAULT_PALETTE, type ChartPalette } from "@/lib/theme";
+
+// Base impressions -> reach effect -> frequency effect -> (advertisers without
+// household data) -> comparison impressions.
+export default function ReachFrequencyBridge({
+  title,
+  decomposition: d,
+  periods,
+  note,
+  palette = DEFAULT_PALETTE,
+}: {
+  title: string;
+  decomposition: Decomposition;
+  periods: PeriodPair;
+  note?: string;
+  palette?: ChartPalette;
+}) {
+  const shareOf = (effect: number) => (d.delta === 0 ? null : (effect / Math.abs(d.delta)) * 100);
+  const steps = buildSteps(
+    `${periods.base.label} impressions`,
+    d.base_impressions,
+    [
+      { key: "reach", label: "Reach effect", delta: d.reach_effect, share: shareOf(d.reach_effect), selectable: false },
+      {
+        key: "frequency",
+        label: "Frequency effect",
+        delta: d.frequency_effect,
+        share: shareOf(d.frequency_effect),
+        selectable: false,
+      },
+    ],
+    { label: "No household data", delta: d.no_reach_effect, share: shareOf(d.no_reach_effect) },
+    `${periods.comparison.label} impressions`
+  );
+
+  return (
+    <div className="w-full">
+      <Waterfall title={title} steps={steps} palette={palette} />
+      <p className="mx-auto mt-1 max-w-4xl text-center text-[13px] text-muted">
+        {describeDecomposition(d)}
+        {note ? ` ${note}` : null}
+      </p>
+    </div>
+  );
+}
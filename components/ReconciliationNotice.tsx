@@ -0,0 +1,59 @@
+import QueryLink from "@/components/QueryLink";
+import type { ReconciliationRow } from "@/lib/data/aggregate";
+import type { VerticalSource } from "@/lib/data/load";
+
+// mismatches named on the dashboard; /data-quality lists every one
+const NAMED_MISMATCHES = 5;
+
+// Shown above the dashboard chart when the verticals rolled up from the
+// advertiser files do not reproduce the precomputed vertical file.
+export default function ReconciliationNotice({
+  rows,
+  file,
+  tolerancePp,
+  source,
+}: {
+  rows: ReconciliationRow[];
+  file: string;
+  tolerancePp: number;
+  source: VerticalSource;
+}) {
+  const mismatches = rows.filter((r) => r.status === "mismatch");
+  const noData = rows.filter((r) => r.status === "missing-computed").length;
+  const unlisted = rows.filter((r) => r.status === "missing-precomputed").length;
+  if (mismatches.length === 0 && noData === 0 && unlisted === 0) return null;
+
+  const listed = rows.length - unlisted;
+  const plural = (n: number, one: string, many: string) => (n === 1 ? one : many);
+  const fmtPp = (n: number) => `${n >= 0 ? "+" : ""}${n.toFixed(1)} pp`;
+  const sentences = [
+    mismatches.length > 0
+      ? `Rolled up from the advertiser files, ${mismatches.length} of the ${listed} verticals in ${file} differ from it by more than ${tolerancePp} pp.`
+      : null,
+    noData > 0 ? `${noData} ${plural(noData, "vertical", "verticals")} in ${file} ${plural(noData, "has", "have")} no advertiser impressions.` : null,
+    unlisted > 0 ? `${unlisted} ${plural(unlisted, "vertical", "verticals")} in the mapping file ${plural(unlisted, "has", "have")} no counterpart in ${file}.` : null,
+    source === "precomputed"
+      ? `The chart lists the verticals in ${file}, with every figure rolled up from the advertiser files.`
+      : null,
+  ].filter(Boolean);
+
+  return (
+    <p className="mb-3 rounded border border-line bg-highlight px-3 py-2 text-[13px]">
+      {sentences.join(" ")}
+      {mismatches.length > 0 ? (
+        <>
+          {" "}
+          Largest gaps:{" "}
+          {mismatches
+            .slice(0, NAMED_MISMATCHES)
+            .map((r) => `${r.vertical} (${fmtPp(r.diff_pp!)})`)
+            .join("; ")}
+          .
+        </>
+      ) : null}{" "}
+      <QueryLink pathname="/data-quality" className="text-link hover:underline">
+        Data quality report →
+      </QueryLink>
+    </p>
+  );
+}
@@ -0,0 +1,14 @@
+import { describeShared, type AttributionPolicy, type SharedAttribution } from "@/lib/data/attribution";
+
+// Marks an advertiser mapped to several verticals, with how much of it counts here.
+export default function SharedBadge({ shared, policy }: { shared: SharedAttribution; policy: AttributionPolicy }) {
+  const { badge, title } = describeShared(shared, policy);
+  return (
+    <span
+      title={title}
+      className="ml-1.5 whitespace-nowrap rounded border border-line px-1 align-middle text-[11px] font-normal text-muted"
+    >
+      {badge}
+    </span>
+  );
+}
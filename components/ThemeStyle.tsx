@@ -0,0 +1,13 @@
+import { themeCssVars, type Theme } from "@/lib/theme";
+
+// The theme's colours and font as a stylesheet on <body>, so the page
+// background and everything outside <main> follow it too. The layout renders
+// the deployment's theme; a page renders the one resolved from its URL, which
+// comes later in the document and wins, and goes away with the page on
+// client-side navigation.
+export default function ThemeStyle({ theme }: { theme: Theme }) {
+  const vars = Object.entries(themeCssVars(theme))
+    .map(([name, value]) => `${name}: ${value};`)
+    .join(" ");
+  return <style>{`body { ${vars} }`}</style>;
+}
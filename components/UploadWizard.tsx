@@ -0,0 +1,532 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import React, { useState } from "react";
+import type { Manifest } from "@/lib/data/manifest";
+import { defaultPeriodId, type Period, type PeriodKind } from "@/lib/data/periods";
+import type { UploadPreview, UploadRole, UploadValidation } from "@/lib/data/upload";
+import type { DataVersion } from "@/lib/data/versions";
+
+type Entry = {
+  key: number;
+  name: string;
+  csv: string;
+  role: UploadRole;
+  preview: UploadPreview | null;
+  // schema field -> chosen header (null: not mapped)
+  columns: Record<string, string | null>;
+};
+
+type Step = "files" | "columns" | "review" | "published";
+
+const PERIOD_KINDS: PeriodKind[] = ["month", "quarter", "half", "year"];
+const MAX_INDEX: Record<PeriodKind, number> = { month: 12, quarter: 4, half: 2, year: 1 };
+
+const buttonClass = "rounded border border-line px-2 py-1 hover:bg-highlight disabled:text-muted";
+const inputClass = "rounded border border-line bg-surface px-2 py-1";
+
+const MATCH_NOTES: Record<string, string> = {
+  exact: "exact match",
+  substring: "partial match, check it",
+  fallback: "guessed, check it",
+};
+
+async function postJson<T>(url: string, body: unknown): Promise<T> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const json = await res.json();
+  // 422 carries a validation result to show
+  if (!res.ok && res.status !== 422) throw new Error(json.error ?? `Request failed (${res.status})`);
+  return json as T;
+}
+
+function basename(file: string) {
+  return file.split("/").pop() ?? file;
+}
+
+// The period after `p`: the next half after 2H 2025 is 1H 2026.
+function nextPeriod(p: Period): { kind: PeriodKind; year: number; index: number } {
+  const max = MAX_INDEX[p.kind];
+  return p.index < max ? { kind: p.kind, year: p.year, index: p.index + 1 } : { kind: p.kind, year: p.year + 1, index: 1 };
+}
+
+// A first guess from the file name; the analyst confirms it.
+function guessRole(name: string, periods: Period[], mapping: string, defaultPair: Manifest["defaultPair"]): UploadRole {
+  const lower = name.toLowerCase();
+  if (lower === basename(mapping).toLowerCase() || lower.includes("adv_vert")) return { kind: "mapping" };
+  const existing = periods.find((p) => basename(p.file).toLowerCase() === lower);
+  if (existing) return { kind: "period", periodId: existing.id };
+  if (lower.includes("pct") || lower.includes("change")) {
+    return { kind: "verticalChange", base: defaultPair.base, comparison: defaultPair.comparison };
+  }
+  return { kind: "newPeriod", period: nextPeriod(periods[periods.length - 1]) };
+}
+
+function roleValue(role: UploadRole) {
+  return role.kind === "period" ? `period:${role.periodId}` : role.kind;
+}
+
+/**
+ * Upload flow for new data files: pick the files and what each one is,
+ * confirm the column each field is read from, review validation, then
+ * publish. Also lists published versions for rollback.
+ */
+export default function UploadWizard({
+  periods,
+  mapping,
+  defaultPair,
+  versions,
+  currentVersion,
+}: {
+  periods: Period[];
+  mapping: string;
+  defaultPair: Manifest["defaultPair"];
+  versions: DataVersion[];
+  currentVersion: string | null;
+}) {
+  const router = useRouter();
+  const [step, setStep] = useState<Step>("files");
+  const [entries, setEntries] = useState<Entry[]>([]);
+  const [validation, setValidation] = useState<UploadValidation | null>(null);
+  const [pair, setPair] = useState({ base: defaultPair.base, comparison: defaultPair.comparison });
+  const [note, setNote] = useState("");
+  const [published, setPublished] = useState<DataVersion | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // periods the files could refer to, including ones this upload adds
+  const knownPeriods = [
+    ...periods.map((p) => ({ id: p.id, label: p.label })),
+    ...entries.flatMap((e) =>
+      e.role.kind === "newPeriod"
+        ? [{ id: defaultPeriodId(e.role.period.kind, e.role.period.year, e.role.period.index), label: "(new)" }]
+        : []
+    ),
+  ];
+
+  const run = async (task: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await task();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const update = (key: number, patch: Partial<Entry>) =>
+    setEntries((list) => list.map((e) => (e.key === key ? { ...e, ...patch } : e)));
+
+  const onFiles = async (files: FileList | null) => {
+    if (!files) return;
+    const added = await Promise.all(
+      Array.from(files).map(async (f, i) => ({
+        key: Date.now() + i,
+        name: f.name,
+        csv: await f.text(),
+        role: guessRole(f.name, periods, mapping, defaultPair),
+        preview: null,
+        columns: {},
+      }))
+    );
+    setEntries((list) => [...list, ...added]);
+  };
+
+  const onRoleSelect = (e: Entry, value: string) => {
+    let role: UploadRole;
+    if (value === "mapping") role = { kind: "mapping" };
+    else if (value === "newPeriod") role = { kind: "newPeriod", period: nextPeriod(periods[periods.length - 1]) };
+    else if (value === "verticalChange") role = { kind: "verticalChange", ...pair };
+    else role = { kind: "period", periodId: value.slice("period:".length) };
+    update(e.key, { role, preview: null, columns: {} });
+  };
+
+  const requestFiles = () => entries.map((e) => ({ name: e.name, role: e.role, csv: e.csv, columns: e.columns }));
+
+  const previewAll = () =>
+    run(async () => {
+      const previews = await Promise.all(
+        entries.map((e) => postJson<UploadPreview>("/api/upload/preview", { name: e.name, role: e.role, csv: e.csv }))
+      );
+      setEntries((list) =>
+        list.map((e, i) => ({
+          ...e,
+          preview: previews[i],
+          columns: Object.fromEntries(previews[i].fields.map((f) => [f.field, f.suggested?.column ?? null])),
+        }))
+      );
+      setStep("columns");
+    });
+
+  const validate = () =>
+    run(async () => {
+      setValidation(await postJson<UploadValidation>("/api/upload/validate", { files: requestFiles(), defaultPair: pair }));
+      setStep("review");
+    });
+
+  const publish = () =>
+    run(async () => {
+      const res = await postJson<{ version?: DataVersion; validation: UploadValidation }>("/api/upload/publish", {
+        files: requestFiles(),
+        defaultPair: pair,
+        note,
+      });
+      setValidation(res.validation);
+      if (res.version) {
+        setPublished(res.version);
+        setStep("published");
+        router.refresh();
+      }
+    });
+
+  const rollBack = (v: DataVersion) =>
+    run(async () => {
+      if (!window.confirm(`Make version ${v.id} (${v.note}) the live data?`)) return;
+      await postJson(`/api/versions/${encodeURIComponent(v.id)}/rollback`, {});
+      router.refresh();
+    });
+
+  return (
+    <div className="text-[14px] leading-5">
+      {error ? <p className="mb-3 text-negative">{error}</p> : null}
+
+      {step === "files" ? (
+        <section className="mb-8">
+          <h2 className="mb-2 text-lg font-semibold">1. Files</h2>
+          <p className="mb-3 text-muted">
+            Add the mapping file, period files or a vertical % change file, and say what each one is. A file for a
+            period that is already loaded replaces it.
+          </p>
+          <input type="file" accept=".csv,text/csv" multiple onChange={(e) => onFiles(e.target.files)} className="mb-3" />
+
+          {entries.map((e) => (
+            <div key={e.key} className="mb-2 flex flex-wrap items-center gap-2 border-b border-line pb-2">
+              <span className="min-w-[180px] font-mono text-[13px]">{e.name}</span>
+              <select value={roleValue(e.role)} onChange={(evt) => onRoleSelect(e, evt.target.value)} className={inputClass}>
+                <option value="mapping">Advertiser → vertical mapping</option>
+                {periods.map((p) => (
+                  <option key={p.id} value={`period:${p.id}`}>
+                    Period {p.label} (replace)
+                  </option>
+                ))}
+                <option value="newPeriod">New period</option>
+                <option value="verticalChange">Vertical % change</option>
+              </select>
+
+              {e.role.kind === "newPeriod" ? (
+                <NewPeriodFields role={e.role} onChange={(role) => update(e.key, { role, preview: null })} />
+              ) : null}
+
+              {e.role.kind === "verticalChange" ? (
+                <>
+                  {(["base", "comparison"] as const).map((side) => (
+                    <select
+                      key={side}
+                      aria-label={side === "base" ? "Base period" : "Comparison period"}
+                      value={e.role.kind === "verticalChange" ? e.role[side] : ""}
+                      onChange={(evt) =>
+                        e.role.kind === "verticalChange" &&
+                        update(e.key, { role: { ...e.role, [side]: evt.target.value }, preview: null })
+                      }
+                      className={inputClass}
+                    >
+                      {knownPeriods.map((p) => (
+                        <option key={p.id} value={p.id}>
+                          {p.id} {p.label}
+                        </option>
+                      ))}
+                    </select>
+                  ))}
+                </>
+              ) : null}
+
+              <button
+                type="button"
+                onClick={() => setEntries((list) => list.filter((x) => x.key !== e.key))}
+                className={buttonClass}
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+
+          <button type="button" disabled={busy || entries.length === 0} onClick={previewAll} className={buttonClass}>
+            {busy ? "…" : "Next: columns"}
+          </button>
+        </section>
+      ) : null}
+
+      {step === "columns" ? (
+        <section className="mb-8">
+          <h2 className="mb-2 text-lg font-semibold">2. Columns</h2>
+          <p className="mb-3 text-muted">
+            Each field is matched to a column the way the loader would. Confirm the suggestions or pick another column.
+          </p>
+          {entries.map((e) =>
+            e.preview ? (
+              <div key={e.key} className="mb-6">
+                <h3 className="mb-1 font-semibold">
+                  {e.name} <span className="font-normal text-muted">→ {e.preview.target}, {e.preview.rows.toLocaleString("en-US")} rows</span>
+                </h3>
+                <table className="mb-2 border-collapse text-[13px]">
+                  <tbody>
+                    {e.preview.fields.map((f) => (
+                      <tr key={f.field} className="border-b border-line">
+                        <th scope="row" className="py-1 pr-4 text-left font-normal">
+                          {f.field}
+                          {f.required ? " *" : ""}
+                        </th>
+                        <td className="py-1 pr-4">
+                          <select
+                            value={e.columns[f.field] ?? ""}
+                            onChange={(evt) =>
+                              update(e.key, { columns: { ...e.columns, [f.field]: evt.target.value || null } })
+                            }
+                            className={inputClass}
+                          >
+                            <option value="">— not mapped —</option>
+                            {e.preview!.headers.map((h) => (
+                              <option key={h} value={h}>
+                                {h}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="py-1 text-muted">
+                          {e.columns[f.field] === (f.suggested?.column ?? null)
+                            ? f.suggested
+                              ? MATCH_NOTES[f.suggested.match]
+                              : f.required
+                                ? "no match, required"
+                                : "no match"
+                            : "chosen"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <div className="overflow-x-auto">
+                  <table className="border-collapse text-[12px]">
+                    <thead>
+                      <tr className="border-b border-line text-left">
+                        {e.preview.headers.map((h) => (
+                          <th key={h} className="py-0.5 pr-3 font-semibold">
+                            {h}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {e.preview.sample.map((r, i) => (
+                        <tr key={i} className="border-b border-line">
+                          {e.preview!.headers.map((h) => (
+                            <td key={h} className="py-0.5 pr-3">
+                              {r[h]}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            ) : null
+          )}
+          <div className="flex gap-2">
+            <button type="button" onClick={() => setStep("files")} className={buttonClass}>
+              Back
+            </button>
+            <button type="button" disabled={busy} onClick={validate} className={buttonClass}>
+              {busy ? "…" : "Next: validate"}
+            </button>
+          </div>
+        </section>
+      ) : null}
+
+      {step === "review" && validation ? (
+        <section className="mb-8">
+          <h2 className="mb-2 text-lg font-semibold">3. Validate and publish</h2>
+          {validation.files.map((f) => {
+            const summary = f.report.files[0];
+            return (
+              <div key={f.target} className="mb-4">
+                <h3 className="font-semibold">
+                  {f.name} <span className="font-normal text-muted">→ {f.target}</span>
+                </h3>
+                {summary ? (
+                  <p>
+                    {summary.rowsAccepted.toLocaleString("en-US")} of {summary.rowsRead.toLocaleString("en-US")} rows
+                    accepted.
+                  </p>
+                ) : null}
+                {f.report.missingColumns.map((c) => (
+                  <p key={c.field} className={c.required ? "text-negative" : "text-muted"}>
+                    No column for {c.field}
+                    {c.required ? " (required)" : ""}.
+                  </p>
+                ))}
+                {f.report.rejectedRows.length > 0 ? (
+                  <p className="text-negative">
+                    {f.report.rejectedRows.length.toLocaleString("en-US")} rows rejected, e.g. line{" "}
+                    {f.report.rejectedRows[0].line}: {f.report.rejectedRows[0].reason}.
+                  </p>
+                ) : null}
+                {f.report.coercions.map((c) => (
+                  <p key={`${c.column}-${c.kind}`} className="text-muted">
+                    {c.column}: {c.count.toLocaleString("en-US")} values {c.kind.replace(/-/g, " ")}
+                  </p>
+                ))}
+              </div>
+            );
+          })}
+
+          <p className={`mb-4 ${validation.dataset.ok ? "" : "text-negative"}`}>
+            {validation.dataset.ok
+              ? "The dashboard loads with these files."
+              : `The dashboard would not load: ${validation.dataset.error}`}
+          </p>
+
+          <div className="mb-4 flex flex-wrap items-center gap-2">
+            Dashboard opens on
+            {(["base", "comparison"] as const).map((side) => (
+              <select
+                key={side}
+                aria-label={side === "base" ? "Default base period" : "Default comparison period"}
+                value={pair[side]}
+                onChange={(evt) => setPair({ ...pair, [side]: evt.target.value })}
+                className={inputClass}
+              >
+                {validation.manifest.periods.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.label}
+                  </option>
+                ))}
+              </select>
+            ))}
+          </div>
+          <label className="mb-4 flex items-center gap-2">
+            Note
+            <input
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="What changed"
+              className={`${inputClass} w-80`}
+            />
+          </label>
+
+          <div className="flex gap-2">
+            <button type="button" onClick={() => setStep("columns")} className={buttonClass}>
+              Back
+            </button>
+            <button type="button" disabled={busy} onClick={validate} className={buttonClass}>
+              Validate again
+            </button>
+            <button type="button" disabled={busy || !validation.ok} onClick={publish} className={buttonClass}>
+              {busy ? "…" : "Publish"}
+            </button>
+          </div>
+        </section>
+      ) : null}
+
+      {step === "published" && published ? (
+        <section className="mb-8">
+          <p className="mb-2">
+            Published as version <span className="font-mono">{published.id}</span>.{" "}
+            <Link href="/" className="text-link hover:underline">
+              Open the dashboard
+            </Link>
+          </p>
+          <button
+            type="button"
+            onClick={() => {
+              setEntries([]);
+              setValidation(null);
+              setStep("files");
+            }}
+            className={buttonClass}
+          >
+            Upload more
+          </button>
+        </section>
+      ) : null}
+
+      <section>
+        <h2 className="mb-2 text-lg font-semibold">Versions</h2>
+        {versions.length === 0 ? (
+          <p className="text-muted">Nothing has been published yet.</p>
+        ) : (
+          <table className="border-collapse text-[13px]">
+            <tbody>
+              {versions.map((v) => (
+                <tr key={v.id} className="border-b border-line">
+                  <td className="py-1 pr-4 font-mono">{v.id}</td>
+                  <td className="py-1 pr-4">{v.note}</td>
+                  <td className="py-1 pr-4 text-muted">{v.files.length} files</td>
+                  <td className="py-1">
+                    {v.id === currentVersion ? (
+                      <span className="font-semibold">live</span>
+                    ) : (
+                      <button type="button" disabled={busy} onClick={() => rollBack(v)} className={buttonClass}>
+                        Roll back to this
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+}
+
+function NewPeriodFields({
+  role,
+  onChange,
+}: {
+  role: Extract<UploadRole, { kind: "newPeriod" }>;
+  onChange: (role: UploadRole) => void;
+}) {
+  const set = (patch: Partial<typeof role.period>) => onChange({ ...role, period: { ...role.period, ...patch } });
+  const { kind, year, index } = role.period;
+  return (
+    <>
+      <select
+        aria-label="Period kind"
+        value={kind}
+        onChange={(e) => set({ kind: e.target.value as PeriodKind, index: 1 })}
+        className={inputClass}
+      >
+        {PERIOD_KINDS.map((k) => (
+          <option key={k} value={k}>
+            {k}
+          </option>
+        ))}
+      </select>
+      {kind !== "year" ? (
+        <select aria-label="Period index" value={index} onChange={(e) => set({ index: Number(e.target.value) })} className={inputClass}>
+          {Array.from({ length: MAX_INDEX[kind] }, (_, i) => (
+            <option key={i + 1} value={i + 1}>
+              {i + 1}
+            </option>
+          ))}
+        </select>
+      ) : null}
+      <input
+        aria-label="Year"
+        type="number"
+        value={year}
+        onChange={(e) => set({ year: Number(e.target.value) })}
+        className={`${inputClass} w-24`}
+      />
+      <span className="text-muted">→ {defaultPeriodId(kind, year, index)}</span>
+    </>
+  );
+}
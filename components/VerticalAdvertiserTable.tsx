@@ -0,0 +1,208 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import QueryLink from "@/components/QueryLink";
+import SharedBadge from "@/components/SharedBadge";
+import type { AdvertiserChange } from "@/lib/data/advertisers";
+import type { AttributionPolicy, SharedAttribution } from "@/lib/data/attribution";
+import { COHORT_FILTERS, COHORT_LABELS, cohortOf, inCohort, type CohortFilter } from "@/lib/data/cohorts";
+import type { PeriodPair } from "@/lib/data/periods";
+import { fmtDelta, fmtImpressions } from "@/lib/narrative/engine";
+import { advertiserPath } from "@/lib/searchParams";
+import { DEFAULT_PALETTE, type ChartPalette } from "@/lib/theme";
+
+// Rows shown before "Show all"; the largest verticals have thousands of advertisers.
+const PAGE_ROWS = 100;
+
+// metrics as attributed to the vertical; `shared` as on the chart's bars
+export type VerticalAdvertiserRow = AdvertiserChange & { shared?: SharedAttribution };
+
+type Column = {
+  key: string;
+  label: string;
+  value: (r: AdvertiserChange) => number | string | null;
+  format: (v: number) => string;
+  // colour the value by its sign
+  signed?: boolean;
+};
+
+function fmtPct(n: number) {
+  return `${n >= 0 ? "+" : ""}${n.toFixed(1)}%`;
+}
+
+function columnsFor(periods: PeriodPair): Column[] {
+  const fq = (n: number) => n.toFixed(1);
+  return [
+    { key: "advertiser", label: "Advertiser", value: (r) => r.advertiser, format: String },
+    { key: "cohort", label: "Cohort", value: (r) => COHORT_LABELS[cohortOf(r)], format: String },
+    { key: "imp_base", label: `Impressions, ${periods.base.label}`, value: (r) => r.base?.impressions ?? null, format: fmtImpressions },
+    {
+      key: "imp_comparison",
+      label: `Impressions, ${periods.comparison.label}`,
+      value: (r) => r.comparison?.impressions ?? null,
+      format: fmtImpressions,
+    },
+    { key: "imp_delta", label: "Change", value: (r) => r.impressions_delta, format: fmtDelta, signed: true },
+    { key: "imp_pct", label: "% change", value: (r) => r.impressions_pct_change, format: fmtPct, signed: true },
+    { key: "reach_base", label: `Households, ${periods.base.label}`, value: (r) => r.base?.reach ?? null, format: fmtImpressions },
+    {
+      key: "reach_comparison",
+      label: `Households, ${periods.comparison.label}`,
+      value: (r) => r.comparison?.reach ?? null,
+      format: fmtImpressions,
+    },
+    { key: "reach_pct", label: "% change", value: (r) => r.reach_pct_change, format: fmtPct, signed: true },
+    { key: "freq_base", label: `Frequency, ${periods.base.label}`, value: (r) => r.base?.frequency ?? null, format: fq },
+    {
+      key: "freq_comparison",
+      label: `Frequency, ${periods.comparison.label}`,
+      value: (r) => r.comparison?.frequency ?? null,
+      format: fq,
+    },
+    { key: "freq_pct", label: "% change", value: (r) => r.frequency_pct_change, format: fmtPct, signed: true },
+  ];
+}
+
+// Nulls last in either order.
+function compareValues(a: number | string | null, b: number | string | null, dir: 1 | -1): number {
+  if (a === null && b === null) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  if (typeof a === "string" || typeof b === "string") return String(a).localeCompare(String(b)) * dir;
+  return (a - b) * dir;
+}
+
+/**
+ * Every advertiser mapped to a vertical with both periods' metrics, sortable
+ * by any column and filterable by name and cohort. Advertisers shared with
+ * other verticals carry a badge.
+ */
+export default function VerticalAdvertiserTable({
+  rows,
+  periods,
+  attribution,
+  palette = DEFAULT_PALETTE,
+}: {
+  rows: VerticalAdvertiserRow[];
+  periods: PeriodPair;
+  attribution: AttributionPolicy;
+  palette?: ChartPalette;
+}) {
+  const columns = useMemo(() => columnsFor(periods), [periods]);
+  const [sortKey, setSortKey] = useState("imp_comparison");
+  const [order, setOrder] = useState<"asc" | "desc">("desc");
+  const [query, setQuery] = useState("");
+  const [cohort, setCohort] = useState<CohortFilter>("all");
+  const [showAll, setShowAll] = useState(false);
+
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    const column = columns.find((c) => c.key === sortKey) ?? columns[0];
+    const dir = order === "asc" ? 1 : -1;
+    return rows
+      .filter((r) => inCohort(r, cohort) && (!q || r.advertiser.toLowerCase().includes(q)))
+      .sort((a, b) => compareValues(column.value(a), column.value(b), dir));
+  }, [rows, columns, sortKey, order, query, cohort]);
+
+  const shown = showAll ? filtered : filtered.slice(0, PAGE_ROWS);
+
+  const onSort = (key: string) => {
+    if (key === sortKey) setOrder(order === "asc" ? "desc" : "asc");
+    else {
+      setSortKey(key);
+      setOrder(key === "advertiser" || key === "cohort" ? "asc" : "desc");
+    }
+  };
+
+  return (
+    <div className="text-[13px]">
+      <div className="mb-2 flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-1">
+          Filter
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Advertiser name"
+            className="rounded border border-line bg-surface px-2 py-1"
+          />
+        </label>
+        <label className="flex items-center gap-1">
+          Cohort
+          <select
+            value={cohort}
+            onChange={(e) => setCohort(e.target.value as CohortFilter)}
+            className="rounded border border-line bg-surface px-2 py-1"
+          >
+            {COHORT_FILTERS.map((c) => (
+              <option key={c} value={c}>
+                {COHORT_LABELS[c]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <span className="text-muted" aria-live="polite">
+          {filtered.length.toLocaleString("en-US")} of {rows.length.toLocaleString("en-US")} advertisers
+        </span>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full border-collapse">
+          <thead>
+            <tr className="border-b border-line text-left">
+              {columns.map((c, i) => (
+                <th
+                  key={c.key}
+                  scope="col"
+                  aria-sort={c.key === sortKey ? (order === "asc" ? "ascending" : "descending") : undefined}
+                  className={`py-1 pr-4 align-bottom font-semibold ${i > 1 ? "text-right" : ""}`}
+                >
+                  <button type="button" onClick={() => onSort(c.key)} className="font-semibold hover:underline">
+                    {c.label}
+                    {c.key === sortKey ? (order === "asc" ? " ▲" : " ▼") : null}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {shown.map((r) => (
+              <tr key={r.advertiser} className="border-b border-line align-top">
+                {columns.map((c, i) => {
+                  const v = c.value(r);
+                  if (c.key === "advertiser") {
+                    return (
+                      <th key={c.key} scope="row" className="py-1 pr-4 text-left font-normal">
+                        <QueryLink pathname={advertiserPath(r.advertiser)} className="text-link hover:underline">
+                          {r.advertiser}
+                        </QueryLink>
+                        {r.shared ? <SharedBadge shared={r.shared} policy={attribution} /> : null}
+                      </th>
+                    );
+                  }
+                  const color =
+                    c.signed && typeof v === "number" && v !== 0 ? (v > 0 ? palette.positive : palette.negative) : undefined;
+                  return (
+                    <td key={c.key} className={`py-1 pr-4 ${i > 1 ? "text-right" : ""}`} style={{ color }}>
+                      {v === null ? "—" : typeof v === "number" ? c.format(v) : v}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {filtered.length > shown.length ? (
+        <button
+          type="button"
+          onClick={() => setShowAll(true)}
+          className="mt-2 rounded border border-line px-2 py-0.5 hover:bg-highlight"
+        >
+          Show all {filtered.length.toLocaleString("en-US")}
+        </button>
+      ) : null}
+    </div>
+  );
+}
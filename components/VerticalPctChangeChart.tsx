@@ -1,26 +1,54 @@
 "use client";
 
-import React, { useEffect, useMemo, useRef, useState } from "react";
-
-export type VerticalDatum = {
-  vertical: string;
-  pct_change: number;
-};
-
-export type AdvertiserDatum = {
-  advertiser: string;
-  impressions: number;
-};
-
-export type Advertiser24Datum = {
-  advertiser: string;
-  impressions_2h_2024?: number | null;
-  impressions_2h_2025?: number | null;
-  households_2h_2024?: number | null;
-  households_2h_2025?: number | null;
-  freq_2h_2024?: number | null;
-  freq_2h_2025?: number | null;
-};
+import React, { useCallback, useEffect, useId, useMemo, useRef, useState } from "react";
+import AdvertiserSearch from "@/components/AdvertiserSearch";
+import ChartExportMenu from "@/components/ChartExportMenu";
+import MetricBar from "@/components/MetricBar";
+import NarrativeText from "@/components/NarrativeText";
+import QueryLink from "@/components/QueryLink";
+import ReachFrequencyBridge from "@/components/ReachFrequencyBridge";
+import SharedBadge from "@/components/SharedBadge";
+import {
+  ADVERTISER_LEVELS,
+  BAR_MODES,
+  DEFAULT_TOP_N,
+  replaceChartStateInUrl,
+  TOP_N_OPTIONS,
+  type AdvertiserLevel,
+  type BarMode,
+  type ChartUrlState,
+  type TopN,
+} from "@/lib/chartState";
+import {
+  ADVERTISER_SORT_LABELS,
+  ADVERTISER_SORTS,
+  changeMetricFor,
+  metricPctChange,
+  pageAdvertisers,
+  rankAdvertisers,
+  toVerticalAdvertisers,
+  type AdvertiserListing,
+  type AdvertiserSort,
+  type VerticalAdvertiserDetail,
+} from "@/lib/data/advertisers";
+import { describeShared, type AttributionPolicy } from "@/lib/data/attribution";
+import { basePhrase, chartTitle, periodRangePhrase, type PeriodPair } from "@/lib/data/periods";
+import { COHORT_LABELS, COHORTS, filterCohort, type CohortFilter, type CohortTotals } from "@/lib/data/cohorts";
+import { decomposeAdvertiser, type Decomposition } from "@/lib/data/decomposition";
+import { atParentLevel, PARENT_FREQUENCY_NOTE, PARENT_REACH_NOTE, parentsInVertical } from "@/lib/data/parents";
+import type {
+  AdvertiserDatum,
+  AdvertiserDetailDatum,
+  VerticalAdvertisers,
+  VerticalDatum,
+} from "@/lib/data/types";
+import { truncateText, wrapText } from "@/lib/export/scene";
+import { buildViewSheets } from "@/lib/export/viewData";
+import { advertiserNarrative, narrativeText, verticalNarrative } from "@/lib/narrative/engine";
+import { advertiserPath, verticalPath } from "@/lib/searchParams";
+import { DEFAULT_PALETTE, type ChartPalette } from "@/lib/theme";
+
+export type { AdvertiserDatum, AdvertiserDetailDatum, VerticalDatum };
 
 type TooltipState = {
   visible: boolean;
@@ -31,15 +59,23 @@ type TooltipState = {
 
 type LabelBBox = { x: number; y: number; width: number; height: number } | null;
 
+// container width (px) below which the compact, phone layout is used
+const COMPACT_BREAKPOINT_PX = 768;
+
+const BAR_MODE_LABELS: Record<BarMode, string> = {
+  impressions: "Impressions",
+  change: "% change",
+};
+
+const LEVEL_LABELS: Record<AdvertiserLevel, string> = {
+  advertiser: "Brands",
+  parent: "Parent companies",
+};
+
 function clamp(n: number, a: number, b: number) {
   return Math.max(a, Math.min(b, n));
 }
 
-function fmtInt(n: number | null | undefined) {
-  if (n === null || n === undefined || !Number.isFinite(n)) return "—";
-  return new Intl.NumberFormat("en-US").format(Math.round(n));
-}
-
 // For metric table values (MM with commas), e.g., 4,375MM
 function fmtMM(n: number | null | undefined) {
   if (n === null || n === undefined || !Number.isFinite(n)) return "—";
@@ -60,6 +96,27 @@ function pctChange(a: number | null | undefined, b: number | null | undefined) {
   return ((b - a) / a) * 100;
 }
 
+const NO_DETAILS: Record<string, AdvertiserDetailDatum> = {};
+const NO_PARENTS: Record<string, string> = {};
+
+// Small advertisers can swing by thousands of percent, so the % change scale
+// stops here and larger bars run to the edge.
+const CHANGE_CAP = 200;
+
+// A vertical's advertisers (or parent companies) in the cohort, ranked by `sort`.
+function rankLevel(level: VerticalAdvertisers, cohort: CohortFilter, sort: AdvertiserSort) {
+  return rankAdvertisers(filterCohort(level.advertisers, level.details, cohort), level.details, sort);
+}
+
+// One vertical's advertisers from its API route, in the chart's form.
+async function fetchVerticalAdvertisers(vertical: string, baseId: string, comparisonId: string): Promise<VerticalAdvertisers> {
+  const qs = new URLSearchParams({ base: baseId, comparison: comparisonId });
+  const res = await fetch(`/api/verticals/${encodeURIComponent(vertical)}/advertisers?${qs}`);
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  const body: { advertisers: VerticalAdvertiserDetail[] } = await res.json();
+  return toVerticalAdvertisers(vertical, body.advertisers);
+}
+
 function toWidthPx(v: number | null | undefined, max: number, maxPx: number) {
   if (v === null || v === undefined || !Number.isFinite(v)) return 0;
   if (!Number.isFinite(max) || max <= 0) return 0;
@@ -68,23 +125,88 @@ function toWidthPx(v: number | null | undefined, max: number, maxPx: number) {
 
 export default function VerticalPctChangeChart({
   data,
-  advertiserByVertical,
-  advertiserDetailsByName,
+  advertisers: initialAdvertisers = null,
+  parentByAdvertiser = NO_PARENTS,
+  periods,
+  attribution = "full",
+  initialState,
+  cohort = "all",
+  cohortTotalsByVertical,
+  decompositionByVertical,
+  sourceFiles = [],
+  palette = DEFAULT_PALETTE,
 }: {
   data: VerticalDatum[];
-  advertiserByVertical: Record<string, AdvertiserDatum[]>;
-  advertiserDetailsByName?: Record<string, Advertiser24Datum>;
+  // the URL-selected vertical's advertisers; the chart fetches the others
+  // from the vertical's API route when they are selected
+  advertisers?: VerticalAdvertisers | null;
+  // parent company per advertiser; without any there is no parent view
+  parentByAdvertiser?: Record<string, string>;
+  periods: PeriodPair;
+  // how advertisers mapped to several verticals are counted in each
+  attribution?: AttributionPolicy;
+  // selection restored from the URL
+  initialState?: ChartUrlState;
+  // limits the advertiser chart to one cohort (new, lapsed, ...)
+  cohort?: CohortFilter;
+  cohortTotalsByVertical?: Record<string, CohortTotals>;
+  decompositionByVertical?: Record<string, Decomposition | null>;
+  // data files behind the chart, recorded in data downloads
+  sourceFiles?: string[];
+  // colours from the deployment's theme (lib/theme.ts)
+  palette?: ChartPalette;
 }) {
-  const vbWidth = 1400;
+  // =========================
+  // Container size + breakpoint
+  // =========================
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const [containerPx, setContainerPx] = useState<{ w: number; h: number }>({
+    w: 0,
+    h: 0,
+  });
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+
+    const ro = new ResizeObserver(() => {
+      const rect = el.getBoundingClientRect();
+      setContainerPx({ w: rect.width, h: rect.height });
+    });
+
+    ro.observe(el);
+    const rect = el.getBoundingClientRect();
+    setContainerPx({ w: rect.width, h: rect.height });
+
+    return () => ro.disconnect();
+  }, []);
+
+  // Below the breakpoint the chart is drawn at the container's own width, one
+  // viewBox unit per pixel: labels sit on their own line above each bar, the
+  // connector is left out and advertiser details open in a drawer.
+  const compact = containerPx.w > 0 && containerPx.w < COMPACT_BREAKPOINT_PX;
+  const vbWidth = compact ? Math.max(320, Math.round(containerPx.w)) : 1400;
 
   // =========================
   // Top layout + chart geometry
   // =========================
-  const titleH = 34;
-  const verticalChartHeight = 740;
+  const n = data.length;
+
+  const titleLines = compact ? wrapText(chartTitle(periods), 15, vbWidth - 24, true) : [chartTitle(periods)];
+  const titleFontPx = compact ? 15 : 18;
+  const titleH = 34 + (titleLines.length - 1) * 19;
+
+  // compact rows: a label line, then the bar
+  const compactLabelH = 17;
+  const compactRowH = 40;
+
+  const verticalChartHeight = compact ? n * compactRowH + 28 : 740;
   const verticalTop = titleH;
 
-  const margin = { top: 30, right: 360, bottom: 22, left: 360 };
+  const margin = compact
+    ? { top: 16, right: 12, bottom: 12, left: 12 }
+    : { top: 30, right: 360, bottom: 22, left: 360 };
   const innerW = vbWidth - margin.left - margin.right;
   const innerH = verticalChartHeight - margin.top - margin.bottom;
 
@@ -105,11 +227,11 @@ export default function VerticalPctChangeChart({
     return margin.left + t * innerW;
   };
 
-  const n = data.length;
-  const step =
-    innerH / (n + paddingOuter * 2 - paddingInner + paddingInner * n);
-  const band = step * (1 - paddingInner);
-  const startY = verticalTop + margin.top + step * paddingOuter;
+  const step = compact
+    ? compactRowH
+    : innerH / (n + paddingOuter * 2 - paddingInner + paddingInner * n);
+  const band = compact ? compactRowH - compactLabelH - 8 : step * (1 - paddingInner);
+  const startY = verticalTop + margin.top + (compact ? compactLabelH : step * paddingOuter);
 
   const yTop = (i: number) => startY + i * step;
   const yCenter = (i: number) => yTop(i) + band / 2;
@@ -123,13 +245,9 @@ export default function VerticalPctChangeChart({
     return 0.28 + 0.72 * mag;
   };
 
-  const colorFor = (v: number) => (v >= 0 ? "#16a34a" : "#dc2626");
+  const colorFor = (v: number) => (v >= 0 ? palette.positive : palette.negative);
 
-  const tooltipTextFor = (v: number) => {
-    const abs = Math.abs(v);
-    const dir = v >= 0 ? "increase" : "decrease";
-    return `${abs.toFixed(1)}% ${dir} in impressions`;
-  };
+  const tooltipTextFor = (d: VerticalDatum) => narrativeText(verticalNarrative(d, data));
 
   const zeroLineY1 = yTop(0);
   const zeroLineY2 = yTop(n - 1) + band;
@@ -138,43 +256,53 @@ export default function VerticalPctChangeChart({
   // Tighten gap BELOW actual chart content (not reserved height)
   // =========================
   const verticalContentBottom = startY + (n - 1) * step + band;
-  const gapBelowVerticalContent = 75; // smaller = tighter
+  const gapBelowVerticalContent = compact ? 24 : 75; // smaller = tighter
   const detailTextTop = verticalContentBottom + gapBelowVerticalContent;
 
   // Font sizing adjustments requested
-  const detailParaFontPx = 16; // "The following chart contains..." smaller
+  const detailParaFontPx = compact ? 14 : 16; // "The following chart contains..." smaller
   const bottomNarrativeFontPx = detailParaFontPx; // match bottom narrative to above paragraph
 
-  const detailTextHeight = 110; // was 70; prevent paragraph clipping
+  // paragraph + cohort totals + ranking/top-N controls + hidden-share summary;
+  // these wrap onto many more lines at phone widths
+  const detailTextHeight = compact ? 360 : 205;
 
   // Next blocks stack from detailTextTop
   const advertiserChartTop = detailTextTop + detailTextHeight + 6;
 
-  const advertiserChartHeight = 250;
+  const advertiserChartHeight = compact ? 200 : 250;
 
+  // compact layouts show the advertiser detail in a drawer, outside the SVG
   const advertiserDetailTop = advertiserChartTop + advertiserChartHeight + 18;
-  const advertiserDetailHeight = 160;
+  const advertiserDetailHeight = compact ? 0 : 160;
 
   const vbHeight = advertiserDetailTop + advertiserDetailHeight + 26;
 
   // =========================
   // Selection state
   // =========================
-  const [selectedVerticalIdx, setSelectedVerticalIdx] = useState<number | null>(
-    null
+  // Keyed by name so a selection survives re-sorting and shared links.
+  const [selectedVerticalName, setSelectedVerticalName] = useState<string | null>(
+    initialState?.vertical ?? null
   );
-  const selectedVertical =
-    selectedVerticalIdx === null
-      ? null
-      : data[selectedVerticalIdx]?.vertical ?? null;
-
-  const [selectedAdvertiserIdx, setSelectedAdvertiserIdx] = useState<number | null>(
-    null
+  const [selectedAdvertiserName, setSelectedAdvertiserName] = useState<string | null>(
+    initialState?.advertiser ?? null
   );
+  const [topN, setTopN] = useState<TopN>(initialState?.top ?? DEFAULT_TOP_N);
+  const [advPage, setAdvPage] = useState(initialState?.page ?? 0);
+  const pageSize = topN === "all" ? null : topN;
+  const [advSort, setAdvSort] = useState<AdvertiserSort>(initialState?.sort ?? "impressions");
+  const [barMode, setBarMode] = useState<BarMode>(initialState?.bars ?? "impressions");
+  const [level, setLevel] = useState<AdvertiserLevel>(initialState?.level ?? "advertiser");
+  const hasParents = useMemo(() => Object.keys(parentByAdvertiser).length > 0, [parentByAdvertiser]);
+  const parentView = level === "parent" && hasParents;
+
+  const selectedVerticalIdx = useMemo(() => {
+    const i = data.findIndex((d) => d.vertical === selectedVerticalName);
+    return i === -1 ? null : i;
+  }, [data, selectedVerticalName]);
+  const selectedVertical = selectedVerticalIdx === null ? null : data[selectedVerticalIdx].vertical;
 
-  useEffect(() => {
-    setSelectedAdvertiserIdx(null);
-  }, [selectedVertical]);
 
   // =========================
   // Label bbox (for connector start position)
@@ -211,28 +339,6 @@ export default function VerticalPctChangeChart({
   // =========================
   // Tooltip
   // =========================
-  const svgRef = useRef<SVGSVGElement | null>(null);
-  const containerRef = useRef<HTMLDivElement | null>(null);
-  const [containerPx, setContainerPx] = useState<{ w: number; h: number }>({
-    w: 0,
-    h: 0,
-  });
-
-  useEffect(() => {
-    const el = containerRef.current;
-    if (!el) return;
-
-    const ro = new ResizeObserver(() => {
-      const rect = el.getBoundingClientRect();
-      setContainerPx({ w: rect.width, h: rect.height });
-    });
-
-    ro.observe(el);
-    const rect = el.getBoundingClientRect();
-    setContainerPx({ w: rect.width, h: rect.height });
-
-    return () => ro.disconnect();
-  }, []);
 
   const [tooltip, setTooltip] = useState<TooltipState>({
     visible: false,
@@ -241,8 +347,8 @@ export default function VerticalPctChangeChart({
     text: "",
   });
 
-  const onMouseMove = (evt: React.MouseEvent) => {
-    if (!svgRef.current) return;
+  const onPointerMove = (evt: React.PointerEvent) => {
+    if (!svgRef.current || evt.pointerType !== "mouse") return;
     const rect = svgRef.current.getBoundingClientRect();
     setTooltip((t) => ({
       ...t,
@@ -253,6 +359,61 @@ export default function VerticalPctChangeChart({
 
   const hideTooltip = () => setTooltip((t) => ({ ...t, visible: false }));
 
+  // Mouse hover shows a bar's tooltip at the pointer; a tap (touch or pen)
+  // shows it at the bar instead, until the next tap.
+  const hoverTooltip = (text: string) => ({
+    onPointerEnter: (evt: React.PointerEvent) => {
+      if (evt.pointerType === "mouse") setTooltip((t) => ({ ...t, visible: true, text }));
+    },
+    onPointerLeave: (evt: React.PointerEvent) => {
+      if (evt.pointerType === "mouse") hideTooltip();
+    },
+    onPointerUp: (evt: React.PointerEvent) => {
+      if (evt.pointerType !== "mouse") showTooltipFor(evt.currentTarget, text);
+    },
+  });
+
+  // Tooltip for a focused or tapped bar, at the bar's top-right corner.
+  const showTooltipFor = (el: Element, text: string) => {
+    if (!svgRef.current) return;
+    const svgRect = svgRef.current.getBoundingClientRect();
+    const r = el.getBoundingClientRect();
+    setTooltip({ visible: true, x: r.right - svgRect.left, y: r.top - svgRect.top, text });
+  };
+
+  // =========================
+  // Keyboard navigation
+  // =========================
+  // Each bar chart is a listbox with a single tab stop (roving tabindex):
+  // arrow keys move between bars, Home/End jump to the ends, Enter or Space
+  // selects.
+  const verticalBarRefs = useRef<Array<SVGRectElement | null>>([]);
+  const advBarRefs = useRef<Array<SVGRectElement | null>>([]);
+  const [verticalTabIdx, setVerticalTabIdx] = useState(selectedVerticalIdx ?? 0);
+  const [advTabIdx, setAdvTabIdx] = useState(0);
+
+  const onBarKeyDown = (
+    evt: React.KeyboardEvent,
+    i: number,
+    count: number,
+    keys: { prev: string; next: string },
+    bars: Array<SVGRectElement | null>,
+    select: () => void
+  ) => {
+    let j: number;
+    if (evt.key === keys.next) j = Math.min(i + 1, count - 1);
+    else if (evt.key === keys.prev) j = Math.max(i - 1, 0);
+    else if (evt.key === "Home") j = 0;
+    else if (evt.key === "End") j = count - 1;
+    else if (evt.key === "Enter" || evt.key === " ") {
+      evt.preventDefault();
+      select();
+      return;
+    } else return;
+    evt.preventDefault();
+    bars[j]?.focus();
+  };
+
   // =========================
   // Connector geometry + animation
   // =========================
@@ -264,7 +425,7 @@ export default function VerticalPctChangeChart({
   const dotToLineGap = 2;
 
   // "The following chart contains..." paragraph box
-  const detailBoxW = 640;
+  const detailBoxW = compact ? vbWidth - 24 : 640;
   const detailBoxLeft = vbWidth / 2 - detailBoxW / 2;
   const detailBoxRight = vbWidth / 2 + detailBoxW / 2;
 
@@ -276,8 +437,11 @@ export default function VerticalPctChangeChart({
 
   const [animNonce, setAnimNonce] = useState(0);
 
+  // A view restored from the URL draws its connector in the finished state.
+  const skipConnectorAnimRef = useRef(Boolean(initialState?.vertical));
+
   const connector = useMemo(() => {
-    if (selectedVerticalIdx === null) return null;
+    if (selectedVerticalIdx === null || compact) return null;
 
     const d = data[selectedVerticalIdx];
     const isPos = d.pct_change >= 0;
@@ -307,6 +471,7 @@ export default function VerticalPctChangeChart({
     return { path, startX, startY, endX, endY };
   }, [
     selectedVerticalIdx,
+    compact,
     data,
     labelBBoxes,
     detailAnchorLeftX,
@@ -332,6 +497,16 @@ export default function VerticalPctChangeChart({
       const len = el.getTotalLength();
       setMaskLen(len);
 
+      const reduceMotion = window.matchMedia("(prefers-reduced-motion: reduce)").matches;
+      if (skipConnectorAnimRef.current || reduceMotion) {
+        skipConnectorAnimRef.current = false;
+        el.style.transition = "none";
+        el.style.strokeDasharray = `${len}`;
+        el.style.strokeDashoffset = "0";
+        setEndCapVisible(true);
+        return;
+      }
+
       el.style.transition = "none";
       el.style.strokeDasharray = `${len}`;
       el.style.strokeDashoffset = `${len}`;
@@ -350,22 +525,181 @@ export default function VerticalPctChangeChart({
   }, [connector?.path, animNonce]);
 
   const onSelectVertical = (i: number) => {
-    setSelectedVerticalIdx(i);
+    skipConnectorAnimRef.current = false;
+    setVerticalTabIdx(i);
+    setSelectedVerticalName(data[i].vertical);
+    setSelectedAdvertiserName(null);
+    setAdvPage(0);
     setAnimNonce((x) => x + 1);
   };
 
   const maskId = `connectorMask-${animNonce}`;
 
+  // =========================
+  // Advertiser data
+  // =========================
+  // Advertisers are loaded a vertical at a time: the page renders with the
+  // URL-selected vertical's, and any other is fetched the first time it is
+  // selected and kept for the visit. Both are keyed by period pair too, since
+  // picking another pair keeps the component mounted.
+  const baseId = periods.base.id;
+  const comparisonId = periods.comparison.id;
+  const loadKey = (vertical: string) => `${baseId}|${comparisonId}|${vertical}`;
+  const [loadedAdvertisers, setLoadedAdvertisers] = useState<Record<string, VerticalAdvertisers>>(() =>
+    initialAdvertisers ? { [loadKey(initialAdvertisers.vertical)]: initialAdvertisers } : {}
+  );
+  // the load key whose advertisers could not be fetched
+  const [loadFailed, setLoadFailed] = useState<string | null>(null);
+
+  const loadAdvertisers = async (vertical: string): Promise<VerticalAdvertisers> => {
+    const key = loadKey(vertical);
+    const hit = loadedAdvertisers[key];
+    if (hit) return hit;
+    const list = await fetchVerticalAdvertisers(vertical, baseId, comparisonId);
+    setLoadedAdvertisers((m) => ({ ...m, [key]: list }));
+    return list;
+  };
+
+  const selectedKey = selectedVertical ? loadKey(selectedVertical) : null;
+  const selectedBrands = selectedKey ? loadedAdvertisers[selectedKey] ?? null : null;
+  const advStatus = !selectedKey || selectedBrands ? "ready" : loadFailed === selectedKey ? "failed" : "loading";
+
+  useEffect(() => {
+    if (!selectedVertical || !selectedKey || loadedAdvertisers[selectedKey] || loadFailed === selectedKey) return;
+    let cancelled = false;
+    fetchVerticalAdvertisers(selectedVertical, baseId, comparisonId).then(
+      (list) => {
+        if (!cancelled) setLoadedAdvertisers((m) => ({ ...m, [selectedKey]: list }));
+      },
+      () => {
+        if (!cancelled) setLoadFailed(selectedKey);
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedVertical, selectedKey, loadedAdvertisers, loadFailed, baseId, comparisonId]);
+
   // =========================
   // Advertiser chart
   // =========================
+  // What the advertiser chart draws from a vertical's advertisers; the parent
+  // view replaces its brands with their parent companies, grouped here from
+  // the advertiser-to-parent map.
+  const levelOf = (brands: VerticalAdvertisers, asParents = parentView) =>
+    asParents && hasParents ? atParentLevel(parentsInVertical(brands, parentByAdvertiser), brands) : brands;
+  const selectedParents = useMemo(
+    () => (parentView && selectedBrands ? parentsInVertical(selectedBrands, parentByAdvertiser) : null),
+    [parentView, selectedBrands, parentByAdvertiser]
+  );
+  const levelMaps = useMemo(
+    () => (selectedBrands && selectedParents ? atParentLevel(selectedParents, selectedBrands) : selectedBrands),
+    [selectedBrands, selectedParents]
+  );
+  const levelDetails = levelMaps?.details ?? NO_DETAILS;
+
+  const rankFor = (brands: VerticalAdvertisers, sort: AdvertiserSort, asParents = parentView) =>
+    rankLevel(levelOf(brands, asParents), cohort, sort);
+
+  // Lapsed advertisers have no comparison-period impressions; their bars show
+  // the base period instead, drawn hollow.
+  const isLapsed = (a: AdvertiserDatum) => levelDetails[a.advertiser]?.comparison === null;
+  const barImpressions = useCallback(
+    (a: AdvertiserDatum) => {
+      const d = levelDetails[a.advertiser];
+      return d?.comparison === null ? (d.base?.impressions ?? 0) : a.impressions;
+    },
+    [levelDetails]
+  );
+  // the lapsed cohort is measured by what it ran in the base period
+  const pageImpressions = useCallback(
+    (a: AdvertiserDatum) => (cohort === "lapsed" ? barImpressions(a) : a.impressions),
+    [cohort, barImpressions]
+  );
+
+  const rankedAdvertisers: AdvertiserDatum[] = useMemo(
+    () => (levelMaps ? rankLevel(levelMaps, cohort, advSort) : []),
+    [levelMaps, cohort, advSort]
+  );
+  const advPageInfo = useMemo(
+    () => pageAdvertisers(rankedAdvertisers, pageSize, advPage, pageImpressions),
+    [rankedAdvertisers, pageSize, advPage, pageImpressions]
+  );
+
+  // A selected advertiser that is not on the current page (or not mapped to
+  // the vertical at all) is appended so it can still be shown.
+  const pinnedAdvertiser: AdvertiserDatum | null = useMemo(() => {
+    if (!selectedVertical || !selectedAdvertiserName) return null;
+    if (advPageInfo.shown.some((a) => a.advertiser === selectedAdvertiserName)) return null;
+    const ranked = rankedAdvertisers.find((a) => a.advertiser === selectedAdvertiserName);
+    if (ranked) return ranked;
+    const detail = levelDetails[selectedAdvertiserName];
+    if (!detail) return null;
+    return { advertiser: detail.advertiser, impressions: detail.comparison?.impressions ?? 0 };
+  }, [selectedVertical, selectedAdvertiserName, advPageInfo, rankedAdvertisers, levelDetails]);
+
   const advertisers: AdvertiserDatum[] = useMemo(() => {
     if (!selectedVertical) return [];
-    return advertiserByVertical[selectedVertical] ?? [];
-  }, [selectedVertical, advertiserByVertical]);
+    return pinnedAdvertiser ? [...advPageInfo.shown, pinnedAdvertiser] : advPageInfo.shown;
+  }, [selectedVertical, advPageInfo, pinnedAdvertiser]);
+
+  useEffect(() => {
+    replaceChartStateInUrl({
+      vertical: selectedVertical,
+      advertiser: selectedVertical ? selectedAdvertiserName : null,
+      top: topN,
+      page: advPageInfo.page,
+      sort: advSort,
+      bars: barMode,
+      level,
+    });
+  }, [selectedVertical, selectedAdvertiserName, topN, advPageInfo.page, advSort, barMode, level]);
 
-  const advLeft = margin.left - 20;
-  const advRight = margin.left + innerW + 20;
+  // Page (for the given page size) that holds an advertiser, or the first page.
+  const pageOfAdvertiser = (list: AdvertiserDatum[], name: string | null, size: number | null) => {
+    const rank = name ? list.findIndex((a) => a.advertiser === name) : -1;
+    return rank === -1 || size === null ? 0 : Math.floor(rank / size);
+  };
+
+  const onSelectTopN = (t: TopN) => {
+    setTopN(t);
+    setAdvPage(pageOfAdvertiser(rankedAdvertisers, selectedAdvertiserName, t === "all" ? null : t));
+  };
+
+  // Switching views keeps the selection where it has a counterpart: a brand's
+  // parent, or the only brand of a parent.
+  const onSelectLevel = (next: AdvertiserLevel) => {
+    if (next === level) return;
+    let name = selectedAdvertiserName;
+    if (name && next === "parent") name = parentByAdvertiser[name] ?? name;
+    if (name && next === "advertiser") {
+      const brands = selectedParents?.find((p) => p.advertiser === name)?.brands;
+      name = brands?.length === 1 ? brands[0] : null;
+    }
+    setLevel(next);
+    setSelectedAdvertiserName(name);
+    setAdvPage(selectedBrands ? pageOfAdvertiser(rankFor(selectedBrands, advSort, next === "parent"), name, pageSize) : 0);
+  };
+
+  // From a parent company to one of its brands.
+  const onDrillDown = (brand: string) => {
+    setLevel("advertiser");
+    setSelectedAdvertiserName(brand);
+    setAdvPage(selectedBrands ? pageOfAdvertiser(rankFor(selectedBrands, advSort, false), brand, pageSize) : 0);
+  };
+
+  const onSelectSort = (sort: AdvertiserSort) => {
+    setAdvSort(sort);
+    setAdvPage(selectedBrands ? pageOfAdvertiser(rankFor(selectedBrands, sort), selectedAdvertiserName, pageSize) : 0);
+  };
+
+  const selectedAdvertiserIdx = useMemo(() => {
+    const i = advertisers.findIndex((a) => a.advertiser === selectedAdvertiserName);
+    return i === -1 ? null : i;
+  }, [advertisers, selectedAdvertiserName]);
+
+  const advLeft = compact ? margin.left : margin.left - 20;
+  const advRight = compact ? vbWidth - margin.right : margin.left + innerW + 20;
   const advW = advRight - advLeft;
 
   const advTop = advertiserChartTop + 56;
@@ -374,95 +708,352 @@ export default function VerticalPctChangeChart({
 
   const maxImp = useMemo(() => {
     if (advertisers.length === 0) return 1;
-    return Math.max(...advertisers.map((d) => d.impressions), 1);
-  }, [advertisers]);
+    return Math.max(...advertisers.map(barImpressions), 1);
+  }, [advertisers, barImpressions]);
 
-  const advN = advertisers.length;
+  // the "Other" bar takes one extra slot at the right; a sum of impressions
+  // has no place among % changes, so it is left off the diverging bars
+  const showOther = barMode === "impressions" && advPageInfo.other !== null;
+  const advN = advertisers.length + (showOther ? 1 : 0);
   const advBand = advN > 0 ? advW / advN : advW;
 
-  const advBarGap = 4;
-  const advBarW = Math.max(10, Math.min(32, advBand - advBarGap));
+  // bars thin out (down to a hairline) when showing every advertiser
+  const advBarGap = Math.min(4, advBand * 0.25);
+  const advBarW = Math.max(1, Math.min(32, advBand - advBarGap));
 
   const advX = (i: number) =>
     advLeft + i * advBand + (advBand - advBarW) / 2;
   const advBarH = (imp: number) => (imp / maxImp) * advH;
 
+  // --- diverging % change bars ---
+  const changeMetric = changeMetricFor(advSort);
+  const changeOf = useCallback(
+    (a: AdvertiserDatum) => {
+      const d = levelDetails[a.advertiser];
+      return d ? metricPctChange(changeMetric, d) : null;
+    },
+    [levelDetails, changeMetric]
+  );
+
+  const maxAbsChange = useMemo(() => {
+    const vals = advertisers.map(changeOf).filter((v): v is number => v !== null && Number.isFinite(v));
+    return Math.min(CHANGE_CAP, Math.max(...vals.map(Math.abs), 1));
+  }, [advertisers, changeOf]);
+
+  const advZeroY = advTop + advH / 2;
+
+  // Bar extent for the current mode; an advertiser with no base value gets a
+  // stub on the zero line.
+  const advSpan = (a: AdvertiserDatum) => {
+    if (barMode === "impressions") {
+      const h = advBarH(barImpressions(a));
+      return { y: advBottom - h, h };
+    }
+    const v = changeOf(a);
+    if (v === null || !Number.isFinite(v)) return { y: advZeroY - 1, h: 2 };
+    const h = (Math.min(Math.abs(v), maxAbsChange) / maxAbsChange) * (advH / 2);
+    return v >= 0 ? { y: advZeroY - h, h } : { y: advZeroY, h };
+  };
+
+  const advFill = (a: AdvertiserDatum) => {
+    if (barMode === "impressions") return isLapsed(a) ? { fill: palette.background, opacity: 1 } : { fill: palette.bar, opacity: 1 };
+    const v = changeOf(a);
+    if (v === null || !Number.isFinite(v)) return { fill: palette.bar, opacity: 1 };
+    return { fill: colorFor(v), opacity: 0.28 + 0.72 * (Math.min(Math.abs(v), maxAbsChange) / maxAbsChange) };
+  };
+
+  const advTooltipText = (a: AdvertiserDatum) => {
+    const shared = a.shared ? ` · ${describeShared(a.shared, attribution).badge}` : "";
+    if (barMode === "impressions") {
+      return isLapsed(a) ? `${a.advertiser} (lapsed; ${periods.base.label})${shared}` : `${a.advertiser}${shared}`;
+    }
+    const v = changeOf(a);
+    return `${a.advertiser}: ${v === null || !Number.isFinite(v) ? `no ${periods.base.label} value` : `${v >= 0 ? "+" : ""}${fmtPct(v)}`}${shared}`;
+  };
+
+  const advAriaLabel = (a: AdvertiserDatum) =>
+    barMode === "impressions"
+      ? `${a.advertiser}: ${fmtMM(barImpressions(a))} impressions in ${isLapsed(a) ? `${periods.base.label} (lapsed)` : periods.comparison.label}`
+      : advTooltipText(a);
+  const advTabStop = Math.min(advTabIdx, Math.max(advertisers.length - 1, 0));
+
   const selectedAdvertiser =
     selectedAdvertiserIdx === null ? null : advertisers[selectedAdvertiserIdx] ?? null;
 
   const advLabelX =
     selectedAdvertiserIdx === null ? 0 : advX(selectedAdvertiserIdx) + advBarW / 2;
+  // at phone widths the name is shortened and kept clear of the edges
+  const advLabelMaxW = compact ? vbWidth * 0.6 : Infinity;
+  const advLabelTxt = selectedAdvertiser ? truncateText(selectedAdvertiser.advertiser, 13, advLabelMaxW, true) : "";
+  const advLabelTextX = compact
+    ? clamp(advLabelX, margin.left + advLabelMaxW / 2, vbWidth - margin.right - advLabelMaxW / 2)
+    : advLabelX;
 
   const advBarTopY =
     selectedAdvertiserIdx === null || !selectedAdvertiser
       ? 0
-      : advBottom - advBarH(selectedAdvertiser.impressions);
+      : advSpan(selectedAdvertiser).y;
 
   const labelGapAboveBar = 18;
   const advLabelY = advBarTopY - labelGapAboveBar;
 
+  // The "Other" bar is capped at the plot height; it usually dwarfs the rest.
+  const otherX = advX(advN - 1);
+  const otherH = showOther && advPageInfo.other ? Math.min(advH, advBarH(advPageInfo.other.impressions)) : 0;
+
+  // --- top-N summary ---
+  const { offset: advOffset, shown: advShown, total: advTotal, other: advOther } = advPageInfo;
+  const cohortWord = cohort === "all" ? "" : `${COHORT_LABELS[cohort].toLowerCase()} `;
+  const advRangeTxt =
+    (topN === "all"
+      ? `all ${advTotal.count.toLocaleString("en-US")} ${cohortWord}advertisers`
+      : advOffset === 0
+        ? `the top ${advShown.length} ${cohortWord}advertisers`
+        : `the ${cohortWord}advertisers ranked ${advOffset + 1}–${advOffset + advShown.length}`) +
+    (parentView ? " (grouped by parent company)" : "");
+  const hiddenCount = advTotal.count - advShown.length;
+  const hiddenImpressions = advTotal.impressions - advShown.reduce((acc, a) => acc + pageImpressions(a), 0);
+  const hiddenPeriodLabel = cohort === "lapsed" ? periods.base.label : periods.comparison.label;
+
+  const selectedCohortTotals = selectedVertical ? cohortTotalsByVertical?.[selectedVertical] ?? null : null;
+  const hiddenSharePct = advTotal.impressions > 0 ? (hiddenImpressions / advTotal.impressions) * 100 : 0;
+
+  const rankedByTxt: Record<AdvertiserSort, string> = {
+    impressions: `based on the number of TV ad impressions served ${periodRangePhrase(periods.comparison)}`,
+    gain: `ranked by the largest gain in TV ad impressions over ${basePhrase(periods)}`,
+    loss: `ranked by the largest loss in TV ad impressions over ${basePhrase(periods)}`,
+    pct_change: `ranked by percent change in TV ad impressions over ${basePhrase(periods)}`,
+    reach_change: `ranked by percent change in households reached over ${basePhrase(periods)}`,
+    frequency_change: `ranked by percent change in average household frequency over ${basePhrase(periods)}`,
+    new: `that did not advertise in ${periods.base.label}, by TV ad impressions served ${periodRangePhrase(periods.comparison)}`,
+  };
+
+  // Read out by screen readers (live region) when the selection changes.
+  const selectionAnnouncement =
+    selectedVerticalIdx === null
+      ? ""
+      : [
+          `Selected ${tooltipTextFor(data[selectedVerticalIdx])}.`,
+          advStatus === "loading"
+            ? "Loading its advertisers."
+            : advStatus === "failed"
+              ? "Its advertisers could not be loaded."
+              : advTotal.count > 0
+                ? `The advertiser chart below shows ${advRangeTxt}.`
+                : `There are no ${cohortWord}advertisers in this vertical.`,
+          selectedAdvertiser ? `Selected advertiser ${advAriaLabel(selectedAdvertiser)}.` : "",
+        ]
+          .filter(Boolean)
+          .join(" ");
+  const chartDescId = useId();
+
+  // =========================
+  // Advertiser search
+  // =========================
+  const [searchMessage, setSearchMessage] = useState<string | null>(null);
+
+  // A search result lists the verticals it is counted in; the first one on the
+  // chart is selected, once its advertisers are loaded so the result's page is
+  // known. The parent view selects its parent company in the same vertical.
+  const onSearchSelect = async (hit: AdvertiserListing) => {
+    const name = hit.advertiser;
+    const vertical = data.find((d) => hit.verticals.includes(d.vertical))?.vertical;
+    if (!vertical) {
+      setSearchMessage(`${name} is not mapped to any vertical on this chart.`);
+      return;
+    }
+    let brands: VerticalAdvertisers;
+    try {
+      brands = await loadAdvertisers(vertical);
+    } catch {
+      setSearchMessage(`Could not load the ${vertical} advertisers to show ${name}.`);
+      return;
+    }
+    const shownName = parentView ? parentByAdvertiser[name] ?? name : name;
+
+    setSearchMessage(null);
+    skipConnectorAnimRef.current = false;
+    setSelectedVerticalName(vertical);
+    setSelectedAdvertiserName(shownName);
+    setAdvPage(pageOfAdvertiser(rankFor(brands, advSort), shownName, pageSize));
+    setAnimNonce((x) => x + 1);
+    window.setTimeout(() => containerRef.current?.scrollIntoView({ behavior: "smooth", block: "end" }), 0);
+  };
+
   // =========================
   // Advertiser details + metrics
   // =========================
-  const details =
-    selectedAdvertiser && advertiserDetailsByName
-      ? advertiserDetailsByName[selectedAdvertiser.advertiser] ?? null
-      : null;
-
-  const imp24 = details?.impressions_2h_2024 ?? null;
-  const imp25 = details?.impressions_2h_2025 ?? (selectedAdvertiser?.impressions ?? null);
-  const hh24 = details?.households_2h_2024 ?? null;
-  const hh25 = details?.households_2h_2025 ?? null;
-  const fq24 = details?.freq_2h_2024 ?? null;
-  const fq25 = details?.freq_2h_2025 ?? null;
-
-  const impPct = pctChange(imp24, imp25);
-  const hhPct = pctChange(hh24, hh25);
-  const fqPct = pctChange(fq24, fq25);
-
-  const impMax = Math.max(imp24 ?? 0, imp25 ?? 0, 1);
-  const hhMax = Math.max(hh24 ?? 0, hh25 ?? 0, 1);
-  const fqMax = Math.max(fq24 ?? 0, fq25 ?? 0, 1);
+  // as attributed to the selected vertical, so the metrics match the bar
+  const details = selectedAdvertiser ? levelDetails[selectedAdvertiser.advertiser] ?? null : null;
+
+  // In the parent view, the selected company's brands in this vertical. Its
+  // households and frequency only approximate the company's when it has more
+  // than one brand.
+  const selectedParent = selectedAdvertiser
+    ? selectedParents?.find((p) => p.advertiser === selectedAdvertiser.advertiser) ?? null
+    : null;
+  const nonAdditive = selectedParent !== null && selectedParent.brands.length > 1;
+  // a parent company has no profile page; a stand-alone brand does
+  const profileName = selectedParent && nonAdditive ? null : selectedParent?.brands[0] ?? selectedAdvertiser?.advertiser;
+
+  // a period with no row for the advertiser (new or lapsed) reads "Not active", not "—"
+  const inactiveTxt = "Not active";
+  const baseInactive = details !== null && details.base === null;
+  const compInactive = details !== null && details.comparison === null;
+
+  const impBase = details?.base?.impressions ?? null;
+  const impComp = details?.comparison?.impressions ?? (selectedAdvertiser?.impressions ?? null);
+  const hhBase = details?.base?.reach ?? null;
+  const hhComp = details?.comparison?.reach ?? null;
+  const fqBase = details?.base?.frequency ?? null;
+  const fqComp = details?.comparison?.frequency ?? null;
+
+  const impPct = pctChange(impBase, impComp);
+
+  // without per-period rows, only the charted impressions are known
+  const narrativeDetails: AdvertiserDetailDatum | null = selectedAdvertiser
+    ? details ?? {
+        advertiser: selectedAdvertiser.advertiser,
+        base: { impressions: null, reach: null, frequency: null },
+        comparison: { impressions: selectedAdvertiser.impressions, reach: null, frequency: null },
+      }
+    : null;
+
+  const verticalDecomposition = selectedVertical ? decompositionByVertical?.[selectedVertical] ?? null : null;
+  const advertiserDecomposition = details ? decomposeAdvertiser(details) : null;
+  const hhPct = pctChange(hhBase, hhComp);
+  const fqPct = pctChange(fqBase, fqComp);
+
+  const impMax = Math.max(impBase ?? 0, impComp ?? 0, 1);
+  const hhMax = Math.max(hhBase ?? 0, hhComp ?? 0, 1);
+  const fqMax = Math.max(fqBase ?? 0, fqComp ?? 0, 1);
+
+  const metricRows = [
+    {
+      key: "imp",
+      leftVal: impBase,
+      rightVal: impComp,
+      max: impMax,
+      pct: impPct,
+      leftTxt: baseInactive ? inactiveTxt : fmtMM(impBase),
+      rightTxt: compInactive ? inactiveTxt : fmtMM(impComp),
+      axisLabel: "Impressions Served",
+    },
+    {
+      key: "hh",
+      leftVal: hhBase,
+      rightVal: hhComp,
+      max: hhMax,
+      pct: hhPct,
+      leftTxt: baseInactive ? inactiveTxt : fmtMM(hhBase),
+      rightTxt: compInactive ? inactiveTxt : fmtMM(hhComp),
+      axisLabel: nonAdditive ? "Households Reached, summed*" : "Households Reached",
+    },
+    {
+      key: "fq",
+      leftVal: fqBase,
+      rightVal: fqComp,
+      max: fqMax,
+      pct: fqPct,
+      leftTxt: baseInactive
+        ? inactiveTxt
+        : fqBase !== null && Number.isFinite(fqBase)
+          ? fqBase.toFixed(1)
+          : "—",
+      rightTxt: compInactive
+        ? inactiveTxt
+        : fqComp !== null && Number.isFinite(fqComp)
+          ? fqComp.toFixed(1)
+          : "—",
+      axisLabel: nonAdditive ? "Average Frequency, derived*" : "Average Frequency",
+    },
+  ];
 
   // Metric bar sizing (kept modest to fit + prevent clipping)
   const metricBarMaxPx = 110;
   const metricBarH = 18;
 
-  const axisColor = "#6b7280";
-  const barFill = "#d4d4d4";
-  const barStroke = "#8a8a8a";
-
   // Bottom block: keep narrative wider than metrics, but not so wide that metrics clip
   const narrativeFlex = "1 1 60%";
   const metricsFlex = "0 0 60%";
 
-  // Metrics columns: [2024 cell] [pct] [2025 cell]
+  // Metrics columns: [base cell] [pct] [comparison cell]
   const metricGridCols = `${metricBarMaxPx + 108}px 74px ${metricBarMaxPx + 210}px`;
 
   return (
-    <div className="w-full flex justify-center">
+    <div className="w-full flex flex-col items-center">
+      <div className="mb-3 w-full">
+        <AdvertiserSearch periods={periods} onSelect={onSearchSelect} />
+        {searchMessage ? <p className="mt-1 text-center text-[13px] text-muted">{searchMessage}</p> : null}
+      </div>
+
+      <div className="mb-2 w-full">
+        <ChartExportMenu
+          getSvg={() => svgRef.current}
+          getSheets={() =>
+            buildViewSheets(
+              {
+                data,
+                advertisers: levelMaps,
+                periods,
+                state: {
+                  vertical: selectedVertical,
+                  advertiser: selectedVertical ? selectedAdvertiserName : null,
+                  top: topN,
+                  page: advPageInfo.page,
+                  sort: advSort,
+                  bars: barMode,
+                  level,
+                },
+                cohort,
+                attribution,
+                sourceFiles,
+              },
+              new Date()
+            )
+          }
+          filename={[periods.base.id, periods.comparison.id, selectedVertical, selectedAdvertiserName]
+            .filter(Boolean)
+            .join("-")
+            .replace(/[^\w.-]+/g, "_")}
+        />
+      </div>
+
       <div ref={containerRef} className="relative w-full">
         <svg
           ref={svgRef}
           viewBox={`0 0 ${vbWidth} ${vbHeight}`}
           className="w-full h-auto"
           preserveAspectRatio="xMidYMid meet"
-          onMouseMove={onMouseMove}
+          onPointerMove={onPointerMove}
+          onPointerDown={(evt) => {
+            if (evt.pointerType !== "mouse") hideTooltip();
+          }}
           onMouseLeave={hideTooltip}
           style={{ display: "block" }}
+          role="group"
+          aria-label={chartTitle(periods)}
+          aria-describedby={chartDescId}
         >
+          {/* drawn in, so exports keep the theme's background */}
+          <rect x={0} y={0} width={vbWidth} height={vbHeight} fill={palette.background} aria-hidden="true" />
           <text
             x={vbWidth / 2}
             y={24}
             textAnchor="middle"
-            fontSize={18}
-            fill="#111827"
+            fontSize={titleFontPx}
+            fill={palette.text}
             style={{ fontWeight: 600 }}
           >
-            Percent Change in YOY TV Impressions for 2H, 2025
+            {titleLines.map((line, i) => (
+              <tspan key={i} x={vbWidth / 2} dy={i === 0 ? 0 : 19}>
+                {line}
+              </tspan>
+            ))}
           </text>
 
           {/* Vertical chart */}
+          <g role="listbox" aria-label="Verticals by % change in impressions" aria-orientation="vertical">
           {data.map((d, i) => {
             const y = yCenter(i) - barSize / 2;
             const x0 = xScale(0);
@@ -474,7 +1065,7 @@ export default function VerticalPctChangeChart({
             const isPos = d.pct_change >= 0;
             const labelOffset = 12;
             const labelX = isPos ? x1 + labelOffset : x1 - labelOffset;
-            const anchor = isPos ? "start" : "end";
+            const anchor: "start" | "end" = isPos ? "start" : "end";
 
             const isSelected = selectedVerticalIdx === i;
 
@@ -489,52 +1080,82 @@ export default function VerticalPctChangeChart({
                   ry={2}
                   fill={colorFor(d.pct_change)}
                   fillOpacity={opacityFor(d.pct_change)}
+                  className="chart-bar"
                   style={{ cursor: "pointer" }}
+                  ref={(el) => {
+                    verticalBarRefs.current[i] = el;
+                  }}
+                  role="option"
+                  aria-selected={isSelected}
+                  aria-label={tooltipTextFor(d)}
+                  tabIndex={i === verticalTabIdx ? 0 : -1}
                   onClick={() => onSelectVertical(i)}
-                  onMouseEnter={() =>
-                    setTooltip({
-                      visible: true,
-                      x: tooltip.x,
-                      y: tooltip.y,
-                      text: tooltipTextFor(d.pct_change),
-                    })
+                  onKeyDown={(evt) =>
+                    onBarKeyDown(evt, i, data.length, { prev: "ArrowUp", next: "ArrowDown" }, verticalBarRefs.current, () =>
+                      onSelectVertical(i)
+                    )
                   }
-                  onMouseLeave={hideTooltip}
+                  onFocus={(evt) => {
+                    setVerticalTabIdx(i);
+                    showTooltipFor(evt.currentTarget, tooltipTextFor(d));
+                  }}
+                  onBlur={hideTooltip}
+                  {...hoverTooltip(tooltipTextFor(d))}
                 />
 
                 <text
                   ref={(el) => {
                     labelRefs.current[i] = el;
                   }}
-                  x={labelX}
-                  y={yCenter(i)}
-                  fontSize={14}
-                  fill="#111827"
-                  dominantBaseline="middle"
-                  textAnchor={anchor as any}
+                  x={compact ? margin.left : labelX}
+                  y={compact ? yTop(i) - 5 : yCenter(i)}
+                  fontSize={compact ? 13 : 14}
+                  fill={palette.text}
+                  dominantBaseline={compact ? undefined : "middle"}
+                  textAnchor={compact ? "start" : anchor}
                   style={{ cursor: "pointer", fontWeight: isSelected ? 700 : 400 }}
+                  aria-hidden="true"
                   onClick={() => onSelectVertical(i)}
                 >
-                  {d.vertical}
+                  {compact ? truncateText(d.vertical, 13, vbWidth - margin.left - margin.right - 64, isSelected) : d.vertical}
                 </text>
+                {compact ? (
+                  <text
+                    x={vbWidth - margin.right}
+                    y={yTop(i) - 5}
+                    fontSize={13}
+                    fill={colorFor(d.pct_change)}
+                    textAnchor="end"
+                    aria-hidden="true"
+                  >
+                    {`${isPos ? "+" : ""}${fmtPct(d.pct_change)}`}
+                  </text>
+                ) : null}
               </g>
             );
           })}
-
-          <line
-            x1={xScale(0)}
-            x2={xScale(0)}
-            y1={zeroLineY1}
-            y2={zeroLineY2}
-            stroke="black"
-            strokeWidth={1.0}
-            shapeRendering="crispEdges"
-          />
+          </g>
+
+          {/* compact rows get a zero tick per bar, so the axis does not cross the label lines */}
+          {(compact ? data.map((_, i) => [yTop(i) - 2, yTop(i) + band + 2]) : [[zeroLineY1, zeroLineY2]]).map(
+            ([y1, y2]) => (
+              <line
+                key={y1}
+                x1={xScale(0)}
+                x2={xScale(0)}
+                y1={y1}
+                y2={y2}
+                stroke={palette.axis}
+                strokeWidth={1.0}
+                shapeRendering="crispEdges"
+              />
+            )
+          )}
 
           {/* Connector */}
           {connector && (
             <g>
-              <circle cx={connector.startX} cy={connector.startY} r={dotRadius} fill="black" />
+              <circle cx={connector.startX} cy={connector.startY} r={dotRadius} fill={palette.axis} />
 
               <defs>
                 <mask
@@ -563,14 +1184,14 @@ export default function VerticalPctChangeChart({
               <path
                 d={connector.path}
                 fill="none"
-                stroke="black"
+                stroke={palette.axis}
                 strokeWidth={1.4}
                 strokeDasharray="2.5 5"
                 strokeLinecap="round"
                 mask={`url(#${maskId})`}
               />
 
-              {endCapVisible ? <circle cx={connector.endX} cy={connector.endY} r={dotRadius} fill="black" /> : null}
+              {endCapVisible ? <circle cx={connector.endX} cy={connector.endY} r={dotRadius} fill={palette.axis} /> : null}
             </g>
           )}
 
@@ -587,17 +1208,206 @@ export default function VerticalPctChangeChart({
                   width: "100%",
                   fontSize: `${detailParaFontPx}px`,
                   lineHeight: "1.35",
-                  color: "#111827",
+                  color: palette.text,
                   textAlign: "center",
                   overflow: "visible",
                 }}
               >
                 <div>
-                  The following chart contains the top 25 advertisers in the{" "}
-                  <span style={{ fontWeight: 700 }}>{selectedVertical}</span> vertical based on the number of TV ad
-                  impressions served from July through December of 2025. Hover over each bar see the name of each
-                  advertiser and select the bar to view more details.
+                  {advStatus === "loading" ? (
+                    <>
+                      Loading the <span style={{ fontWeight: 700 }}>{selectedVertical}</span> advertisers…
+                    </>
+                  ) : advStatus === "failed" ? (
+                    <>
+                      The <span style={{ fontWeight: 700 }}>{selectedVertical}</span> advertisers could not be loaded.{" "}
+                      <button
+                        type="button"
+                        data-export="skip"
+                        onClick={() => setLoadFailed(null)}
+                        className="text-link hover:underline"
+                      >
+                        Try again
+                      </button>
+                    </>
+                  ) : advTotal.count === 0 ? (
+                    <>
+                      There are no {cohortWord}advertisers in the{" "}
+                      <span style={{ fontWeight: 700 }}>{selectedVertical}</span> vertical.
+                    </>
+                  ) : (
+                    <>
+                      The following chart contains {advRangeTxt} in the{" "}
+                      <span style={{ fontWeight: 700 }}>{selectedVertical}</span> vertical {rankedByTxt[advSort]}.
+                      Hover over each bar see the name of each advertiser and select the bar to view more details.
+                    </>
+                  )}
+                  {pinnedAdvertiser ? (
+                    <>
+                      {" "}
+                      <span style={{ fontWeight: 700 }}>{pinnedAdvertiser.advertiser}</span> is not on this page and is
+                      shown at the right.
+                    </>
+                  ) : null}{" "}
+                  <span data-export="skip">
+                    <QueryLink pathname={verticalPath(selectedVertical)} className="text-link hover:underline">
+                      Every {selectedVertical} advertiser →
+                    </QueryLink>
+                  </span>
+                </div>
+
+                {selectedCohortTotals ? (
+                  <div style={{ marginTop: "6px", fontSize: "13px", color: palette.textSecondary }}>
+                    {COHORTS.map((c, i) => {
+                      const t = selectedCohortTotals[c];
+                      return (
+                        <span key={c}>
+                          {i > 0 ? " · " : null}
+                          {COHORT_LABELS[c]}: {t.count.toLocaleString("en-US")} (
+                          <span style={{ color: t.delta >= 0 ? palette.positive : palette.negative }}>
+                            {t.delta >= 0 ? "+" : "-"}
+                            {fmtMM(Math.abs(t.delta))}
+                          </span>
+                          )
+                        </span>
+                      );
+                    })}
+                  </div>
+                ) : null}
+
+                <div
+                  data-export="skip"
+                  style={{
+                    display: "flex",
+                    flexWrap: "wrap",
+                    justifyContent: "center",
+                    alignItems: "center",
+                    gap: "6px",
+                    marginTop: "8px",
+                    fontSize: "13px",
+                  }}
+                >
+                  <label style={{ color: palette.textMuted }}>
+                    Rank by{" "}
+                    <select
+                      value={advSort}
+                      onChange={(e) => onSelectSort(e.target.value as AdvertiserSort)}
+                      style={{ border: `1px solid ${palette.border}`, borderRadius: "4px", color: palette.text }}
+                    >
+                      {ADVERTISER_SORTS.map((o) => (
+                        <option key={o} value={o}>
+                          {ADVERTISER_SORT_LABELS[o]}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <span style={{ color: palette.textMuted, marginLeft: "14px" }}>Bars</span>
+                  {BAR_MODES.map((m) => (
+                    <button
+                      key={m}
+                      type="button"
+                      onClick={() => setBarMode(m)}
+                      style={{
+                        padding: "1px 8px",
+                        borderRadius: "4px",
+                        border: `1px solid ${palette.border}`,
+                        background: m === barMode ? palette.selected : palette.surface,
+                        color: m === barMode ? palette.onSelected : palette.text,
+                      }}
+                    >
+                      {BAR_MODE_LABELS[m]}
+                    </button>
+                  ))}
+                  {hasParents ? (
+                    <>
+                      <span style={{ color: palette.textMuted, marginLeft: "14px" }}>Show as</span>
+                      {ADVERTISER_LEVELS.map((l) => (
+                        <button
+                          key={l}
+                          type="button"
+                          onClick={() => onSelectLevel(l)}
+                          aria-pressed={l === level}
+                          style={{
+                            padding: "1px 8px",
+                            borderRadius: "4px",
+                            border: `1px solid ${palette.border}`,
+                            background: l === level ? palette.selected : palette.surface,
+                            color: l === level ? palette.onSelected : palette.text,
+                          }}
+                        >
+                          {LEVEL_LABELS[l]}
+                        </button>
+                      ))}
+                    </>
+                  ) : null}
+                </div>
+
+                <div
+                  data-export="skip"
+                  style={{
+                    display: "flex",
+                    flexWrap: "wrap",
+                    justifyContent: "center",
+                    alignItems: "center",
+                    gap: "6px",
+                    marginTop: "6px",
+                    fontSize: "13px",
+                  }}
+                >
+                  <span style={{ color: palette.textMuted }}>Show</span>
+                  {TOP_N_OPTIONS.map((t) => (
+                    <button
+                      key={t}
+                      type="button"
+                      onClick={() => onSelectTopN(t)}
+                      style={{
+                        padding: "1px 8px",
+                        borderRadius: "4px",
+                        border: `1px solid ${palette.border}`,
+                        background: t === topN ? palette.selected : palette.surface,
+                        color: t === topN ? palette.onSelected : palette.text,
+                      }}
+                    >
+                      {t === "all" ? "All" : t}
+                    </button>
+                  ))}
+                  {advPageInfo.pageCount > 1 ? (
+                    <>
+                      <button
+                        type="button"
+                        disabled={advPageInfo.page === 0}
+                        onClick={() => setAdvPage(advPageInfo.page - 1)}
+                        style={{ marginLeft: "14px", color: advPageInfo.page === 0 ? palette.textDisabled : palette.text }}
+                      >
+                        ‹ Prev
+                      </button>
+                      <span style={{ color: palette.textMuted }}>
+                        Page {advPageInfo.page + 1} of {advPageInfo.pageCount}
+                      </span>
+                      <button
+                        type="button"
+                        disabled={advPageInfo.page === advPageInfo.pageCount - 1}
+                        onClick={() => setAdvPage(advPageInfo.page + 1)}
+                        style={{
+                          color: advPageInfo.page === advPageInfo.pageCount - 1 ? palette.textDisabled : palette.text,
+                        }}
+                      >
+                        Next ›
+                      </button>
+                    </>
+                  ) : null}
                 </div>
+
+                {hiddenCount > 0 ? (
+                  <div style={{ marginTop: "6px", fontSize: "13px", color: palette.textMuted }}>
+                    {hiddenCount.toLocaleString("en-US")} of {advTotal.count.toLocaleString("en-US")} advertisers (
+                    {fmtPct(hiddenSharePct)} of the vertical&apos;s {hiddenPeriodLabel} impressions) are not shown
+                    individually
+                    {advOther && showOther
+                      ? `; the ${advOther.count.toLocaleString("en-US")} ranked below this page are combined in the Other bar.`
+                      : "."}
+                  </div>
+                ) : null}
               </div>
             </foreignObject>
           )}
@@ -605,13 +1415,12 @@ export default function VerticalPctChangeChart({
           {/* Advertiser bar chart */}
           {selectedVertical && advertisers.length > 0 && (
             <g>
-              <line x1={advLeft} x2={advRight} y1={advBottom} y2={advBottom} stroke="black" strokeWidth={0.7} />
-
+              <g role="listbox" aria-label={`Advertisers in ${selectedVertical}`} aria-orientation="horizontal">
               {advertisers.map((a, i) => {
-                const h = advBarH(a.impressions);
+                const { y, h } = advSpan(a);
                 const x = advX(i);
-                const y = advBottom - h;
                 const isSelected = selectedAdvertiserIdx === i;
+                const { fill, opacity } = advFill(a);
 
                 return (
                   <rect
@@ -622,22 +1431,74 @@ export default function VerticalPctChangeChart({
                     height={h}
                     rx={2}
                     ry={2}
-                    fill={isSelected ? "#3b82f6" : "#bdbdbd"}
+                    fill={isSelected ? palette.selected : fill}
+                    fillOpacity={isSelected ? 1 : opacity}
+                    stroke={barMode === "impressions" && isLapsed(a) && !isSelected ? palette.barStroke : "none"}
+                    strokeDasharray="3 2"
+                    className="chart-bar"
                     style={{ cursor: "pointer" }}
-                    onMouseEnter={() =>
-                      setTooltip({
-                        visible: true,
-                        x: tooltip.x,
-                        y: tooltip.y,
-                        text: a.advertiser,
-                      })
+                    ref={(el) => {
+                      advBarRefs.current[i] = el;
+                    }}
+                    role="option"
+                    aria-selected={isSelected}
+                    aria-label={advAriaLabel(a)}
+                    tabIndex={i === advTabStop ? 0 : -1}
+                    onKeyDown={(evt) =>
+                      onBarKeyDown(evt, i, advertisers.length, { prev: "ArrowLeft", next: "ArrowRight" }, advBarRefs.current, () =>
+                        setSelectedAdvertiserName(a.advertiser)
+                      )
                     }
-                    onMouseLeave={hideTooltip}
-                    onClick={() => setSelectedAdvertiserIdx(i)}
+                    onFocus={(evt) => {
+                      setAdvTabIdx(i);
+                      showTooltipFor(evt.currentTarget, advTooltipText(a));
+                    }}
+                    onBlur={hideTooltip}
+                    {...hoverTooltip(advTooltipText(a))}
+                    onClick={() => setSelectedAdvertiserName(a.advertiser)}
                   />
 
                 );
               })}
+              </g>
+
+              <line
+                x1={advLeft}
+                x2={advRight}
+                y1={barMode === "impressions" ? advBottom : advZeroY}
+                y2={barMode === "impressions" ? advBottom : advZeroY}
+                stroke={palette.axis}
+                strokeWidth={0.7}
+              />
+
+              {advOther && showOther ? (
+                <g>
+                  <rect
+                    x={otherX}
+                    y={advBottom - otherH}
+                    width={advBarW}
+                    height={otherH}
+                    rx={2}
+                    ry={2}
+                    fill={palette.otherBar}
+                    stroke={palette.textDisabled}
+                    strokeWidth={0.8}
+                    strokeDasharray="3 2"
+                    {...hoverTooltip(
+                      `Other: ${advOther.count.toLocaleString("en-US")} advertisers, ${fmtMM(advOther.impressions)} impressions`
+                    )}
+                  />
+                  <text
+                    x={otherX + advBarW / 2}
+                    y={advBottom + 14}
+                    textAnchor="middle"
+                    fontSize={11}
+                    fill={palette.textMuted}
+                  >
+                    Other
+                  </text>
+                </g>
+              ) : null}
 
               {selectedAdvertiser && selectedAdvertiserIdx !== null && (
                 <g>
@@ -646,20 +1507,20 @@ export default function VerticalPctChangeChart({
                     x2={advLabelX}
                     y1={advBarTopY}
                     y2={advLabelY + 6}
-                    stroke="#3b82f6"
+                    stroke={palette.selected}
                     strokeWidth={1.2}
                     strokeDasharray="2.5 4"
                   />
-                  <circle cx={advLabelX} cy={advLabelY + 6} r={2.8} fill="#3b82f6" />
+                  <circle cx={advLabelX} cy={advLabelY + 6} r={2.8} fill={palette.selected} />
                   <text
-                    x={advLabelX}
+                    x={advLabelTextX}
                     y={advLabelY}
                     textAnchor="middle"
                     fontSize={13}
-                    fill="#3b82f6"
+                    fill={palette.selected}
                     style={{ fontWeight: 600 }}
                   >
-                    {selectedAdvertiser.advertiser}
+                    {advLabelTxt}
                   </text>
                 </g>
               )}
@@ -668,7 +1529,7 @@ export default function VerticalPctChangeChart({
 
           {/* Bottom advertiser detail + metrics
               IMPORTANT: full-width foreignObject to prevent clipping */}
-          {selectedAdvertiser && selectedVertical && (
+          {!compact && selectedAdvertiser && selectedVertical && narrativeDetails && (
             <foreignObject x={0} y={advertiserDetailTop} width={vbWidth} height={advertiserDetailHeight}>
               <div
                 style={{
@@ -676,7 +1537,7 @@ export default function VerticalPctChangeChart({
                   display: "flex",
                   gap: "26px",
                   alignItems: "flex-start",
-                  color: "#111827",
+                  color: palette.text,
                   paddingLeft: "200px",   // extended left; does NOT need to align with chart margin
                   paddingRight: "200px",
                   boxSizing: "border-box",
@@ -692,17 +1553,17 @@ export default function VerticalPctChangeChart({
                   }}
                 >     
                   <div style={{ marginBottom: "8px" }}>
-                    <span style={{ fontWeight: 700 }}>{selectedAdvertiser.advertiser}</span> served{" "}
-                    <span style={{ fontWeight: 700 }}>{fmtInt(imp25)}</span> impressions in 2H, 2025, a{" "}
-                    <span style={{ fontWeight: 700 }}>{fmtPct(impPct)}</span>{" "}
-                    {impPct !== null && impPct >= 0 ? "increase" : "decrease"} over the same period in 2024. This media
-                    activity reached <span style={{ fontWeight: 700 }}>{fmtInt(hh25)}</span> households with an average
-                    household frequency of{" "}
-                    <span style={{ fontWeight: 700 }}>
-                      {fq25 !== null && fq25 !== undefined && Number.isFinite(fq25) ? fq25.toFixed(1) : "—"}
-                    </span>{" "}
-                    impressions per household.
+                    <NarrativeText narrative={advertiserNarrative(narrativeDetails, periods)} />
+                    {selectedAdvertiser.shared ? <SharedBadge shared={selectedAdvertiser.shared} policy={attribution} /> : null}
                   </div>
+                  {profileName ? (
+                    <QueryLink pathname={advertiserPath(profileName)} className="text-link hover:underline">
+                      All verticals and periods for {profileName} →
+                    </QueryLink>
+                  ) : null}
+                  {selectedParent && nonAdditive ? (
+                    <BrandList brands={selectedParent.brands} onSelect={onDrillDown} />
+                  ) : null}
                 </div>
 
                 {/* Right metric block */}
@@ -716,46 +1577,15 @@ export default function VerticalPctChangeChart({
                       marginBottom: "10px",
                     }}
                   >
-                    <div style={{ textAlign: "center", fontWeight: 700 }}>2H, 2024</div>
+                    <div style={{ textAlign: "center", fontWeight: 700 }}>{periods.base.label}</div>
                     <div />
-                    <div style={{ textAlign: "center", fontWeight: 700 }}>2H, 2025</div>
+                    <div style={{ textAlign: "center", fontWeight: 700 }}>{periods.comparison.label}</div>
                   </div>
 
-                  {[
-                    {
-                      key: "imp",
-                      leftVal: imp24,
-                      rightVal: imp25,
-                      max: impMax,
-                      pct: impPct,
-                      leftTxt: fmtMM(imp24),
-                      rightTxt: fmtMM(imp25),
-                      axisLabel: "Impressions Served",
-                    },
-                    {
-                      key: "hh",
-                      leftVal: hh24,
-                      rightVal: hh25,
-                      max: hhMax,
-                      pct: hhPct,
-                      leftTxt: fmtMM(hh24),
-                      rightTxt: fmtMM(hh25),
-                      axisLabel: "Households Reached",
-                    },
-                    {
-                      key: "fq",
-                      leftVal: fq24,
-                      rightVal: fq25,
-                      max: fqMax,
-                      pct: fqPct,
-                      leftTxt: fq24 !== null && fq24 !== undefined && Number.isFinite(fq24) ? fq24.toFixed(1) : "—",
-                      rightTxt: fq25 !== null && fq25 !== undefined && Number.isFinite(fq25) ? fq25.toFixed(1) : "—",
-                      axisLabel: "Average Frequency",
-                    },
-                  ].map((row) => {
+                  {metricRows.map((row) => {
                     const leftW = toWidthPx(row.leftVal, row.max, metricBarMaxPx);
                     const rightW = toWidthPx(row.rightVal, row.max, metricBarMaxPx);
-                    const pctColor = row.pct !== null && row.pct >= 0 ? "#16a34a" : "#dc2626";
+                    const pctColor = row.pct !== null && row.pct >= 0 ? palette.positive : palette.negative;
 
                     return (
                       <div
@@ -767,117 +1597,27 @@ export default function VerticalPctChangeChart({
                           marginBottom: "12px",
                         }}
                       >
-                        {/* 2H 2024: label sits next to the BAR START (dynamic); bar ends at axis (right) */}
-                        <div style={{ display: "flex", justifyContent: "flex-end", alignItems: "center" }}>
-                          <div
-                            style={{
-                              position: "relative",
-                              height: `${metricBarH}px`,
-                              width: `${metricBarMaxPx}px`,
-                              overflow: "visible",
-                            }}
-                          >
-                            {/* axis line (bar ends here) */}
-                            <div
-                              style={{
-                                position: "absolute",
-                                top: -4,
-                                bottom: -4,
-                                right: 0,
-                                width: "1px",
-                                background: axisColor,
-                              }}
-                            />
-
-                            {/* bar */}
-                            <div
-                              style={{
-                                position: "absolute",
-                                right: 0,
-                                top: 0,
-                                height: `${metricBarH}px`,
-                                width: `${leftW}px`,
-                                background: barFill,
-                                border: `1px solid ${barStroke}`,
-                                boxSizing: "border-box",
-                              }}
-                            />
-
-                            {/* label pinned to start (left edge) of the bar */}
-                            <div
-                              style={{
-                                position: "absolute",
-                                top: "50%",
-                                transform: "translateY(-50%)",
-                                right: `${leftW + 12}px`,  // <-- label sits just left of bar start; if bar shrinks, it moves right
-                                whiteSpace: "nowrap",
-                                textAlign: "right",
-                              }}
-                            >
-                              {row.leftTxt}
-                            </div>
-                          </div>
-                        </div>
-
+                        {/* Base period: bar ends at the axis (right) */}
+                        <MetricBar side="left" widthPx={leftW} maxPx={metricBarMaxPx} heightPx={metricBarH} palette={palette}>
+                          {row.leftTxt}
+                        </MetricBar>
 
                         {/* pct */}
                         <div style={{ textAlign: "center", fontWeight: 700, color: pctColor }}>{fmtPct(row.pct)}</div>
 
-                        {/* 2H 2025: bar starts at axis (left); label sits next to the BAR END (dynamic) */}
-<div style={{ display: "flex", justifyContent: "flex-start", alignItems: "center" }}>
-  <div
-    style={{
-      position: "relative",
-      height: `${metricBarH}px`,
-      width: `${metricBarMaxPx}px`,
-      overflow: "visible",
-    }}
-  >
-    {/* axis line */}
-    <div
-      style={{
-        position: "absolute",
-        top: -4,
-        bottom: -4,
-        left: 0,
-        width: "1px",
-        background: axisColor,
-      }}
-    />
-
-    {/* bar */}
-    <div
-      style={{
-        position: "absolute",
-        left: 0,
-        top: 0,
-        height: `${metricBarH}px`,
-        width: `${rightW}px`,
-        background: barFill,
-        border: `1px solid ${barStroke}`,
-        boxSizing: "border-box",
-      }}
-    />
-
-    {/* label pinned to end of the bar */}
-    <div
-      style={{
-        position: "absolute",
-        top: "50%",
-        transform: "translateY(-50%)",
-        left: `${rightW + 12}px`,   // <-- this is what makes it adjacent to the bar end
-        whiteSpace: "nowrap",
-      }}
-    >
-      <span>{row.rightTxt}</span>
-      <span style={{ fontWeight: 700, marginLeft: "6px" }}>{row.axisLabel}</span>
-    </div>
-  </div>
-</div>
-
+                        {/* Comparison period: bar starts at the axis (left) */}
+                        <MetricBar side="right" widthPx={rightW} maxPx={metricBarMaxPx} heightPx={metricBarH} palette={palette}>
+                          <span>{row.rightTxt}</span>
+                          <span style={{ fontWeight: 700, marginLeft: "6px" }}>{row.axisLabel}</span>
+                        </MetricBar>
                       </div>
                     );
                   })}
+                  {nonAdditive ? (
+                    <div style={{ fontSize: "12px", color: palette.textMuted }}>
+                      * Households: {PARENT_REACH_NOTE}. Frequency: {PARENT_FREQUENCY_NOTE}.
+                    </div>
+                  ) : null}
                 </div>
               </div>
             </foreignObject>
@@ -898,6 +1638,177 @@ export default function VerticalPctChangeChart({
           </div>
         )}
       </div>
+
+      {/* Screen-reader description, selection announcements and data tables mirroring the charts */}
+      <p id={chartDescId} className="sr-only">
+        Bar chart of the percent change in TV impressions for each of {data.length} verticals. Use the arrow keys to
+        move between bars and Enter or Space to select a vertical; its advertisers are then charted below. The same
+        data is listed in the tables that follow the chart.
+      </p>
+      <div className="sr-only" aria-live="polite" aria-atomic="true">
+        {selectionAnnouncement}
+      </div>
+      <table className="sr-only">
+        <caption>{chartTitle(periods)}</caption>
+        <thead>
+          <tr>
+            <th scope="col">Vertical</th>
+            <th scope="col">% change in impressions</th>
+          </tr>
+        </thead>
+        <tbody>
+          {data.map((d) => (
+            <tr key={d.vertical}>
+              <th scope="row">{d.vertical}</th>
+              <td>{`${d.pct_change >= 0 ? "+" : ""}${fmtPct(d.pct_change)}`}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {selectedVertical && advertisers.length > 0 ? (
+        <table className="sr-only">
+          <caption>Advertisers in {selectedVertical}</caption>
+          <thead>
+            <tr>
+              <th scope="col">Advertiser</th>
+              <th scope="col">{periods.base.label} impressions</th>
+              <th scope="col">{periods.comparison.label} impressions</th>
+              <th scope="col">% change in {changeMetric}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {advertisers.map((a) => {
+              const d = levelDetails[a.advertiser];
+              const v = changeOf(a);
+              return (
+                <tr key={a.advertiser}>
+                  <th scope="row">{a.advertiser}</th>
+                  <td>{d?.base ? fmtMM(d.base.impressions) : inactiveTxt}</td>
+                  <td>{d && !d.comparison ? inactiveTxt : fmtMM(d?.comparison?.impressions ?? a.impressions)}</td>
+                  <td>{v === null || !Number.isFinite(v) ? "—" : `${v >= 0 ? "+" : ""}${fmtPct(v)}`}</td>
+                </tr>
+              );
+            })}
+            {advOther && showOther ? (
+              <tr>
+                <th scope="row">Other ({advOther.count.toLocaleString("en-US")} advertisers)</th>
+                <td>—</td>
+                <td>{fmtMM(advOther.impressions)}</td>
+                <td>—</td>
+              </tr>
+            ) : null}
+          </tbody>
+        </table>
+      ) : null}
+
+      {/* Compact layout: the selected advertiser's details in a bottom drawer */}
+      {compact && selectedAdvertiser && narrativeDetails ? (
+        <aside
+          aria-label={`${selectedAdvertiser.advertiser} details`}
+          className="fixed inset-x-0 bottom-0 z-20 max-h-[70vh] overflow-y-auto rounded-t-xl border-t border-line bg-surface px-4 pb-6 pt-3 text-[14px] leading-5 text-ink shadow-[0_-8px_24px_rgba(0,0,0,0.12)]"
+        >
+          <div className="mb-2 flex items-center justify-between gap-3">
+            <span className="font-semibold">
+              {selectedAdvertiser.advertiser}
+              {selectedAdvertiser.shared ? <SharedBadge shared={selectedAdvertiser.shared} policy={attribution} /> : null}
+            </span>
+            <button
+              type="button"
+              onClick={() => setSelectedAdvertiserName(null)}
+              className="rounded border border-line px-2 py-0.5 text-[13px]"
+            >
+              Close
+            </button>
+          </div>
+          <p className="mb-3">
+            <NarrativeText narrative={advertiserNarrative(narrativeDetails, periods)} />
+          </p>
+          {profileName ? (
+            <p className="mb-3">
+              <QueryLink pathname={advertiserPath(profileName)} className="text-link hover:underline">
+                All verticals and periods →
+              </QueryLink>
+            </p>
+          ) : null}
+          {selectedParent && nonAdditive ? (
+            <div className="mb-3">
+              <BrandList brands={selectedParent.brands} onSelect={onDrillDown} />
+            </div>
+          ) : null}
+          <table className="w-full text-[13px]">
+            <thead>
+              <tr>
+                <td />
+                <th scope="col" className="text-right">{periods.base.label}</th>
+                <th scope="col" className="text-right">{periods.comparison.label}</th>
+                <th scope="col" className="text-right">Change</th>
+              </tr>
+            </thead>
+            <tbody>
+              {metricRows.map((row) => (
+                <tr key={row.key} className="border-t border-line">
+                  <th scope="row" className="py-1 text-left">{row.axisLabel}</th>
+                  <td className="text-right">{row.leftTxt}</td>
+                  <td className="text-right">{row.rightTxt}</td>
+                  <td
+                    className="text-right font-semibold"
+                    style={{ color: row.pct === null ? palette.textMuted : row.pct >= 0 ? palette.positive : palette.negative }}
+                  >
+                    {row.pct === null ? "—" : `${row.pct >= 0 ? "+" : ""}${fmtPct(row.pct)}`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {nonAdditive ? (
+            <p className="mt-2 text-[12px] text-muted">
+              * Households: {PARENT_REACH_NOTE}. Frequency: {PARENT_FREQUENCY_NOTE}.
+            </p>
+          ) : null}
+        </aside>
+      ) : null}
+
+      {/* Reach/frequency bridges for the selected vertical and advertiser */}
+      {selectedVertical && verticalDecomposition ? (
+        <div className="mt-6 w-full">
+          <ReachFrequencyBridge
+            title={`Reach and Frequency Effects, ${selectedVertical}`}
+            decomposition={verticalDecomposition}
+            periods={periods}
+            palette={palette}
+            note="Vertical reach adds up each advertiser's households, so a household reached by several advertisers counts more than once."
+          />
+        </div>
+      ) : null}
+      {selectedAdvertiser && advertiserDecomposition ? (
+        <div className="mt-6 w-full">
+          <ReachFrequencyBridge
+            title={`Reach and Frequency Effects, ${selectedAdvertiser.advertiser}`}
+            decomposition={advertiserDecomposition}
+            periods={periods}
+            palette={palette}
+            note={nonAdditive ? `Households are the ${PARENT_REACH_NOTE}.` : undefined}
+          />
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+// A parent company's brands in the selected vertical; picking one switches to
+// the brand view with it selected.
+function BrandList({ brands, onSelect }: { brands: string[]; onSelect: (brand: string) => void }) {
+  return (
+    <div data-export="skip" style={{ marginTop: "6px" }}>
+      Brands:{" "}
+      {brands.map((b, i) => (
+        <React.Fragment key={b}>
+          {i > 0 ? " · " : null}
+          <button type="button" onClick={() => onSelect(b)} className="text-link hover:underline">
+            {b}
+          </button>
+        </React.Fragment>
+      ))}
     </div>
   );
 }
@@ -0,0 +1,170 @@
+"use client";
+
+import React from "react";
+import { DEFAULT_PALETTE, type ChartPalette } from "@/lib/theme";
+
+export type WaterfallStep = {
+  key: string;
+  label: string;
+  start: number;
+  end: number;
+  kind: "total" | "delta" | "residual";
+  share: number | null;
+  selectable: boolean;
+};
+
+export function fmtImpressions(n: number) {
+  const abs = Math.abs(n);
+  const sign = n < 0 ? "-" : "";
+  if (abs >= 1e12) return `${sign}${(abs / 1e12).toFixed(2)}T`;
+  if (abs >= 1e9) return `${sign}${(abs / 1e9).toFixed(1)}B`;
+  if (abs >= 1e6) return `${sign}${Math.round(abs / 1e6).toLocaleString("en-US")}MM`;
+  return `${sign}${Math.round(abs).toLocaleString("en-US")}`;
+}
+
+export function fmtDelta(n: number) {
+  return `${n >= 0 ? "+" : ""}${fmtImpressions(n)}`;
+}
+
+export function buildSteps(
+  startLabel: string,
+  startTotal: number,
+  items: { key: string; label: string; delta: number; share: number | null; selectable: boolean }[],
+  residual: { label: string; delta: number; share: number | null } | null,
+  endLabel: string
+): WaterfallStep[] {
+  const steps: WaterfallStep[] = [
+    { key: "__start", label: startLabel, start: 0, end: startTotal, kind: "total", share: null, selectable: false },
+  ];
+  let running = startTotal;
+  for (const item of items) {
+    steps.push({
+      key: item.key,
+      label: item.label,
+      start: running,
+      end: running + item.delta,
+      kind: "delta",
+      share: item.share,
+      selectable: item.selectable,
+    });
+    running += item.delta;
+  }
+  if (residual && residual.delta !== 0) {
+    steps.push({
+      key: "__residual",
+      label: residual.label,
+      start: running,
+      end: running + residual.delta,
+      kind: "residual",
+      share: residual.share,
+      selectable: false,
+    });
+    running += residual.delta;
+  }
+  steps.push({ key: "__end", label: endLabel, start: 0, end: running, kind: "total", share: null, selectable: false });
+  return steps;
+}
+
+export function Waterfall({
+  title,
+  steps,
+  selectedKey,
+  onSelect,
+  palette = DEFAULT_PALETTE,
+}: {
+  title: string;
+  steps: WaterfallStep[];
+  selectedKey?: string | null;
+  onSelect?: (key: string) => void;
+  palette?: ChartPalette;
+}) {
+  const vbWidth = 1400;
+  const margin = { top: 44, right: 220, bottom: 16, left: 360 };
+  const rowH = 26;
+  const barH = 18;
+  const innerW = vbWidth - margin.left - margin.right;
+  const vbHeight = margin.top + steps.length * rowH + margin.bottom;
+
+  // Totals dwarf the deltas, so the axis is cropped to the range the
+  // running total moves through; total bars run off the left edge.
+  const moving = steps.filter((s) => s.kind !== "total").flatMap((s) => [s.start, s.end]);
+  const totals = steps.filter((s) => s.kind === "total").map((s) => s.end);
+  const lo = Math.min(...moving, ...totals);
+  const hi = Math.max(...moving, ...totals);
+  const pad = Math.max((hi - lo) * 0.08, 1);
+  const xMin = lo - pad;
+  const xMax = hi + pad;
+  const xScale = (v: number) => margin.left + ((Math.max(v, xMin) - xMin) / (xMax - xMin)) * innerW;
+
+  const colorFor = (s: WaterfallStep) => {
+    if (s.kind === "total") return palette.textDisabled;
+    if (s.kind === "residual") return palette.barLight;
+    return s.end >= s.start ? palette.positive : palette.negative;
+  };
+
+  return (
+    <svg viewBox={`0 0 ${vbWidth} ${vbHeight}`} className="w-full h-auto" style={{ display: "block" }}>
+      <text x={vbWidth / 2} y={24} textAnchor="middle" fontSize={18} fill={palette.text} style={{ fontWeight: 600 }}>
+        {title}
+      </text>
+
+      {steps.map((s, i) => {
+        const yMid = margin.top + i * rowH + rowH / 2;
+        const x0 = xScale(Math.min(s.start, s.end));
+        const x1 = xScale(Math.max(s.start, s.end));
+        const isSelected = selectedKey === s.key;
+        const next = steps[i + 1];
+        const valueTxt =
+          s.kind === "total"
+            ? fmtImpressions(s.end)
+            : `${fmtDelta(s.end - s.start)}${s.share !== null ? ` (${s.share.toFixed(0)}% of change)` : ""}`;
+
+        return (
+          <g
+            key={s.key}
+            style={{ cursor: s.selectable ? "pointer" : "default" }}
+            onClick={s.selectable && onSelect ? () => onSelect(s.key) : undefined}
+          >
+            <title>{`${s.label}: ${valueTxt}`}</title>
+            <text
+              x={margin.left - 12}
+              y={yMid}
+              fontSize={13}
+              fill={palette.text}
+              textAnchor="end"
+              dominantBaseline="middle"
+              style={{ fontWeight: s.kind === "total" || isSelected ? 700 : 400 }}
+            >
+              {s.label}
+            </text>
+            <rect
+              x={x0}
+              y={yMid - barH / 2}
+              width={Math.max(1, x1 - x0)}
+              height={barH}
+              rx={2}
+              ry={2}
+              fill={colorFor(s)}
+              stroke={isSelected ? palette.selected : "none"}
+              strokeWidth={2}
+            />
+            <text x={x1 + 8} y={yMid} fontSize={12} fill={palette.textSecondary} dominantBaseline="middle">
+              {valueTxt}
+            </text>
+            {next ? (
+              <line
+                x1={xScale(s.end)}
+                x2={xScale(s.end)}
+                y1={yMid + barH / 2}
+                y2={yMid + rowH - barH / 2}
+                stroke={palette.axisSoft}
+                strokeWidth={0.8}
+                strokeDasharray="2 2"
+              />
+            ) : null}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
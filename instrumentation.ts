@@ -0,0 +1,12 @@
+// Compiles the default period pair when the server starts, so the first
+// request is served from the data cache (lib/data/cache.ts).
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+  const { loadCachedDataset } = await import("@/lib/data/cache");
+  try {
+    loadCachedDataset();
+  } catch (err) {
+    // the pages report data errors themselves
+    console.warn(`[data] could not compile the default dataset: ${(err as Error).message}`);
+  }
+}
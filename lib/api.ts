@@ -0,0 +1,131 @@
+import { createHash } from "node:crypto";
+import { AliasError } from "@/lib/data/aliases";
+import { loadCachedDataset } from "@/lib/data/cache";
+import { DatasetError, DEFAULT_DATA_DIR, type Dataset } from "@/lib/data/load";
+import { loadManifest, ManifestError, resolvePeriodPair } from "@/lib/data/manifest";
+import { UploadError } from "@/lib/data/upload";
+
+export class ApiError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+  }
+}
+
+export type SortOrder = "asc" | "desc";
+
+export type ListQuery<M extends string> = {
+  metric: M;
+  order: SortOrder;
+  limit: number | null;
+};
+
+/**
+ * Reads `metric`, `order` and `limit` from the query string, rejecting
+ * values outside `metrics` with a 400.
+ */
+export function parseListQuery<M extends string>(url: URL, metrics: readonly M[], defaultMetric: M): ListQuery<M> {
+  const metric = (url.searchParams.get("metric") ?? defaultMetric) as M;
+  if (!metrics.includes(metric)) {
+    throw new ApiError(400, `metric must be one of: ${metrics.join(", ")}`);
+  }
+
+  const order = url.searchParams.get("order") ?? "desc";
+  if (order !== "asc" && order !== "desc") throw new ApiError(400, "order must be asc or desc");
+
+  const rawLimit = url.searchParams.get("limit");
+  let limit: number | null = null;
+  if (rawLimit !== null) {
+    limit = Number(rawLimit);
+    if (!Number.isInteger(limit) || limit < 1) throw new ApiError(400, "limit must be a positive integer");
+  }
+
+  return { metric, order, limit };
+}
+
+// Sorts by a numeric field, nulls last in either order, then applies the limit.
+export function sortAndLimit<T>(items: T[], valueOf: (t: T) => number | null, query: ListQuery<string>): T[] {
+  const dir = query.order === "asc" ? 1 : -1;
+  const sorted = items.slice().sort((a, b) => {
+    const va = valueOf(a);
+    const vb = valueOf(b);
+    if (va === null && vb === null) return 0;
+    if (va === null) return 1;
+    if (vb === null) return -1;
+    return (va - vb) * dir;
+  });
+  return query.limit === null ? sorted : sorted.slice(0, query.limit);
+}
+
+/**
+ * Loads the dataset for the `base`/`comparison` query params. Unlike the
+ * page, unknown period ids are a 400 rather than a silent fallback.
+ */
+export function datasetForRequest(url: URL): Dataset {
+  const manifest = loadManifest(DEFAULT_DATA_DIR);
+  const base = url.searchParams.get("base");
+  const comparison = url.searchParams.get("comparison");
+  try {
+    resolvePeriodPair(manifest, base, comparison);
+  } catch (err) {
+    if (err instanceof ManifestError) throw new ApiError(400, err.message);
+    throw err;
+  }
+  return loadCachedDataset(DEFAULT_DATA_DIR, { base, comparison });
+}
+
+/**
+ * JSON response with a content-hash ETag; answers 304 when the request's
+ * If-None-Match already matches.
+ */
+export function jsonWithETag(req: Request, body: unknown): Response {
+  const json = JSON.stringify(body);
+  const etag = `"${createHash("sha1").update(json).digest("base64url")}"`;
+  const headers = {
+    ETag: etag,
+    "Cache-Control": "public, max-age=0, must-revalidate",
+  };
+
+  const ifNoneMatch = req.headers.get("if-none-match");
+  if (ifNoneMatch && ifNoneMatch.split(",").some((t) => t.trim() === etag || t.trim() === "*")) {
+    return new Response(null, { status: 304, headers });
+  }
+  return new Response(json, { headers: { ...headers, "Content-Type": "application/json; charset=utf-8" } });
+}
+
+export async function readJsonBody(req: Request): Promise<unknown> {
+  try {
+    return await req.json();
+  } catch {
+    throw new ApiError(400, "Request body must be JSON");
+  }
+}
+
+// Uploads write to the data directory: allowed in development, and in
+// production only with ALLOW_DATA_UPLOADS=1.
+export function uploadsEnabled(): boolean {
+  return process.env.NODE_ENV !== "production" || process.env.ALLOW_DATA_UPLOADS === "1";
+}
+
+export function requireUploadsEnabled() {
+  if (!uploadsEnabled()) throw new ApiError(403, "Data uploads are disabled; set ALLOW_DATA_UPLOADS=1 to enable them");
+}
+
+// Wraps a route handler so ApiError, ManifestError, DatasetError, AliasError and UploadError become JSON errors.
+export function handleApi<A extends unknown[]>(handler: (req: Request, ...args: A) => Promise<Response>) {
+  return async (req: Request, ...args: A): Promise<Response> => {
+    try {
+      return await handler(req, ...args);
+    } catch (err) {
+      if (err instanceof ApiError) return Response.json({ error: err.message }, { status: err.status });
+      if (err instanceof UploadError) return Response.json({ error: err.message }, { status: 400 });
+      if (err instanceof ManifestError || err instanceof DatasetError || err instanceof AliasError) {
+        return Response.json({ error: err.message }, { status: 500 });
+      }
+      throw err;
+    }
+  };
+}
@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { chartStateFromParams, DEFAULT_TOP_N } from "./chartState";
+
+describe("chartStateFromParams", () => {
+  it("defaults everything when the URL says nothing", () => {
+    assert.deepEqual(chartStateFromParams({}), {
+      vertical: null,
+      advertiser: null,
+      top: DEFAULT_TOP_N,
+      page: 0,
+      sort: "impressions",
+      bars: "impressions",
+      level: "advertiser",
+    });
+  });
+
+  it("reads a selection, with the page 1-based in the URL", () => {
+    assert.deepEqual(
+      chartStateFromParams({
+        vertical: "Travel",
+        advertiser: "Acme",
+        top: "all",
+        page: "3",
+        sort: "loss",
+        bars: "change",
+        level: "parent",
+      }),
+      { vertical: "Travel", advertiser: "Acme", top: "all", page: 2, sort: "loss", bars: "change", level: "parent" }
+    );
+    assert.equal(chartStateFromParams({ vertical: ["Travel", "Home"], top: "10" }).vertical, "Travel");
+    assert.equal(chartStateFromParams({ vertical: "Travel", top: "10" }).top, 10);
+  });
+
+  it("ignores an advertiser or page without a vertical", () => {
+    const state = chartStateFromParams({ advertiser: "Acme", page: "3" });
+    assert.equal(state.advertiser, null);
+    assert.equal(state.page, 0);
+  });
+
+  it("falls back for values it does not know", () => {
+    const state = chartStateFromParams({ vertical: "Travel", top: "7", page: "1.5", sort: "name", bars: "x", level: "" });
+    assert.equal(state.top, DEFAULT_TOP_N);
+    assert.equal(state.page, 0);
+    assert.equal(state.sort, "impressions");
+    assert.equal(state.bars, "impressions");
+    assert.equal(state.level, "advertiser");
+  });
+});
@@ -0,0 +1,87 @@
+import { ADVERTISER_SORTS, type AdvertiserSort } from "@/lib/data/advertisers";
+import { firstParam, type SearchParams } from "@/lib/searchParams";
+
+// How many advertisers the per-vertical chart shows per page.
+export const TOP_N_OPTIONS = [10, 25, 50, "all"] as const;
+export type TopN = (typeof TOP_N_OPTIONS)[number];
+export const DEFAULT_TOP_N: TopN = 25;
+
+// Advertiser bars show comparison-period impressions or a diverging % change.
+export const BAR_MODES = ["impressions", "change"] as const;
+export type BarMode = (typeof BAR_MODES)[number];
+
+// Advertiser bars show brands, or their parent companies when the manifest
+// has a hierarchy file.
+export const ADVERTISER_LEVELS = ["advertiser", "parent"] as const;
+export type AdvertiserLevel = (typeof ADVERTISER_LEVELS)[number];
+
+// Chart selection as stored in the URL; names, not indexes, so a link keeps
+// pointing at the same vertical/advertiser when the data is re-sorted.
+export type ChartUrlState = {
+  vertical: string | null;
+  advertiser: string | null;
+  top: TopN;
+  // 0-based here, 1-based in the URL
+  page: number;
+  sort: AdvertiserSort;
+  bars: BarMode;
+  level: AdvertiserLevel;
+};
+
+export const CHART_PARAMS: Record<keyof ChartUrlState, string> = {
+  vertical: "vertical",
+  advertiser: "advertiser",
+  top: "top",
+  page: "page",
+  sort: "sort",
+  bars: "bars",
+  level: "level",
+};
+
+// The option whose string form is `raw`, or the fallback.
+function parseOption<T extends string | number>(options: readonly T[], raw: string | undefined, fallback: T): T {
+  return options.find((o) => String(o) === raw) ?? fallback;
+}
+
+export function chartStateFromParams(params: SearchParams): ChartUrlState {
+  const vertical = firstParam(params[CHART_PARAMS.vertical]) || null;
+  const page = Number(firstParam(params[CHART_PARAMS.page]));
+  return {
+    vertical,
+    // an advertiser only means something inside a vertical
+    advertiser: vertical ? firstParam(params[CHART_PARAMS.advertiser]) || null : null,
+    top: parseOption(TOP_N_OPTIONS, firstParam(params[CHART_PARAMS.top]), DEFAULT_TOP_N),
+    page: vertical && Number.isInteger(page) && page > 1 ? page - 1 : 0,
+    sort: parseOption(ADVERTISER_SORTS, firstParam(params[CHART_PARAMS.sort]), "impressions"),
+    bars: parseOption(BAR_MODES, firstParam(params[CHART_PARAMS.bars]), "impressions"),
+    level: parseOption(ADVERTISER_LEVELS, firstParam(params[CHART_PARAMS.level]), "advertiser"),
+  };
+}
+
+// Query values for the state; defaults are left out to keep links short.
+function chartStateToQuery(state: ChartUrlState): Record<keyof ChartUrlState, string | null> {
+  return {
+    vertical: state.vertical,
+    advertiser: state.vertical ? state.advertiser : null,
+    top: state.top === DEFAULT_TOP_N ? null : String(state.top),
+    page: state.vertical && state.page > 0 ? String(state.page + 1) : null,
+    sort: state.sort === "impressions" ? null : state.sort,
+    bars: state.bars === "impressions" ? null : state.bars,
+    level: state.level === "advertiser" ? null : state.level,
+  };
+}
+
+/**
+ * Writes the chart state into the address bar without a navigation, keeping
+ * every other query param.
+ */
+export function replaceChartStateInUrl(state: ChartUrlState) {
+  const url = new URL(window.location.href);
+  const query = chartStateToQuery(state);
+  for (const [field, param] of Object.entries(CHART_PARAMS) as [keyof ChartUrlState, string][]) {
+    const v = query[field];
+    if (v === null) url.searchParams.delete(param);
+    else url.searchParams.set(param, v);
+  }
+  if (url.href !== window.location.href) window.history.replaceState(window.history.state, "", url);
+}
@@ -0,0 +1,226 @@
+import { pctChangeOf } from "./aggregate";
+import { attributedDetail, type SharedAttribution } from "./attribution";
+import type { Dataset } from "./load";
+import { advertiserKeyer } from "./normalize";
+import type { AdvertiserDatum, AdvertiserDetailDatum, PeriodMetrics, VerticalAdvertisers } from "./types";
+
+export type AdvertiserChange = AdvertiserDetailDatum & {
+  impressions_delta: number | null;
+  impressions_pct_change: number | null;
+  reach_pct_change: number | null;
+  frequency_pct_change: number | null;
+};
+
+// An advertiser's metrics as attributed to one vertical; `shared` is set when
+// it is mapped to more than one.
+export type VerticalAdvertiserDetail = AdvertiserDetailDatum & {
+  shared?: SharedAttribution;
+};
+
+// An advertiser, its comparison-period impressions and the verticals it is counted in.
+export type AdvertiserListing = {
+  advertiser: string;
+  impressions: number | null;
+  verticals: string[];
+};
+
+export type AdvertiserGroup = {
+  count: number;
+  impressions: number;
+};
+
+export type AdvertiserPage = {
+  shown: AdvertiserDatum[];
+  // rank (0-based) of the first shown advertiser
+  offset: number;
+  page: number;
+  pageCount: number;
+  // advertisers ranked below this page, combined into one bar; null when none are left
+  other: AdvertiserGroup | null;
+  total: AdvertiserGroup;
+};
+
+/**
+ * Slices a ranked advertiser list into pages of `pageSize` (null shows them
+ * all). `page` is clamped to the last page. Group impressions are summed with
+ * `impressionsOf`, e.g. to total lapsed advertisers by their base period.
+ */
+export function pageAdvertisers(
+  list: AdvertiserDatum[],
+  pageSize: number | null,
+  page: number,
+  impressionsOf: (a: AdvertiserDatum) => number = (a) => a.impressions
+): AdvertiserPage {
+  const size = pageSize ?? Math.max(list.length, 1);
+  const pageCount = Math.max(1, Math.ceil(list.length / size));
+  const p = Math.min(Math.max(page, 0), pageCount - 1);
+  const offset = p * size;
+  const shown = list.slice(offset, offset + size);
+  const rest = list.slice(offset + size);
+  const sum = (xs: AdvertiserDatum[]) => xs.reduce((acc, a) => acc + impressionsOf(a), 0);
+  return {
+    shown,
+    offset,
+    page: p,
+    pageCount,
+    other: rest.length > 0 ? { count: rest.length, impressions: sum(rest) } : null,
+    total: { count: list.length, impressions: sum(list) },
+  };
+}
+
+// A period with no row counts as zero impressions and reach, so lapsed
+// advertisers are -100%; frequency has no value there.
+export function metricPctChange(metric: keyof PeriodMetrics, d: AdvertiserDetailDatum): number | null {
+  const missing = metric === "frequency" ? null : 0;
+  const a = d.base ? d.base[metric] : missing;
+  const b = d.comparison ? d.comparison[metric] : missing;
+  if (a === null || b === null) return null;
+  return pctChangeOf(a, b);
+}
+
+export function withChanges<D extends AdvertiserDetailDatum>(d: D): D & AdvertiserChange {
+  const a = d.base ? d.base.impressions : 0;
+  const b = d.comparison ? d.comparison.impressions : 0;
+  return {
+    ...d,
+    impressions_delta: a !== null && b !== null ? b - a : null,
+    impressions_pct_change: metricPctChange("impressions", d),
+    reach_pct_change: metricPctChange("reach", d),
+    frequency_pct_change: metricPctChange("frequency", d),
+  };
+}
+
+export const ADVERTISER_SORTS = [
+  "impressions",
+  "gain",
+  "loss",
+  "pct_change",
+  "reach_change",
+  "frequency_change",
+  "new",
+] as const;
+export type AdvertiserSort = (typeof ADVERTISER_SORTS)[number];
+
+export const ADVERTISER_SORT_LABELS: Record<AdvertiserSort, string> = {
+  impressions: "Impressions",
+  gain: "Largest gain",
+  loss: "Largest loss",
+  pct_change: "% change in impressions",
+  reach_change: "% change in reach",
+  frequency_change: "% change in frequency",
+  new: "New advertisers",
+};
+
+// The metric whose % change a sort is about; reach and frequency sorts chart their own.
+export function changeMetricFor(sort: AdvertiserSort): keyof PeriodMetrics {
+  if (sort === "reach_change") return "reach";
+  if (sort === "frequency_change") return "frequency";
+  return "impressions";
+}
+
+/**
+ * Orders a vertical's advertisers (already ranked by comparison-period
+ * impressions) for `sort`, using the base/comparison values in `details`.
+ * Advertisers without a value for the sort go last; "new" keeps only those
+ * with no base-period row.
+ */
+export function rankAdvertisers(
+  list: AdvertiserDatum[],
+  details: Record<string, AdvertiserDetailDatum>,
+  sort: AdvertiserSort
+): AdvertiserDatum[] {
+  if (sort === "impressions") return list;
+  if (sort === "new") return list.filter((a) => details[a.advertiser] && !details[a.advertiser].base);
+
+  const valueOf = (a: AdvertiserDatum): number | null => {
+    const d = details[a.advertiser];
+    if (!d) return null;
+    if (sort === "gain" || sort === "loss") return withChanges(d).impressions_delta;
+    return metricPctChange(changeMetricFor(sort), d);
+  };
+  const dir = sort === "loss" ? 1 : -1;
+  // Array.sort is stable, so ties keep the impressions order
+  return list
+    .map((a) => ({ a, v: valueOf(a) }))
+    .sort((x, y) => {
+      if (x.v === null && y.v === null) return 0;
+      if (x.v === null) return 1;
+      if (y.v === null) return -1;
+      return (x.v - y.v) * dir;
+    })
+    .map((x) => x.a);
+}
+
+// Advertiser details by advertiser key, as the dataset's joins key them.
+export function advertiserIndex(dataset: Dataset): Map<string, AdvertiserDetailDatum> {
+  const keyOf = advertiserKeyer(dataset.aliases.entities);
+  const out = new Map<string, AdvertiserDetailDatum>();
+  for (const d of Object.values(dataset.advertiserDetailsByName)) out.set(keyOf(d.advertiser), d);
+  return out;
+}
+
+// Vertical names per advertiser key, from the vertical advertiser lists.
+export function verticalsByAdvertiser(dataset: Dataset): Map<string, string[]> {
+  const keyOf = advertiserKeyer(dataset.aliases.entities);
+  const out = new Map<string, string[]>();
+  for (const [vertical, list] of Object.entries(dataset.advertiserByVertical)) {
+    for (const a of list) {
+      const k = keyOf(a.advertiser);
+      out.set(k, [...(out.get(k) ?? []), vertical]);
+    }
+  }
+  return out;
+}
+
+/**
+ * Every advertiser counted in `vertical`, not just the top of the chart, with
+ * impressions and households as attributed to it; largest first, as charted.
+ */
+export function advertisersInVertical(dataset: Dataset, vertical: string): VerticalAdvertiserDetail[] {
+  return (dataset.advertiserByVertical[vertical] ?? []).flatMap((a) => {
+    const d = dataset.advertiserDetailsByName[a.advertiser];
+    if (!d) return [];
+    const detail = attributedDetail(d, a.shared?.share ?? 1);
+    return [a.shared ? { ...detail, shared: a.shared } : detail];
+  });
+}
+
+/**
+ * The advertiser chart's data for one vertical, from advertisersInVertical's
+ * rows or the same rows read back from the vertical's API route. Ranked by
+ * comparison-period impressions, then (for lapsed advertisers) base-period.
+ */
+export function toVerticalAdvertisers(vertical: string, rows: VerticalAdvertiserDetail[]): VerticalAdvertisers {
+  const details: Record<string, AdvertiserDetailDatum> = {};
+  const advertisers = rows.map((r): AdvertiserDatum => {
+    details[r.advertiser] = { advertiser: r.advertiser, base: r.base, comparison: r.comparison };
+    const impressions = r.comparison?.impressions ?? 0;
+    return r.shared ? { advertiser: r.advertiser, impressions, shared: r.shared } : { advertiser: r.advertiser, impressions };
+  });
+  const baseOf = (a: AdvertiserDatum) => details[a.advertiser].base?.impressions ?? 0;
+  advertisers.sort((a, b) => b.impressions - a.impressions || baseOf(b) - baseOf(a));
+  return { vertical, advertisers, details };
+}
+
+// Every advertiser with details, and the verticals whose advertiser lists count it.
+export function listAdvertisers(dataset: Dataset): AdvertiserListing[] {
+  const verticals = new Map<string, string[]>();
+  for (const [vertical, list] of Object.entries(dataset.advertiserByVertical)) {
+    for (const a of list) verticals.set(a.advertiser, [...(verticals.get(a.advertiser) ?? []), vertical]);
+  }
+  return Object.values(dataset.advertiserDetailsByName).map((d) => ({
+    advertiser: d.advertiser,
+    impressions: d.comparison?.impressions ?? null,
+    verticals: verticals.get(d.advertiser) ?? [],
+  }));
+}
+
+export function findAdvertiser(
+  dataset: Dataset,
+  name: string
+): { detail: AdvertiserDetailDatum; verticals: string[] } | null {
+  const key = advertiserKeyer(dataset.aliases.entities)(name);
+  const detail = advertiserIndex(dataset).get(key);
+  if (!detail) return null;
+  return { detail, verticals: verticalsByAdvertiser(dataset).get(key) ?? [] };
+}
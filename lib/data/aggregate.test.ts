@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { combineByKey, rollUpVerticals, sumImpressionsByKey } from "./aggregate";
+import { advertiserKeyer, normalizeKey } from "./normalize";
+import type { MappingRow, PeriodMetricsRow } from "./schema";
+
+const row = (advertiser: string, impressions: number, reach: number | null = null, line = 2): PeriodMetricsRow => ({
+  advertiser,
+  impressions,
+  reach,
+  frequency: reach ? impressions / reach : null,
+  line,
+});
+
+const mapped = (advertiser: string, vertical: string): MappingRow => ({
+  advertiser,
+  vertical,
+  primary: null,
+  weight: null,
+  line: 2,
+});
+
+describe("combineByKey", () => {
+  it("keeps a lone row as it is", () => {
+    const r = row("Acme", 1000, 100);
+    assert.equal(combineByKey([r], normalizeKey).get("acme"), r);
+  });
+
+  it("sums impressions but leaves households and frequency blank for merged rows", () => {
+    const merged = combineByKey([row("Acme Inc", 1000, 100, 2), row("ACME", 3000, 200, 3)], normalizeKey).get("acme");
+    assert.deepEqual(merged, { advertiser: "ACME", impressions: 4000, reach: null, frequency: null, line: 3 });
+  });
+
+  it("keeps rows apart when the key tells them apart", () => {
+    const keyOf = advertiserKeyer([{ name: "Delta Co", exact: true }]);
+    const out = combineByKey([row("Delta Inc", 1000, 100), row("Delta Co", 500, 50)], keyOf);
+    assert.equal(out.size, 2);
+    assert.equal(out.get("delta")?.reach, 100);
+    assert.equal(out.get("=delta co")?.reach, 50);
+  });
+});
+
+describe("rollUpVerticals", () => {
+  it("counts exact entities in their own verticals", () => {
+    const keyOf = advertiserKeyer([{ name: "Delta Co", exact: true }]);
+    const mapping = [mapped("Delta Inc", "Travel"), mapped("Delta Co", "Home")];
+    const base = [row("Delta Inc", 100), row("Delta Co", 100)];
+    const comparison = [row("Delta Inc", 150), row("Delta Co", 50)];
+
+    const apart = rollUpVerticals(base, comparison, mapping, "full", keyOf);
+    const pct = Object.fromEntries(apart.verticals.map((v) => [v.vertical, v.pct_change]));
+    assert.deepEqual(pct, { Travel: 50, Home: -50 });
+
+    // by normalized key alone they are one advertiser, counted in both
+    assert.deepEqual(sumImpressionsByKey(comparison, normalizeKey), new Map([["delta", 200]]));
+  });
+});
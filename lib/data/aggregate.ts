@@ -0,0 +1,198 @@
+import { attributionShares, type AttributionPolicy } from "./attribution";
+import type { AdvertiserKey } from "./normalize";
+import type { MappingRow, PeriodMetricsRow } from "./schema";
+
+export type VerticalTotal = {
+  vertical: string;
+  base_impressions: number;
+  comparison_impressions: number;
+  // null when the vertical had no base-period impressions
+  pct_change: number | null;
+  // distinct advertisers counted in the vertical with data in either period
+  advertisers: number;
+};
+
+export type OverallTotal = {
+  base_impressions: number;
+  comparison_impressions: number;
+  pct_change: number | null;
+};
+
+export type Rollup = {
+  verticals: VerticalTotal[];
+  overall: OverallTotal;
+};
+
+export type PrecomputedVertical = {
+  vertical: string;
+  pct_change: number;
+  base_impressions: number | null;
+  comparison_impressions: number | null;
+};
+
+export type ReconciliationStatus = "ok" | "mismatch" | "missing-computed" | "missing-precomputed";
+
+export type ReconciliationRow = {
+  vertical: string;
+  computed_pct: number | null;
+  precomputed_pct: number | null;
+  // computed minus precomputed, in percentage points
+  diff_pp: number | null;
+  computed_base: number | null;
+  precomputed_base: number | null;
+  computed_comparison: number | null;
+  precomputed_comparison: number | null;
+  status: ReconciliationStatus;
+};
+
+export function pctChangeOf(base: number, comparison: number): number | null {
+  if (!Number.isFinite(base) || !Number.isFinite(comparison) || base === 0) return null;
+  return ((comparison - base) / base) * 100;
+}
+
+// Impressions per advertiser key; rows sharing a key are summed.
+export function sumImpressionsByKey(rows: PeriodMetricsRow[], keyOf: AdvertiserKey): Map<string, number> {
+  const out = new Map<string, number>();
+  for (const r of rows) {
+    const k = keyOf(r.advertiser);
+    out.set(k, (out.get(k) ?? 0) + r.impressions);
+  }
+  return out;
+}
+
+/**
+ * One row per advertiser key. Rows sharing a key (spellings of one name, or
+ * aliases of one entity) are merged: impressions are summed, but households
+ * and frequency become null, since the rows' households may overlap and
+ * their sum would overstate reach. The largest row's name is kept.
+ */
+export function combineByKey(rows: PeriodMetricsRow[], keyOf: AdvertiserKey): Map<string, PeriodMetricsRow> {
+  const out = new Map<string, PeriodMetricsRow>();
+  const largest = new Map<string, PeriodMetricsRow>();
+  for (const r of rows) {
+    const k = keyOf(r.advertiser);
+    const prev = out.get(k);
+    if (!prev) {
+      out.set(k, r);
+      largest.set(k, r);
+      continue;
+    }
+    if (r.impressions > largest.get(k)!.impressions) largest.set(k, r);
+    out.set(k, { ...largest.get(k)!, impressions: prev.impressions + r.impressions, reach: null, frequency: null });
+  }
+  return out;
+}
+
+/**
+ * Advertiser keys per vertical, limited to keys passing `hasData`, each with
+ * the fraction of its impressions the attribution policy counts in that
+ * vertical. Every per-vertical sum goes through here so they all agree.
+ */
+export function verticalMembers(
+  mappingRows: MappingRow[],
+  hasData: (key: string) => boolean,
+  policy: AttributionPolicy,
+  keyOf: AdvertiserKey
+): Map<string, Map<string, number>> {
+  const out = new Map<string, Map<string, number>>();
+  for (const [k, shares] of attributionShares(mappingRows, policy, keyOf)) {
+    if (!hasData(k)) continue;
+    for (const [vertical, share] of shares) {
+      if (!out.has(vertical)) out.set(vertical, new Map());
+      out.get(vertical)!.set(k, share);
+    }
+  }
+  return out;
+}
+
+/**
+ * Rolls advertiser impressions up to verticals through the mapping. An
+ * advertiser mapped to several verticals is counted as the attribution policy
+ * says; under the default, in full in each, so vertical totals can add up to
+ * more than the overall total, which counts every advertiser row exactly once.
+ */
+export function rollUpVerticals(
+  baseRows: PeriodMetricsRow[],
+  comparisonRows: PeriodMetricsRow[],
+  mappingRows: MappingRow[],
+  policy: AttributionPolicy,
+  keyOf: AdvertiserKey
+): Rollup {
+  const baseByKey = sumImpressionsByKey(baseRows, keyOf);
+  const compByKey = sumImpressionsByKey(comparisonRows, keyOf);
+
+  const membersByVertical = verticalMembers(
+    mappingRows,
+    (k) => baseByKey.has(k) || compByKey.has(k),
+    policy,
+    keyOf
+  );
+
+  const verticals: VerticalTotal[] = [];
+  for (const [vertical, members] of membersByVertical) {
+    let base = 0;
+    let comparison = 0;
+    for (const [k, share] of members) {
+      base += (baseByKey.get(k) ?? 0) * share;
+      comparison += (compByKey.get(k) ?? 0) * share;
+    }
+    verticals.push({
+      vertical,
+      base_impressions: base,
+      comparison_impressions: comparison,
+      pct_change: pctChangeOf(base, comparison),
+      advertisers: members.size,
+    });
+  }
+  verticals.sort((a, b) => (b.pct_change ?? -Infinity) - (a.pct_change ?? -Infinity));
+
+  const base = baseRows.reduce((acc, r) => acc + r.impressions, 0);
+  const comparison = comparisonRows.reduce((acc, r) => acc + r.impressions, 0);
+
+  return {
+    verticals,
+    overall: { base_impressions: base, comparison_impressions: comparison, pct_change: pctChangeOf(base, comparison) },
+  };
+}
+
+/**
+ * Compares computed vertical % changes against a precomputed file. A vertical
+ * is a mismatch when the two differ by more than `tolerancePp` percentage
+ * points; verticals present on only one side are reported as missing.
+ */
+export function reconcileVerticals(
+  computed: VerticalTotal[],
+  precomputed: PrecomputedVertical[],
+  tolerancePp: number
+): ReconciliationRow[] {
+  const computedByName = new Map(computed.map((v) => [v.vertical, v]));
+  const precomputedByName = new Map(precomputed.map((v) => [v.vertical, v]));
+  const names = Array.from(new Set([...precomputedByName.keys(), ...computedByName.keys()]));
+
+  const rows = names.map((vertical): ReconciliationRow => {
+    const c = computedByName.get(vertical);
+    const p = precomputedByName.get(vertical);
+    const computedPct = c?.pct_change ?? null;
+    const precomputedPct = p?.pct_change ?? null;
+    const diff = computedPct !== null && precomputedPct !== null ? computedPct - precomputedPct : null;
+
+    let status: ReconciliationStatus;
+    if (!p) status = "missing-precomputed";
+    else if (computedPct === null) status = "missing-computed";
+    else status = Math.abs(diff!) > tolerancePp ? "mismatch" : "ok";
+
+    return {
+      vertical,
+      computed_pct: computedPct,
+      precomputed_pct: precomputedPct,
+      diff_pp: diff,
+      computed_base: c?.base_impressions ?? null,
+      precomputed_base: p?.base_impressions ?? null,
+      computed_comparison: c?.comparison_impressions ?? null,
+      precomputed_comparison: p?.comparison_impressions ?? null,
+      status,
+    };
+  });
+
+  return rows.sort((a, b) => Math.abs(b.diff_pp ?? 0) - Math.abs(a.diff_pp ?? 0));
+}
@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { AliasError, aliasResolver, parseAliasTable } from "./aliases";
+
+describe("parseAliasTable", () => {
+  it("rejects two entities whose names normalize alike", () => {
+    assert.throws(
+      () => parseAliasTable({ entities: [{ name: "Delta Inc", aliases: [] }, { name: "Delta Co", aliases: [] }] }),
+      AliasError
+    );
+  });
+
+  it("allows them when all but one are marked exact", () => {
+    const table = parseAliasTable({
+      entities: [
+        { name: "Delta Inc", aliases: ["Delta Air Lines"] },
+        { name: "Delta Co", aliases: ["DELTA CO."], exact: true },
+      ],
+    });
+    assert.deepEqual(
+      table.entities.map((e) => e.exact ?? false),
+      [false, true]
+    );
+  });
+
+  it("still rejects one raw name listed under two entities", () => {
+    assert.throws(
+      () =>
+        parseAliasTable({
+          entities: [
+            { name: "Delta Inc", aliases: ["Delta"] },
+            { name: "Delta Co", aliases: ["delta"], exact: true },
+          ],
+        }),
+      /"delta" is listed under both Delta Inc and Delta Co/
+    );
+  });
+
+  it("rejects an exact flag that is not a boolean", () => {
+    assert.throws(() => parseAliasTable({ entities: [{ name: "Delta", aliases: [], exact: "yes" }] }), AliasError);
+  });
+});
+
+describe("aliasResolver", () => {
+  const resolve = aliasResolver(
+    parseAliasTable({
+      entities: [
+        { name: "Delta Inc", aliases: ["Delta Air Lines"] },
+        { name: "Delta Co", aliases: ["DELTA CO."], exact: true },
+      ],
+    })
+  );
+
+  it("matches an exact entity by its listed names only", () => {
+    assert.equal(resolve("delta co"), "Delta Co");
+    assert.equal(resolve("DELTA CO."), "Delta Co");
+    assert.equal(resolve("Delta, Co"), "Delta Inc");
+  });
+
+  it("matches other entities by normalized key", () => {
+    assert.equal(resolve("DELTA AIR LINES, INC."), "Delta Inc");
+    assert.equal(resolve("Delta LLC"), "Delta Inc");
+    assert.equal(resolve("Acme"), "Acme");
+  });
+});
@@ -0,0 +1,290 @@
+import fs from "node:fs";
+import path from "node:path";
+import { loadManifest } from "./manifest";
+import { advertiserKeyer, normalizeKey } from "./normalize";
+import { readTable } from "./readTable";
+import { createReportBuilder } from "./report";
+import { mappingSchema, periodMetricsSchema } from "./schema";
+
+// Advertiser names the data files spell differently but mean the same entity
+// ("AT&T Wireless" and "AT&T"), or spell alike but mean different ones. Each
+// raw name is replaced by its entity's name before any join, so the joins'
+// key (advertiserKeyer) only sees canonical names.
+
+export const ALIASES_FILE = "aliases.json";
+
+export type AliasEntity = {
+  // the name the dashboard shows
+  name: string;
+  // raw names, as in the data files, that mean this entity
+  aliases: string[];
+  // matched by its exact names only (case aside), never by normalized key, so
+  // it stays apart from a company whose name normalizes alike ("Delta Inc"
+  // and "Delta Co"); its other spellings must be listed as aliases
+  exact?: boolean;
+};
+
+export type AliasTable = {
+  entities: AliasEntity[];
+  // pairs of names marked as different advertisers, not suggested again
+  distinct: [string, string][];
+};
+
+export const EMPTY_ALIAS_TABLE: AliasTable = { entities: [], distinct: [] };
+
+export class AliasError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AliasError";
+  }
+}
+
+function asName(v: unknown, where: string): string {
+  if (typeof v !== "string" || !v.trim()) throw new AliasError(`${where} must be a non-empty string.`);
+  return v.trim();
+}
+
+// Exact raw names, case-insensitively.
+function rawKey(name: string) {
+  return name.trim().toLowerCase();
+}
+
+export function parseAliasTable(v: unknown): AliasTable {
+  if (typeof v !== "object" || v === null || Array.isArray(v)) throw new AliasError(`${ALIASES_FILE} must be an object.`);
+  const r = v as Record<string, unknown>;
+
+  const entities = (Array.isArray(r.entities) ? r.entities : []).map((e, i): AliasEntity => {
+    const where = `entities[${i}]`;
+    if (typeof e !== "object" || e === null) throw new AliasError(`${where} must be an object.`);
+    const { name, aliases, exact } = e as Record<string, unknown>;
+    if (!Array.isArray(aliases)) throw new AliasError(`${where}.aliases must be an array.`);
+    if (exact !== undefined && typeof exact !== "boolean") throw new AliasError(`${where}.exact must be true or false.`);
+    const entity = { name: asName(name, `${where}.name`), aliases: aliases.map((a, j) => asName(a, `${where}.aliases[${j}]`)) };
+    return exact ? { ...entity, exact } : entity;
+  });
+
+  // an entity's names must lead to it alone; names that normalize alike need
+  // all but one of their entities marked exact
+  const owner = new Map<string, string>();
+  const entityKeys = new Map<string, string>();
+  for (const e of entities) {
+    const key = normalizeKey(e.name);
+    if (!e.exact && entityKeys.has(key)) {
+      throw new AliasError(
+        `"${e.name}" and "${entityKeys.get(key)}" are the same name; mark one of them exact to keep them apart.`
+      );
+    }
+    if (!e.exact) entityKeys.set(key, e.name);
+    for (const raw of [e.name, ...e.aliases]) {
+      const prev = owner.get(rawKey(raw));
+      if (prev !== undefined && prev !== e.name) throw new AliasError(`"${raw}" is listed under both ${prev} and ${e.name}.`);
+      owner.set(rawKey(raw), e.name);
+    }
+  }
+
+  const distinct = (Array.isArray(r.distinct) ? r.distinct : []).map((p, i): [string, string] => {
+    if (!Array.isArray(p) || p.length !== 2) throw new AliasError(`distinct[${i}] must be a pair of names.`);
+    return [asName(p[0], `distinct[${i}][0]`), asName(p[1], `distinct[${i}][1]`)];
+  });
+
+  return { entities, distinct };
+}
+
+export function loadAliasTable(dataDir: string): AliasTable {
+  const file = path.join(dataDir, ALIASES_FILE);
+  if (!fs.existsSync(file)) return EMPTY_ALIAS_TABLE;
+  let json: unknown;
+  try {
+    json = JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (err) {
+    throw new AliasError(`${ALIASES_FILE} is not valid JSON: ${(err as Error).message}`);
+  }
+  return parseAliasTable(json);
+}
+
+export function saveAliasTable(dataDir: string, table: AliasTable) {
+  const entities = table.entities
+    .map((e) => ({
+      name: e.name,
+      aliases: e.aliases.slice().sort((a, b) => a.localeCompare(b)),
+      ...(e.exact ? { exact: true } : {}),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  fs.writeFileSync(path.join(dataDir, ALIASES_FILE), `${JSON.stringify({ entities, distinct: table.distinct }, null, 2)}\n`);
+}
+
+/**
+ * Returns a function giving the entity name for a raw advertiser name, or the
+ * name itself when the table has no entry. An exact (case-insensitive) alias
+ * wins, so names that normalize alike can be told apart; otherwise an alias
+ * of an entity not marked exact matches any name with the same normalized
+ * key, unless that key is claimed by more than one entity.
+ */
+export function aliasResolver(table: AliasTable): (name: string) => string {
+  const exact = new Map<string, string>();
+  const byKey = new Map<string, string | null>();
+  for (const e of table.entities) {
+    for (const raw of [e.name, ...e.aliases]) {
+      exact.set(rawKey(raw), e.name);
+      if (e.exact) continue;
+      const key = normalizeKey(raw);
+      byKey.set(key, byKey.has(key) && byKey.get(key) !== e.name ? null : e.name);
+    }
+  }
+  if (exact.size === 0) return (name) => name;
+  return (name) => exact.get(rawKey(name)) ?? byKey.get(normalizeKey(name)) ?? name;
+}
+
+// The table's rows with each advertiser replaced by its entity name.
+export function withAliases<T extends { rows: { advertiser: string }[] }>(table: T, resolve: (name: string) => string): T {
+  return {
+    ...table,
+    rows: table.rows.map((r) => {
+      const name = resolve(r.advertiser);
+      return name === r.advertiser ? r : { ...r, advertiser: name };
+    }),
+  };
+}
+
+// =========================
+// Merge suggestions
+// =========================
+
+function bigrams(key: string): Map<string, number> {
+  const s = key.replace(/ /g, "");
+  const out = new Map<string, number>();
+  for (let i = 0; i < s.length - 1; i++) out.set(s.slice(i, i + 2), (out.get(s.slice(i, i + 2)) ?? 0) + 1);
+  return out;
+}
+
+/**
+ * Similarity of two names from 0 to 1: the Dice coefficient of their
+ * normalized keys' letter pairs, raised to 0.9 when one name is the other
+ * plus trailing words ("AT&T" and "AT&T Wireless").
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const ka = normalizeKey(a);
+  const kb = normalizeKey(b);
+  if (!ka || !kb) return 0;
+  if (ka === kb) return 1;
+
+  const [short, long] = ka.length <= kb.length ? [ka, kb] : [kb, ka];
+  const isPrefix = short.length >= 3 && long.startsWith(`${short} `);
+
+  const ga = bigrams(ka);
+  const gb = bigrams(kb);
+  let shared = 0;
+  let total = 0;
+  for (const n of ga.values()) total += n;
+  for (const [g, n] of gb) {
+    total += n;
+    shared += Math.min(n, ga.get(g) ?? 0);
+  }
+  const dice = total === 0 ? 0 : (2 * shared) / total;
+  return isPrefix ? Math.max(dice, 0.9) : dice;
+}
+
+export type MergeCandidate = { name: string; score: number; verticals: string[] };
+
+export type MergeSuggestion = {
+  // a period-file name with no vertical mapping
+  name: string;
+  // its impressions across every period in the manifest
+  impressions: number;
+  candidates: MergeCandidate[];
+};
+
+export type CollapsedNames = {
+  key: string;
+  // raw spellings the joins treat as one advertiser
+  names: string[];
+};
+
+export type AliasReview = {
+  suggestions: MergeSuggestion[];
+  collapsed: CollapsedNames[];
+};
+
+const MIN_SCORE = 0.6;
+const MAX_CANDIDATES = 3;
+const MAX_SUGGESTIONS = 200;
+
+function firstWord(name: string) {
+  const words = normalizeKey(name).split(" ");
+  return words[0] === "the" && words.length > 1 ? words[1] : words[0];
+}
+
+/**
+ * What the alias editor offers for review, after the current aliases are
+ * applied:
+ * - period-file advertisers with no vertical mapping, largest first, each
+ *   with the mapped names it most resembles (names sharing its first word,
+ *   so the scan stays fast on tens of thousands of names);
+ * - raw spellings in any file that normalizeKey merges into one advertiser,
+ *   which may be different companies, unless an exact entity keeps them apart.
+ */
+export function reviewAliases(dataDir: string, table: AliasTable): AliasReview {
+  const manifest = loadManifest(dataDir);
+  const report = createReportBuilder();
+  const resolve = aliasResolver(table);
+  const keyOf = advertiserKeyer(table.entities);
+  const periodTables = manifest.periods.map((p) => readTable(dataDir, periodMetricsSchema(p), report));
+  const mapping = readTable(dataDir, mappingSchema(manifest.mapping), report);
+
+  // --- mapped names, bucketed by first word ---
+  const verticalsByKey = new Map<string, { name: string; verticals: string[] }>();
+  for (const r of mapping.rows) {
+    const name = resolve(r.advertiser);
+    const key = keyOf(name);
+    const hit = verticalsByKey.get(key) ?? { name, verticals: [] };
+    if (!hit.verticals.includes(r.vertical)) hit.verticals.push(r.vertical);
+    verticalsByKey.set(key, hit);
+  }
+  const buckets = new Map<string, string[]>();
+  for (const [key, { name }] of verticalsByKey) {
+    const w = firstWord(name);
+    if (!buckets.has(w)) buckets.set(w, []);
+    buckets.get(w)!.push(key);
+  }
+
+  // --- unmapped period-file names ---
+  const unmapped = new Map<string, { name: string; impressions: number }>();
+  for (const t of periodTables) {
+    for (const r of t.rows) {
+      const name = resolve(r.advertiser);
+      const key = keyOf(name);
+      if (!key || verticalsByKey.has(key)) continue;
+      const hit = unmapped.get(key) ?? { name, impressions: 0 };
+      hit.impressions += r.impressions;
+      unmapped.set(key, hit);
+    }
+  }
+
+  const dismissed = new Set(table.distinct.map(([a, b]) => [keyOf(a), keyOf(b)].sort().join("\n")));
+  const suggestions: MergeSuggestion[] = [];
+  for (const [key, u] of Array.from(unmapped).sort((a, b) => b[1].impressions - a[1].impressions)) {
+    const candidates = (buckets.get(firstWord(u.name)) ?? [])
+      .filter((k) => !dismissed.has([key, k].sort().join("\n")))
+      .map((k) => ({ ...verticalsByKey.get(k)!, score: nameSimilarity(u.name, verticalsByKey.get(k)!.name) }))
+      .filter((c) => c.score >= MIN_SCORE)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_CANDIDATES);
+    if (candidates.length > 0) suggestions.push({ ...u, candidates });
+    if (suggestions.length >= MAX_SUGGESTIONS) break;
+  }
+
+  // --- spellings merged by normalization ---
+  const namesByKey = new Map<string, Set<string>>();
+  for (const r of [...periodTables.flatMap((t) => t.rows), ...mapping.rows]) {
+    const name = resolve(r.advertiser);
+    const key = keyOf(name);
+    if (!namesByKey.has(key)) namesByKey.set(key, new Set());
+    namesByKey.get(key)!.add(name);
+  }
+  const collapsed = Array.from(namesByKey)
+    .filter(([, names]) => names.size > 1)
+    .map(([key, names]) => ({ key, names: Array.from(names).sort((a, b) => a.localeCompare(b)) }))
+    .sort((a, b) => a.key.localeCompare(b.key));
+
+  return { suggestions, collapsed };
+}
@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { attributedDetail, attributionShares, describeShared, mappedVerticalCounts } from "./attribution";
+import { normalizeKey } from "./normalize";
+import type { MappingRow } from "./schema";
+
+const mapped = (advertiser: string, vertical: string, primary: string | null = null, weight: number | null = null) =>
+  ({ advertiser, vertical, primary, weight, line: 2 }) satisfies MappingRow;
+
+// Acme is mapped to three verticals (twice to Travel), Beta to one.
+const rows = [
+  mapped("Acme Inc", "Travel", null, 1),
+  mapped("ACME", "Home", "yes", 3),
+  mapped("Acme", "Travel", null, 0),
+  mapped("Acme", "Retail"),
+  mapped("Beta", "Retail"),
+];
+
+const sharesOf = (policy: Parameters<typeof attributionShares>[1]) => {
+  const shares = attributionShares(rows, policy, normalizeKey);
+  return Object.fromEntries(Array.from(shares, ([k, m]) => [k, Object.fromEntries(m)]));
+};
+
+describe("attributionShares", () => {
+  it("counts every vertical in full", () => {
+    assert.deepEqual(sharesOf("full"), { acme: { Travel: 1, Home: 1, Retail: 1 }, beta: { Retail: 1 } });
+  });
+
+  it("counts the row marked primary only, or else the first row", () => {
+    assert.deepEqual(sharesOf("primary"), { acme: { Home: 1 }, beta: { Retail: 1 } });
+    const unmarked = attributionShares([mapped("Acme", "Travel"), mapped("Acme", "Home", "no")], "primary", normalizeKey);
+    assert.deepEqual(Object.fromEntries(unmarked.get("acme")!), { Travel: 1 });
+  });
+
+  it("splits evenly across distinct verticals", () => {
+    const acme = sharesOf("equal").acme;
+    assert.deepEqual(Object.keys(acme), ["Travel", "Home", "Retail"]);
+    for (const share of Object.values(acme)) assert.equal(share, 1 / 3);
+  });
+
+  it("splits by summed weights and leaves out verticals with none", () => {
+    assert.deepEqual(sharesOf("weighted"), { acme: { Travel: 0.25, Home: 0.75 }, beta: { Retail: 1 } });
+  });
+
+  it("splits evenly when an advertiser has no weights", () => {
+    const shares = attributionShares([mapped("Acme", "Travel"), mapped("Acme", "Home", null, -2)], "weighted", normalizeKey);
+    assert.deepEqual(Object.fromEntries(shares.get("acme")!), { Travel: 0.5, Home: 0.5 });
+  });
+});
+
+describe("mappedVerticalCounts", () => {
+  it("counts distinct verticals per advertiser key", () => {
+    assert.deepEqual(
+      mappedVerticalCounts(rows, normalizeKey),
+      new Map([
+        ["acme", 3],
+        ["beta", 1],
+      ])
+    );
+  });
+});
+
+describe("attributedDetail", () => {
+  const d = {
+    advertiser: "Acme",
+    base: { impressions: 1000, reach: 100, frequency: 10 },
+    comparison: { impressions: null, reach: null, frequency: null },
+  };
+
+  it("scales impressions and households but not frequency", () => {
+    assert.deepEqual(attributedDetail(d, 0.25), {
+      advertiser: "Acme",
+      base: { impressions: 250, reach: 25, frequency: 10 },
+      comparison: { impressions: null, reach: null, frequency: null },
+    });
+  });
+
+  it("returns a full share as it is", () => {
+    assert.equal(attributedDetail(d, 1), d);
+  });
+});
+
+describe("describeShared", () => {
+  it("words the badge by policy", () => {
+    assert.equal(describeShared({ share: 1, verticals: 3 }, "full").badge, "In 3 verticals");
+    assert.equal(describeShared({ share: 1, verticals: 3 }, "primary").badge, "Primary of 3");
+    assert.equal(describeShared({ share: 0.25, verticals: 2 }, "weighted").badge, "25% shared");
+    assert.equal(describeShared({ share: 0, verticals: 2 }, "primary").badge, "Not counted");
+  });
+});
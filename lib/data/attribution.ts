@@ -0,0 +1,135 @@
+import type { AdvertiserKey } from "./normalize";
+import type { MappingRow } from "./schema";
+import type { AdvertiserDetailDatum, PeriodMetrics } from "./types";
+
+// How an advertiser mapped to several verticals is counted in each
+// (manifest `attribution`):
+// - full: in full in every vertical, so vertical totals can add up to more
+//   than the overall total;
+// - primary: in one vertical only, the mapping row marked primary or else its
+//   first row in the file;
+// - equal: split evenly across its verticals;
+// - weighted: split by the mapping file's weight column, evenly when an
+//   advertiser has no weights.
+// Under the three splitting policies the verticals add up to the mapped
+// advertisers' total.
+
+export const ATTRIBUTION_POLICIES = ["full", "primary", "equal", "weighted"] as const;
+
+export type AttributionPolicy = (typeof ATTRIBUTION_POLICIES)[number];
+
+export const DEFAULT_ATTRIBUTION: AttributionPolicy = "full";
+
+export const ATTRIBUTION_LABELS: Record<AttributionPolicy, string> = {
+  full: "counted in full in every vertical",
+  primary: "counted in the primary vertical only",
+  equal: "split equally across the verticals",
+  weighted: "split by the mapping file's weights",
+};
+
+// An advertiser's place among its verticals, when it is mapped to more than one.
+export type SharedAttribution = {
+  // fraction of its impressions counted in this vertical
+  share: number;
+  // distinct verticals it is mapped to
+  verticals: number;
+};
+
+const PRIMARY_VALUES = new Set(["1", "y", "yes", "true", "x", "primary"]);
+
+function isPrimary(row: MappingRow) {
+  return row.primary !== null && PRIMARY_VALUES.has(row.primary.toLowerCase());
+}
+
+/**
+ * Each advertiser key's verticals, in mapping file order, with the
+ * fraction of its impressions counted in each. Verticals an advertiser gets
+ * no share of (the non-primary ones, or a weight of 0) are left out.
+ */
+export function attributionShares(
+  mappingRows: MappingRow[],
+  policy: AttributionPolicy,
+  keyOf: AdvertiserKey
+): Map<string, Map<string, number>> {
+  const rowsByKey = new Map<string, MappingRow[]>();
+  for (const r of mappingRows) {
+    const k = keyOf(r.advertiser);
+    if (!rowsByKey.has(k)) rowsByKey.set(k, []);
+    rowsByKey.get(k)!.push(r);
+  }
+
+  const out = new Map<string, Map<string, number>>();
+  for (const [k, rows] of rowsByKey) {
+    const verticals = Array.from(new Set(rows.map((r) => r.vertical)));
+    const shares = new Map<string, number>();
+
+    if (policy === "full") {
+      for (const v of verticals) shares.set(v, 1);
+    } else if (policy === "primary") {
+      shares.set((rows.find(isPrimary) ?? rows[0]).vertical, 1);
+    } else {
+      const weights = new Map(verticals.map((v) => [v, 0]));
+      if (policy === "weighted") {
+        for (const r of rows) weights.set(r.vertical, weights.get(r.vertical)! + Math.max(r.weight ?? 0, 0));
+      }
+      const total = Array.from(weights.values()).reduce((acc, w) => acc + w, 0);
+      for (const [v, w] of weights) {
+        const share = total > 0 ? w / total : 1 / verticals.length;
+        if (share > 0) shares.set(v, share);
+      }
+    }
+    out.set(k, shares);
+  }
+  return out;
+}
+
+// Distinct verticals per advertiser key, whatever the policy.
+export function mappedVerticalCounts(mappingRows: MappingRow[], keyOf: AdvertiserKey): Map<string, number> {
+  const seen = new Map<string, Set<string>>();
+  for (const r of mappingRows) {
+    const k = keyOf(r.advertiser);
+    if (!seen.has(k)) seen.set(k, new Set());
+    seen.get(k)!.add(r.vertical);
+  }
+  return new Map(Array.from(seen, ([k, vs]) => [k, vs.size]));
+}
+
+function scalePeriod(p: PeriodMetrics | null, share: number): PeriodMetrics | null {
+  if (!p) return null;
+  return {
+    impressions: p.impressions === null ? null : p.impressions * share,
+    reach: p.reach === null ? null : p.reach * share,
+    frequency: p.frequency,
+  };
+}
+
+/**
+ * An advertiser's details as attributed to one vertical: impressions and
+ * households scaled by its share there, frequency (their ratio) unchanged.
+ */
+export function attributedDetail(d: AdvertiserDetailDatum, share: number): AdvertiserDetailDatum {
+  if (share === 1) return d;
+  return { ...d, base: scalePeriod(d.base, share), comparison: scalePeriod(d.comparison, share) };
+}
+
+// Short badge text and a sentence for its tooltip.
+export function describeShared(shared: SharedAttribution, policy: AttributionPolicy): { badge: string; title: string } {
+  const n = shared.verticals;
+  if (shared.share === 0) {
+    return {
+      badge: "Not counted",
+      title: `Mapped to ${n} verticals; none of its impressions are counted here (${ATTRIBUTION_LABELS[policy]}).`,
+    };
+  }
+  if (policy === "full") {
+    return { badge: `In ${n} verticals`, title: `Mapped to ${n} verticals and counted in full in each.` };
+  }
+  if (policy === "primary") {
+    return { badge: `Primary of ${n}`, title: `Mapped to ${n} verticals and counted only in this one, its primary vertical.` };
+  }
+  const pct = `${Math.round(shared.share * 100)}%`;
+  return {
+    badge: `${pct} shared`,
+    title: `Mapped to ${n} verticals; ${pct} of its impressions are counted here (${ATTRIBUTION_LABELS[policy]}).`,
+  };
+}
@@ -0,0 +1,147 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { ALIASES_FILE } from "./aliases";
+import { analyzeCohorts, type CohortAnalysis } from "./cohorts";
+import { analyzeContribution, type ContributionAnalysis } from "./contribution";
+import { analyzeDecomposition, type DecompositionAnalysis } from "./decomposition";
+import { DEFAULT_DATA_DIR, loadDataset, type Dataset, type LoadedDataset, type LoadOptions } from "./load";
+import { loadManifest, MANIFEST_FILE, resolvePeriodPair, verticalChangeSource } from "./manifest";
+import { createMemo, dataCacheEnabled, fileHash } from "./memo";
+import { buildQualityReport, type QualityReport } from "./quality";
+
+// A period pair's dataset is compiled once per version of the files it reads:
+// loadDataset's result and the analyses the dashboard draws from it are
+// written to a JSON snapshot in data/.cache/ and kept in memory. The source
+// rows are left out; what reads them (the analyses and the data-quality
+// report) is computed before the snapshot is written. A request
+// hashes the files (see memo.ts) and, when nothing changed, gets the
+// in-memory copy; a fresh server process reads the snapshot rather than
+// parsing the CSVs. The default pair is compiled at startup
+// (instrumentation.ts).
+
+export const CACHE_DIR = ".cache";
+
+// Bump when Dataset or the analyses change shape, so older snapshots are rebuilt.
+const SNAPSHOT_VERSION = 7;
+
+// period pairs kept in memory; each holds every advertiser of two periods
+const MAX_DATASETS = 4;
+
+export type DatasetAnalyses = {
+  contribution: ContributionAnalysis;
+  cohorts: CohortAnalysis;
+  decomposition: DecompositionAnalysis;
+  quality: QualityReport;
+};
+
+type Snapshot = {
+  version: number;
+  dataset: Dataset;
+  analyses: DatasetAnalyses;
+};
+
+const compiled = createMemo<Snapshot>(MAX_DATASETS);
+const analysesByDataset = new WeakMap<Dataset, DatasetAnalyses>();
+
+function analyze(dataset: LoadedDataset): DatasetAnalyses {
+  return {
+    contribution: analyzeContribution(dataset),
+    cohorts: analyzeCohorts(dataset),
+    decomposition: analyzeDecomposition(dataset),
+    quality: buildQualityReport(dataset),
+  };
+}
+
+// The dataset without its source rows, as the snapshot stores it.
+function withoutTables(loaded: LoadedDataset): Dataset {
+  const dataset: Dataset & { tables?: unknown } = { ...loaded };
+  delete dataset.tables;
+  return dataset;
+}
+
+// The snapshot's file name: the pair, then a hash of every file loadDataset reads for it.
+function snapshotName(dataDir: string, options: LoadOptions): { pair: string; name: string } {
+  const manifest = loadManifest(dataDir);
+  const periods = resolvePeriodPair(manifest, options.base, options.comparison);
+  const files = [
+    MANIFEST_FILE,
+    ALIASES_FILE,
+    manifest.mapping,
+    manifest.parents,
+    periods.base.file,
+    periods.comparison.file,
+    verticalChangeSource(manifest, periods)?.file,
+  ].filter((f) => f !== null && f !== undefined);
+
+  const hash = crypto.createHash("sha256").update(String(SNAPSHOT_VERSION));
+  for (const f of files) {
+    const file = path.join(dataDir, f);
+    hash.update(`\n${f}:${fs.existsSync(file) ? fileHash(file) : "-"}`);
+  }
+  const pair = `${periods.base.id}_${periods.comparison.id}`.replace(/[^\w.-]/g, "_");
+  return { pair, name: `${pair}.${hash.digest("hex").slice(0, 24)}.json` };
+}
+
+function readSnapshot(file: string): Snapshot | null {
+  if (!fs.existsSync(file)) return null;
+  try {
+    const snapshot = JSON.parse(fs.readFileSync(file, "utf-8")) as Snapshot;
+    return snapshot.version === SNAPSHOT_VERSION ? snapshot : null;
+  } catch {
+    return null;
+  }
+}
+
+// Best effort: a read-only data directory only costs the next process a recompile.
+function writeSnapshot(dir: string, pair: string, name: string, snapshot: Snapshot) {
+  try {
+    fs.mkdirSync(dir, { recursive: true });
+    const tmp = path.join(dir, `${name}.${process.pid}.tmp`);
+    fs.writeFileSync(tmp, JSON.stringify(snapshot));
+    fs.renameSync(tmp, path.join(dir, name));
+    for (const f of fs.readdirSync(dir)) {
+      if (f.startsWith(`${pair}.`) && f !== name) fs.rmSync(path.join(dir, f), { force: true });
+    }
+  } catch (err) {
+    console.warn(`[data] could not write the data snapshot: ${(err as Error).message}`);
+  }
+}
+
+/**
+ * loadDataset through the caches: from memory when the files are unchanged,
+ * else from the snapshot on disk, else compiled from the CSVs and snapshotted.
+ * With DATA_CACHE=off it is loadDataset, analyzed on every call. Callers must
+ * not modify the result.
+ */
+export function loadCachedDataset(dataDir: string = DEFAULT_DATA_DIR, options: LoadOptions = {}): Dataset {
+  if (!dataCacheEnabled()) {
+    const loaded = loadDataset(dataDir, options);
+    analysesByDataset.set(loaded, analyze(loaded));
+    return loaded;
+  }
+
+  const { pair, name } = snapshotName(dataDir, options);
+  const key = `${path.resolve(dataDir)}\u0000${name}`;
+  let snapshot = compiled.get(key);
+  if (!snapshot) {
+    const dir = path.join(dataDir, CACHE_DIR);
+    snapshot = readSnapshot(path.join(dir, name)) ?? undefined;
+    if (!snapshot) {
+      const loaded = loadDataset(dataDir, options);
+      snapshot = { version: SNAPSHOT_VERSION, dataset: withoutTables(loaded), analyses: analyze(loaded) };
+      writeSnapshot(dir, pair, name, snapshot);
+    }
+    compiled.set(key, snapshot);
+    analysesByDataset.set(snapshot.dataset, snapshot.analyses);
+  }
+  return snapshot.dataset;
+}
+
+// The contribution, cohort and decomposition analyses and the data-quality
+// report of a dataset from loadCachedDataset, computed when it was compiled.
+export function analysesFor(dataset: Dataset): DatasetAnalyses {
+  const analyses = analysesByDataset.get(dataset);
+  if (!analyses) throw new Error("analysesFor: the dataset was not loaded with loadCachedDataset");
+  return analyses;
+}
@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { cohortOf, COHORTS, filterCohort, inCohort, totalFor, type CohortTotals } from "./cohorts";
+import type { AdvertiserDetailDatum } from "./types";
+
+const detail = (advertiser: string, base: number | null, comparison: number | null): AdvertiserDetailDatum => ({
+  advertiser,
+  base: base === null ? null : { impressions: base, reach: null, frequency: null },
+  comparison: comparison === null ? null : { impressions: comparison, reach: null, frequency: null },
+});
+
+const details = {
+  New: detail("New", null, 100),
+  Lapsed: detail("Lapsed", 100, null),
+  Up: detail("Up", 100, 150),
+  Flat: detail("Flat", 100, 100),
+  Down: detail("Down", 100, 50),
+};
+
+describe("cohortOf", () => {
+  it("classifies by the periods an advertiser has rows in, then by direction", () => {
+    assert.deepEqual(
+      Object.values(details).map(cohortOf),
+      ["new", "lapsed", "growing", "growing", "shrinking"]
+    );
+  });
+
+  it("treats missing impressions as zero", () => {
+    const d: AdvertiserDetailDatum = {
+      advertiser: "Blank",
+      base: { impressions: null, reach: 10, frequency: null },
+      comparison: { impressions: 5, reach: null, frequency: null },
+    };
+    assert.equal(cohortOf(d), "growing");
+  });
+});
+
+describe("inCohort and filterCohort", () => {
+  it("counts growing and shrinking as continuing", () => {
+    assert.ok(inCohort(details.Up, "continuing"));
+    assert.ok(inCohort(details.Down, "continuing"));
+    assert.ok(!inCohort(details.New, "continuing"));
+    assert.ok(inCohort(details.Lapsed, "all"));
+  });
+
+  it("keeps the listed advertisers in the cohort and drops those without details", () => {
+    const list = [{ advertiser: "Up" }, { advertiser: "New" }, { advertiser: "Down" }, { advertiser: "Unknown" }];
+    assert.deepEqual(
+      filterCohort(list, details, "continuing").map((a) => a.advertiser),
+      ["Up", "Down"]
+    );
+    assert.equal(filterCohort(list, details, "all"), list);
+  });
+});
+
+describe("totalFor", () => {
+  const total = (count: number, base: number, comparison: number) => ({
+    count,
+    base_impressions: base,
+    comparison_impressions: comparison,
+    delta: comparison - base,
+  });
+  const totals: CohortTotals = {
+    new: total(1, 0, 100),
+    lapsed: total(1, 100, 0),
+    growing: total(2, 200, 250),
+    shrinking: total(1, 100, 50),
+  };
+
+  it("sums the cohorts a filter covers", () => {
+    assert.deepEqual(totalFor(totals, "continuing"), total(3, 300, 300));
+    assert.deepEqual(totalFor(totals, "new"), totals.new);
+    assert.deepEqual(totalFor(totals, "all"), total(5, 400, 400));
+  });
+
+  it("has a cohort for every filter but all and continuing", () => {
+    assert.deepEqual(COHORTS, ["new", "lapsed", "growing", "shrinking"]);
+  });
+});
@@ -0,0 +1,120 @@
+import { verticalMembers } from "./aggregate";
+import { advertiserIndex } from "./advertisers";
+import { attributedDetail } from "./attribution";
+import type { LoadedDataset } from "./load";
+import { advertiserKeyer } from "./normalize";
+import type { AdvertiserDetailDatum } from "./types";
+
+export const COHORTS = ["new", "lapsed", "growing", "shrinking"] as const;
+export type Cohort = (typeof COHORTS)[number];
+
+// "continuing" is growing and shrinking together.
+export const COHORT_FILTERS = ["all", "new", "lapsed", "continuing", "growing", "shrinking"] as const;
+export type CohortFilter = (typeof COHORT_FILTERS)[number];
+
+export const COHORT_LABELS: Record<CohortFilter, string> = {
+  all: "All",
+  new: "New",
+  lapsed: "Lapsed",
+  continuing: "Continuing",
+  growing: "Growing",
+  shrinking: "Shrinking",
+};
+
+/**
+ * New advertisers have no base-period row, lapsed ones no comparison-period
+ * row; the rest are continuing, split by the direction of their impressions
+ * (flat counts as growing).
+ */
+export function cohortOf(d: AdvertiserDetailDatum): Cohort {
+  if (!d.base) return "new";
+  if (!d.comparison) return "lapsed";
+  return (d.comparison.impressions ?? 0) >= (d.base.impressions ?? 0) ? "growing" : "shrinking";
+}
+
+function cohortMatches(c: Cohort, filter: CohortFilter): boolean {
+  if (filter === "all") return true;
+  if (filter === "continuing") return c === "growing" || c === "shrinking";
+  return c === filter;
+}
+
+export function inCohort(d: AdvertiserDetailDatum, filter: CohortFilter): boolean {
+  return cohortMatches(cohortOf(d), filter);
+}
+
+// Keeps the advertisers in `list` that belong to the cohort.
+export function filterCohort<T extends { advertiser: string }>(
+  list: T[],
+  details: Record<string, AdvertiserDetailDatum>,
+  filter: CohortFilter
+): T[] {
+  if (filter === "all") return list;
+  return list.filter((a) => details[a.advertiser] && inCohort(details[a.advertiser], filter));
+}
+
+export type CohortTotal = {
+  count: number;
+  base_impressions: number;
+  comparison_impressions: number;
+  delta: number;
+};
+
+export type CohortTotals = Record<Cohort, CohortTotal>;
+
+export type CohortAnalysis = {
+  // every advertiser in either period, counted once
+  overall: CohortTotals;
+  // charted verticals only; multi-vertical advertisers count as the
+  // attribution policy says
+  verticals: Record<string, CohortTotals>;
+};
+
+function emptyTotals(): CohortTotals {
+  const zero = () => ({ count: 0, base_impressions: 0, comparison_impressions: 0, delta: 0 });
+  return { new: zero(), lapsed: zero(), growing: zero(), shrinking: zero() };
+}
+
+function addTo(totals: CohortTotals, d: AdvertiserDetailDatum) {
+  const t = totals[cohortOf(d)];
+  const base = d.base?.impressions ?? 0;
+  const comparison = d.comparison?.impressions ?? 0;
+  t.count += 1;
+  t.base_impressions += base;
+  t.comparison_impressions += comparison;
+  t.delta += comparison - base;
+}
+
+// Sums the cohorts a filter covers.
+export function totalFor(totals: CohortTotals, filter: CohortFilter): CohortTotal {
+  const out = { count: 0, base_impressions: 0, comparison_impressions: 0, delta: 0 };
+  for (const c of COHORTS) {
+    if (!cohortMatches(c, filter)) continue;
+    out.count += totals[c].count;
+    out.base_impressions += totals[c].base_impressions;
+    out.comparison_impressions += totals[c].comparison_impressions;
+    out.delta += totals[c].delta;
+  }
+  return out;
+}
+
+export function analyzeCohorts(dataset: LoadedDataset): CohortAnalysis {
+  const index = advertiserIndex(dataset);
+
+  const overall = emptyTotals();
+  for (const d of index.values()) addTo(overall, d);
+
+  const members = verticalMembers(
+    dataset.tables.mapping.rows,
+    (k) => index.has(k),
+    dataset.attribution,
+    advertiserKeyer(dataset.aliases.entities)
+  );
+  const verticals: Record<string, CohortTotals> = {};
+  for (const v of dataset.verticals) {
+    const totals = emptyTotals();
+    for (const [k, share] of members.get(v.vertical) ?? []) addTo(totals, attributedDetail(index.get(k)!, share));
+    verticals[v.vertical] = totals;
+  }
+
+  return { overall, verticals };
+}
@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { concentrationOf, impressionHistogram } from "./concentration";
+
+describe("concentrationOf", () => {
+  it("gives one advertiser the whole market", () => {
+    assert.deepEqual(concentrationOf([500, 0]), { advertisers: 1, impressions: 500, top5SharePct: 100, hhi: 10_000 });
+  });
+
+  it("sums squared % shares and takes the five largest", () => {
+    const c = concentrationOf([10, 10, 10, 10, 10, 10, 10, 10, 10, 10]);
+    assert.equal(c.advertisers, 10);
+    assert.equal(c.impressions, 100);
+    assert.equal(c.top5SharePct, 50);
+    assert.ok(Math.abs(c.hhi! - 1000) < 1e-9);
+
+    const skewed = concentrationOf([1, 60, 1, 30, 1, 7]);
+    assert.equal(skewed.top5SharePct, 99);
+    assert.ok(Math.abs(skewed.hhi! - (60 ** 2 + 30 ** 2 + 7 ** 2 + 3)) < 1e-9);
+  });
+
+  it("has no shares without impressions", () => {
+    assert.deepEqual(concentrationOf([]), { advertisers: 0, impressions: 0, top5SharePct: null, hhi: null });
+    assert.deepEqual(concentrationOf([0, -5]), { advertisers: 0, impressions: 0, top5SharePct: null, hhi: null });
+  });
+});
+
+describe("impressionHistogram", () => {
+  it("bins both periods by power of ten, from the smallest value to the largest", () => {
+    assert.deepEqual(impressionHistogram([5e6, 2e7, 0], [1e6, 9.9e8]), [
+      { lo: 1e6, hi: 1e7, base: 1, comparison: 1 },
+      { lo: 1e7, hi: 1e8, base: 1, comparison: 0 },
+      { lo: 1e8, hi: 1e9, base: 0, comparison: 1 },
+    ]);
+  });
+
+  it("puts a power of ten in the bin it opens", () => {
+    const bins = impressionHistogram([1000, 999], [10_000]);
+    assert.deepEqual(
+      bins.map((b) => [b.lo, b.base, b.comparison]),
+      [
+        [100, 1, 0],
+        [1000, 1, 0],
+        [10_000, 0, 1],
+      ]
+    );
+  });
+
+  it("is empty when neither period has impressions", () => {
+    assert.deepEqual(impressionHistogram([0], []), []);
+  });
+});
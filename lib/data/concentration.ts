@@ -0,0 +1,66 @@
+import { advertisersInVertical } from "./advertisers";
+import type { Dataset } from "./load";
+
+export type Concentration = {
+  // advertisers with impressions in the period
+  advertisers: number;
+  impressions: number;
+  // the five largest advertisers' share of the impressions, in %
+  top5SharePct: number | null;
+  // Herfindahl-Hirschman index over impression shares in %: 10,000 for a
+  // single advertiser, approaching 0 as impressions spread out
+  hhi: number | null;
+};
+
+export type HistogramBin = {
+  // impressions range, [lo, hi)
+  lo: number;
+  hi: number;
+  // advertisers whose impressions fall in the range, per period
+  base: number;
+  comparison: number;
+};
+
+export function concentrationOf(impressions: number[]): Concentration {
+  const active = impressions.filter((n) => n > 0).sort((a, b) => b - a);
+  const total = active.reduce((acc, n) => acc + n, 0);
+  if (total <= 0) return { advertisers: 0, impressions: 0, top5SharePct: null, hhi: null };
+  const top5 = active.slice(0, 5).reduce((acc, n) => acc + n, 0);
+  const hhi = active.reduce((acc, n) => acc + ((n / total) * 100) ** 2, 0);
+  return { advertisers: active.length, impressions: total, top5SharePct: (top5 / total) * 100, hhi };
+}
+
+/**
+ * Each advertiser's impressions in a vertical, per period, attributed as in
+ * the vertical rollup so the stats add up to the vertical's totals.
+ * Advertisers without impressions in a period are 0.
+ */
+export function verticalImpressions(dataset: Dataset, vertical: string): { base: number[]; comparison: number[] } {
+  const rows = advertisersInVertical(dataset, vertical);
+  return {
+    base: rows.map((r) => r.base?.impressions ?? 0),
+    comparison: rows.map((r) => r.comparison?.impressions ?? 0),
+  };
+}
+
+/**
+ * Counts advertisers by impressions in each period, in power-of-ten bins
+ * (1MM-10MM, 10MM-100MM, ...) spanning the smallest to the largest value.
+ * Advertisers without impressions in a period are left out of its counts.
+ */
+export function impressionHistogram(baseImpressions: number[], comparisonImpressions: number[]): HistogramBin[] {
+  const base = baseImpressions.filter((n) => n > 0);
+  const comparison = comparisonImpressions.filter((n) => n > 0);
+  const all = [...base, ...comparison];
+  if (all.length === 0) return [];
+
+  const lo = Math.floor(Math.log10(Math.min(...all)));
+  const hi = Math.floor(Math.log10(Math.max(...all)));
+  const bins: HistogramBin[] = [];
+  for (let e = lo; e <= hi; e++) bins.push({ lo: 10 ** e, hi: 10 ** (e + 1), base: 0, comparison: 0 });
+
+  const binOf = (n: number) => Math.min(Math.max(Math.floor(Math.log10(n)) - lo, 0), bins.length - 1);
+  for (const n of base) bins[binOf(n)].base++;
+  for (const n of comparison) bins[binOf(n)].comparison++;
+  return bins;
+}
@@ -0,0 +1,141 @@
+import { sumImpressionsByKey, verticalMembers } from "./aggregate";
+import type { AttributionPolicy } from "./attribution";
+import type { LoadedDataset } from "./load";
+import { advertiserKeyer } from "./normalize";
+
+export type VerticalContribution = {
+  vertical: string;
+  base_impressions: number;
+  comparison_impressions: number;
+  delta: number;
+  // delta as a share of |overall delta|, in percent; null when overall delta is 0
+  share_of_change: number | null;
+  // percentage points this vertical adds to the overall % change
+  contribution_pp: number | null;
+};
+
+export type AdvertiserContribution = {
+  advertiser: string;
+  base_impressions: number;
+  comparison_impressions: number;
+  delta: number;
+  // delta as a share of |vertical delta|, in percent; null when vertical delta is 0
+  share_of_vertical_change: number | null;
+};
+
+export type VerticalAdvertiserContributions = {
+  top: AdvertiserContribution[];
+  // every advertiser outside `top`, combined; null when there are none
+  other: AdvertiserContribution | null;
+};
+
+export type ContributionAnalysis = {
+  overall: { base_impressions: number; comparison_impressions: number; delta: number };
+  // sorted by |delta|, largest first
+  verticals: VerticalContribution[];
+  // overall delta not explained by the listed verticals: unmapped
+  // advertisers, verticals left off the chart and, under full attribution,
+  // advertisers counted in several verticals
+  residual: number;
+  attribution: AttributionPolicy;
+  advertisersByVertical: Record<string, VerticalAdvertiserContributions>;
+};
+
+const TOP_CONTRIBUTORS_PER_VERTICAL = 10;
+
+function shareOf(part: number, whole: number): number | null {
+  return whole === 0 ? null : (part / Math.abs(whole)) * 100;
+}
+
+export function rankByContribution(verticals: VerticalContribution[], direction: "positive" | "negative") {
+  return verticals
+    .filter((v) => (direction === "positive" ? v.delta > 0 : v.delta < 0))
+    .sort((a, b) => (direction === "positive" ? b.delta - a.delta : a.delta - b.delta));
+}
+
+/**
+ * Splits the overall impression change into per-vertical contributions, and
+ * each vertical's change into per-advertiser contributions. Only verticals
+ * shown on the chart (`dataset.verticals`) are listed.
+ */
+export function analyzeContribution(
+  dataset: LoadedDataset,
+  topPerVertical: number = TOP_CONTRIBUTORS_PER_VERTICAL
+): ContributionAnalysis {
+  const { rollup, tables } = dataset;
+  const overallBase = rollup.overall.base_impressions;
+  const overallDelta = rollup.overall.comparison_impressions - overallBase;
+  const shown = new Set(dataset.verticals.map((v) => v.vertical));
+
+  const verticals: VerticalContribution[] = rollup.verticals
+    .filter((v) => shown.has(v.vertical))
+    .map((v) => {
+      const delta = v.comparison_impressions - v.base_impressions;
+      return {
+        vertical: v.vertical,
+        base_impressions: v.base_impressions,
+        comparison_impressions: v.comparison_impressions,
+        delta,
+        share_of_change: shareOf(delta, overallDelta),
+        contribution_pp: overallBase === 0 ? null : (delta / overallBase) * 100,
+      };
+    })
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+
+  const residual = overallDelta - verticals.reduce((acc, v) => acc + v.delta, 0);
+
+  // --- advertiser contributions within each vertical ---
+  const keyOf = advertiserKeyer(dataset.aliases.entities);
+  const baseByKey = sumImpressionsByKey(tables.base.rows, keyOf);
+  const compByKey = sumImpressionsByKey(tables.comparison.rows, keyOf);
+  const nameByKey = new Map<string, string>();
+  for (const r of [...tables.base.rows, ...tables.comparison.rows]) nameByKey.set(keyOf(r.advertiser), r.advertiser);
+
+  const members = verticalMembers(
+    tables.mapping.rows,
+    (k) => baseByKey.has(k) || compByKey.has(k),
+    dataset.attribution,
+    keyOf
+  );
+  const advertisersByVertical: Record<string, VerticalAdvertiserContributions> = {};
+  for (const v of verticals) {
+    const vDelta = v.delta;
+    const all = Array.from(members.get(v.vertical) ?? [])
+      .map(([k, share]) => {
+        const base = (baseByKey.get(k) ?? 0) * share;
+        const comparison = (compByKey.get(k) ?? 0) * share;
+        return {
+          advertiser: nameByKey.get(k) ?? k,
+          base_impressions: base,
+          comparison_impressions: comparison,
+          delta: comparison - base,
+          share_of_vertical_change: shareOf(comparison - base, vDelta),
+        };
+      })
+      .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+
+    const top = all.slice(0, topPerVertical);
+    const rest = all.slice(topPerVertical);
+    let other: AdvertiserContribution | null = null;
+    if (rest.length > 0) {
+      const base = rest.reduce((acc, a) => acc + a.base_impressions, 0);
+      const comparison = rest.reduce((acc, a) => acc + a.comparison_impressions, 0);
+      other = {
+        advertiser: `${rest.length.toLocaleString("en-US")} other advertisers`,
+        base_impressions: base,
+        comparison_impressions: comparison,
+        delta: comparison - base,
+        share_of_vertical_change: shareOf(comparison - base, vDelta),
+      };
+    }
+    advertisersByVertical[v.vertical] = { top, other };
+  }
+
+  return {
+    overall: { base_impressions: overallBase, comparison_impressions: rollup.overall.comparison_impressions, delta: overallDelta },
+    verticals,
+    residual,
+    attribution: dataset.attribution,
+    advertisersByVertical,
+  };
+}
@@ -0,0 +1,102 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { decompose, decomposeGroup, describeDecomposition } from "./decomposition";
+import type { AdvertiserDetailDatum, PeriodMetrics } from "./types";
+
+const period = (impressions: number, reach: number | null): PeriodMetrics => ({
+  impressions,
+  reach,
+  frequency: reach ? impressions / reach : null,
+});
+
+const detail = (advertiser: string, base: PeriodMetrics | null, comparison: PeriodMetrics | null): AdvertiserDetailDatum => ({
+  advertiser,
+  base,
+  comparison,
+});
+
+const close = (a: number, b: number) => assert.ok(Math.abs(a - b) < 1e-6, `${a} is not ${b}`);
+
+describe("decompose", () => {
+  it("splits the change into reach and frequency effects that add up to it", () => {
+    const d = decompose({ impressions: 1000, reach: 100 }, { impressions: 1800, reach: 120 })!;
+    assert.equal(d.kind, "both");
+    assert.equal(d.delta, 800);
+    // frequency 10 -> 15
+    close(d.reach_effect, 20 * 12.5);
+    close(d.frequency_effect, 5 * 110);
+    close(d.reach_effect + d.frequency_effect, d.delta);
+    assert.equal(d.no_reach_effect, 0);
+  });
+
+  it("counts entry and exit entirely as reach", () => {
+    const entry = decompose(null, { impressions: 500, reach: 50 })!;
+    assert.equal(entry.kind, "entry");
+    assert.equal(entry.reach_effect, 500);
+    const exit = decompose({ impressions: 500, reach: 50 }, null)!;
+    assert.equal(exit.kind, "exit");
+    assert.equal(exit.reach_effect, -500);
+    assert.equal(decompose(null, null), null);
+  });
+});
+
+describe("decomposeGroup", () => {
+  it("sums reach across advertisers", () => {
+    const d = decomposeGroup([
+      detail("A", period(1000, 100), period(1200, 100)),
+      detail("B", null, period(300, 30)),
+    ])!;
+    assert.equal(d.base_reach, 100);
+    assert.equal(d.comparison_reach, 130);
+    assert.equal(d.delta, 500);
+    close(d.reach_effect + d.frequency_effect, 500);
+  });
+
+  it("puts advertisers without household data in their own effect, over the group's totals", () => {
+    const d = decomposeGroup([
+      detail("A", period(1000, 100), period(900, 100)),
+      detail("B", period(200, null), period(500, null)),
+      detail("C", null, period(50, null)),
+    ])!;
+    assert.equal(d.base_impressions, 1200);
+    assert.equal(d.comparison_impressions, 1450);
+    assert.equal(d.delta, 250);
+    close(d.reach_effect + d.frequency_effect, -100);
+    close(d.no_reach_effect, 350);
+    // households of the advertisers with household data only
+    assert.equal(d.base_reach, 100);
+  });
+
+  it("is null when no advertiser has household data", () => {
+    assert.equal(decomposeGroup([detail("B", period(200, null), period(500, null))]), null);
+    assert.equal(decomposeGroup([]), null);
+  });
+});
+
+describe("describeDecomposition", () => {
+  it("names the effect pulling the same way as the change", () => {
+    const d = decompose({ impressions: 1000, reach: 100 }, { impressions: 1050, reach: 70 })!;
+    assert.equal(
+      describeDecomposition(d),
+      "Growth was driven mostly by frequency: households reached fell 30.0% and impressions per household rose 50.0%."
+    );
+  });
+
+  it("gives the part of advertisers without household data in points of the change", () => {
+    const d = decomposeGroup([
+      detail("A", period(1000, 100), period(900, 100)),
+      detail("B", period(200, null), period(500, null)),
+    ])!;
+    assert.equal(
+      describeDecomposition(d),
+      "Growth was driven mostly by advertisers without household data: households reached rose 0.0% and impressions " +
+        "per household fell 10.0% among advertisers with household data. Advertisers without household data, whose " +
+        "change cannot be split, account for +25.0 points of the +16.7% change."
+    );
+  });
+
+  it("describes entry and exit", () => {
+    assert.match(describeDecomposition(decompose(null, { impressions: 5, reach: 1 })!), /no activity in the base period/);
+    assert.match(describeDecomposition(decompose({ impressions: 5, reach: 1 }, null)!), /no activity in the comparison/);
+  });
+});
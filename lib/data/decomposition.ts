@@ -0,0 +1,200 @@
+import { verticalMembers } from "./aggregate";
+import { advertiserIndex } from "./advertisers";
+import { attributedDetail } from "./attribution";
+import type { LoadedDataset } from "./load";
+import { advertiserKeyer } from "./normalize";
+import type { AdvertiserDetailDatum, PeriodMetrics } from "./types";
+
+type PeriodReach = { impressions: number; reach: number };
+
+export type Decomposition = {
+  // "entry"/"exit": active in only the comparison/base period, so the whole
+  // change is reach
+  kind: "both" | "entry" | "exit";
+  base_impressions: number;
+  comparison_impressions: number;
+  // reach_effect + frequency_effect + no_reach_effect
+  delta: number;
+  // households, and impressions per household (null for a period with no
+  // activity), of the advertisers with household data
+  base_reach: number;
+  comparison_reach: number;
+  base_frequency: number | null;
+  comparison_frequency: number | null;
+  reach_effect: number;
+  frequency_effect: number;
+  // the change of a group's advertisers without household data in a period
+  // they were active in, which cannot be split; 0 for one advertiser
+  no_reach_effect: number;
+};
+
+export type DecompositionAnalysis = {
+  overall: Decomposition | null;
+  verticals: Record<string, Decomposition | null>;
+};
+
+/**
+ * Splits an impression change into a reach effect and a frequency effect,
+ * with impressions = reach × frequency and frequency taken as impressions per
+ * household (so the identity is exact). Each effect is valued at the midpoint
+ * of the other factor:
+ *
+ *   reach effect     = (R1 − R0) × (F0 + F1) / 2
+ *   frequency effect = (F1 − F0) × (R0 + R1) / 2
+ *
+ * which add up to I1 − I0 with no residual.
+ */
+export function decompose(base: PeriodReach | null, comparison: PeriodReach | null): Decomposition | null {
+  if (!base && !comparison) return null;
+  const i0 = base?.impressions ?? 0;
+  const i1 = comparison?.impressions ?? 0;
+  const r0 = base?.reach ?? 0;
+  const r1 = comparison?.reach ?? 0;
+  const f0 = base && r0 > 0 ? i0 / r0 : null;
+  const f1 = comparison && r1 > 0 ? i1 / r1 : null;
+  const out = {
+    base_impressions: i0,
+    comparison_impressions: i1,
+    delta: i1 - i0,
+    base_reach: r0,
+    comparison_reach: r1,
+    base_frequency: f0,
+    comparison_frequency: f1,
+  };
+
+  if (f0 === null || f1 === null) {
+    const kind = f0 === null ? "entry" : "exit";
+    return { ...out, kind, reach_effect: i1 - i0, frequency_effect: 0, no_reach_effect: 0 };
+  }
+  return {
+    ...out,
+    kind: "both",
+    reach_effect: ((r1 - r0) * (f0 + f1)) / 2,
+    frequency_effect: ((f1 - f0) * (r0 + r1)) / 2,
+    no_reach_effect: 0,
+  };
+}
+
+function reachOf(m: PeriodMetrics | null): PeriodReach | null | undefined {
+  if (!m) return null;
+  if (m.impressions === null || m.reach === null) return undefined;
+  return { impressions: m.impressions, reach: m.reach };
+}
+
+// Null when a period the advertiser was active in has no reach value.
+export function decomposeAdvertiser(d: AdvertiserDetailDatum): Decomposition | null {
+  const base = reachOf(d.base);
+  const comparison = reachOf(d.comparison);
+  if (base === undefined || comparison === undefined) return null;
+  return decompose(base, comparison);
+}
+
+/**
+ * Decomposes a group of advertisers (a vertical, or everyone) over the same
+ * impression totals the rollup charts. Households cannot be summed across
+ * advertisers, so group reach is approximated by the sum of each
+ * advertiser's reach: a household reached by two advertisers counts twice,
+ * and group frequency is impressions per summed household. An advertiser
+ * without household data in a period it was active in cannot be split; its
+ * whole change goes to `no_reach_effect`, so the three effects add up to the
+ * group's change. Null when no advertiser has household data.
+ */
+export function decomposeGroup(details: Iterable<AdvertiserDetailDatum>): Decomposition | null {
+  const total = { base: 0, comparison: 0 };
+  const base = { impressions: 0, reach: 0 };
+  const comparison = { impressions: 0, reach: 0 };
+  const add = (r: PeriodReach | null, acc: PeriodReach) => {
+    if (!r) return;
+    acc.impressions += r.impressions;
+    acc.reach += r.reach;
+  };
+  for (const d of details) {
+    total.base += d.base?.impressions ?? 0;
+    total.comparison += d.comparison?.impressions ?? 0;
+    const b = reachOf(d.base);
+    const c = reachOf(d.comparison);
+    if (b === undefined || c === undefined) continue;
+    add(b, base);
+    add(c, comparison);
+  }
+
+  const active = (p: PeriodReach) => (p.impressions > 0 || p.reach > 0 ? p : null);
+  const split = decompose(active(base), active(comparison));
+  if (!split) return null;
+  const delta = total.comparison - total.base;
+  return {
+    ...split,
+    base_impressions: total.base,
+    comparison_impressions: total.comparison,
+    delta,
+    no_reach_effect: delta - split.delta,
+  };
+}
+
+export function analyzeDecomposition(dataset: LoadedDataset): DecompositionAnalysis {
+  const index = advertiserIndex(dataset);
+  const members = verticalMembers(
+    dataset.tables.mapping.rows,
+    (k) => index.has(k),
+    dataset.attribution,
+    advertiserKeyer(dataset.aliases.entities)
+  );
+  const verticals: Record<string, Decomposition | null> = {};
+  for (const v of dataset.verticals) {
+    verticals[v.vertical] = decomposeGroup(
+      Array.from(members.get(v.vertical) ?? [], ([k, share]) => attributedDetail(index.get(k)!, share))
+    );
+  }
+  return { overall: decomposeGroup(index.values()), verticals };
+}
+
+function pctPhrase(from: number | null, to: number | null) {
+  if (from === null || to === null || from === 0) return null;
+  const pct = ((to - from) / from) * 100;
+  return `${pct >= 0 ? "rose" : "fell"} ${Math.abs(pct).toFixed(1)}%`;
+}
+
+function signedPct(n: number) {
+  return `${n >= 0 ? "+" : "-"}${Math.abs(n).toFixed(1)}`;
+}
+
+/**
+ * A sentence naming the effect that drove the change, e.g. "Growth was driven
+ * mostly by frequency: households reached fell 2.0% and impressions per
+ * household rose 8.1%." When part of the change comes from advertisers
+ * without household data, a second sentence gives their part in points of
+ * the group's % change, so the parts add up to it.
+ */
+export function describeDecomposition(d: Decomposition): string {
+  const noReach =
+    d.no_reach_effect !== 0 && d.base_impressions > 0
+      ? ` Advertisers without household data, whose change cannot be split, account for ${signedPct(
+          (d.no_reach_effect / d.base_impressions) * 100
+        )} points of the ${signedPct((d.delta / d.base_impressions) * 100)}% change.`
+      : "";
+  if (d.no_reach_effect === 0) {
+    if (d.kind === "entry") return "All of the change is reach: there was no activity in the base period.";
+    if (d.kind === "exit") return "All of the change is reach: there was no activity in the comparison period.";
+  }
+  if (d.delta === 0) return `Impressions were unchanged.${noReach}`;
+
+  // the largest effect pulling the same way as the change
+  const effects = [
+    { name: "reach", effect: d.reach_effect },
+    { name: "frequency", effect: d.frequency_effect },
+    { name: "advertisers without household data", effect: d.no_reach_effect },
+  ].filter((e) => e.effect * d.delta > 0);
+  const driver = effects.reduce(
+    (a, b) => (Math.abs(b.effect) > Math.abs(a.effect) ? b : a),
+    { name: "reach", effect: 0 }
+  ).name;
+
+  const reach = pctPhrase(d.base_reach, d.comparison_reach);
+  const freq = pctPhrase(d.base_frequency, d.comparison_frequency);
+  const among = d.no_reach_effect !== 0 ? " among advertisers with household data" : "";
+  const detail =
+    d.kind === "both" && reach && freq
+      ? `: households reached ${reach} and impressions per household ${freq}${among}`
+      : "";
+  return `${d.delta > 0 ? "Growth" : "The decline"} was driven mostly by ${driver}${detail}.${noReach}`;
+}
@@ -0,0 +1,226 @@
+import path from "node:path";
+import { aliasResolver, loadAliasTable, withAliases, type AliasTable } from "./aliases";
+import {
+  combineByKey,
+  reconcileVerticals,
+  rollUpVerticals,
+  verticalMembers,
+  type PrecomputedVertical,
+  type ReconciliationRow,
+  type Rollup,
+} from "./aggregate";
+import { mappedVerticalCounts, type AttributionPolicy } from "./attribution";
+import { loadManifest, resolvePeriodPair, verticalChangeSource, type Manifest } from "./manifest";
+import { advertiserKeyer, isProportionScale, looksLikeOverallLabel } from "./normalize";
+import type { PeriodPair } from "./periods";
+import { readTable, type ParsedTable } from "./readTable";
+import { createReportBuilder } from "./report";
+import { mappingSchema, parentSchema, periodMetricsSchema, verticalChangeSchema } from "./schema";
+import type { AdvertiserDatum, AdvertiserDetailDatum, ValidationReport, VerticalDatum } from "./types";
+
+// Where the chart's list of verticals comes from. Their figures are always
+// rolled up from the advertiser files.
+export type VerticalSource = "rollup" | "precomputed";
+
+// The validated source rows a dataset is compiled from.
+export type DatasetTables = {
+  base: ParsedTable<ReturnType<typeof periodMetricsSchema>>;
+  comparison: ParsedTable<ReturnType<typeof periodMetricsSchema>>;
+  mapping: ParsedTable<ReturnType<typeof mappingSchema>>;
+  parents: ParsedTable<ReturnType<typeof parentSchema>> | null;
+};
+
+export type Dataset = {
+  periods: PeriodPair;
+  // the chart's verticals, listed as `verticalSource` says, with the rollup's
+  // % changes
+  verticals: VerticalDatum[];
+  // "precomputed" when the pair has a precomputed file, whose curated names
+  // the chart lists; "rollup" lists every vertical in the mapping file
+  verticalSource: VerticalSource;
+  // weighted: total comparison vs total base impressions across all advertisers
+  overallPctChange: number;
+  rollup: Rollup;
+  // the precomputed file against the rollup; null when the manifest lists no
+  // precomputed file for this pair. Its figures are shown only here.
+  reconciliation: ReconciliationRow[] | null;
+  // every mapped advertiser per vertical, largest comparison-period impressions
+  // (as attributed to the vertical) first; lapsed advertisers (0 impressions)
+  // trail, largest base period first
+  advertiserByVertical: Record<string, AdvertiserDatum[]>;
+  // every advertiser in either period, keyed by its raw name
+  advertiserDetailsByName: Record<string, AdvertiserDetailDatum>;
+  // parent company per advertiser name, for advertisers the hierarchy file lists
+  parentByAdvertiser: Record<string, string>;
+  // whether the precomputed % column held proportions and was multiplied by 100
+  pctRescaled: boolean;
+  // the alias table applied to every advertiser name below
+  aliases: AliasTable;
+  // how advertisers mapped to several verticals are counted in each
+  attribution: AttributionPolicy;
+  report: ValidationReport;
+};
+
+// A dataset as loadDataset compiles it, with its source rows. The analyses
+// and the data-quality report read them; the data snapshot leaves them out.
+export type LoadedDataset = Dataset & {
+  tables: DatasetTables;
+};
+
+export type LoadOptions = {
+  // period ids from the manifest; each defaults to the manifest's defaultPair
+  base?: string | null;
+  comparison?: string | null;
+};
+
+export class DatasetError extends Error {
+  readonly report: ValidationReport;
+
+  constructor(message: string, report: ValidationReport) {
+    super(message);
+    this.name = "DatasetError";
+    this.report = report;
+  }
+}
+
+export const DEFAULT_DATA_DIR = path.join(process.cwd(), "data");
+
+export function loadDataset(dataDir: string = DEFAULT_DATA_DIR, options: LoadOptions = {}): LoadedDataset {
+  const manifest: Manifest = loadManifest(dataDir);
+  const periods = resolvePeriodPair(manifest, options.base, options.comparison);
+  const report = createReportBuilder();
+
+  // --- advertiser metrics, both periods, under their entity names ---
+  const aliases = loadAliasTable(dataDir);
+  const resolve = aliasResolver(aliases);
+  const keyOf = advertiserKeyer(aliases.entities);
+  const baseTable = withAliases(readTable(dataDir, periodMetricsSchema(periods.base), report), resolve);
+  const compTable = withAliases(readTable(dataDir, periodMetricsSchema(periods.comparison), report), resolve);
+  const mapping = withAliases(readTable(dataDir, mappingSchema(manifest.mapping), report), resolve);
+  const parents = manifest.parents ? withAliases(readTable(dataDir, parentSchema(manifest.parents), report), resolve) : null;
+
+  // --- vertical totals, rolled up from advertisers ---
+  const rollup = rollUpVerticals(baseTable.rows, compTable.rows, mapping.rows, manifest.attribution, keyOf);
+
+  // --- precomputed vertical % change, reconciled against the rollup ---
+  let pctRescaled = false;
+  let reconciliation: ReconciliationRow[] | null = null;
+  const precomputed: PrecomputedVertical[] = [];
+
+  const source = verticalChangeSource(manifest, periods);
+  if (source) {
+    const vertTable = readTable(dataDir, verticalChangeSchema(source.file, periods), report);
+
+    pctRescaled = vertTable.rows.length > 0 && isProportionScale(vertTable.rows.map((r) => r.pct_change));
+    if (pctRescaled) {
+      const pctCol = vertTable.columns.find((c) => c.field === "pct_change")?.column ?? "pct_change";
+      for (const r of vertTable.rows) {
+        report.coercion(source.file, pctCol, "proportion-to-percent", r.line, String(r.pct_change), String(r.pct_change * 100));
+      }
+    }
+
+    for (const r of vertTable.rows) {
+      const pct = pctRescaled ? r.pct_change * 100 : r.pct_change;
+      if (looksLikeOverallLabel(r.vertical)) continue;
+      precomputed.push({
+        vertical: r.vertical,
+        pct_change: pct,
+        base_impressions: r.base_impressions,
+        comparison_impressions: r.comparison_impressions,
+      });
+    }
+    reconciliation = reconcileVerticals(rollup.verticals, precomputed, manifest.aggregation.reconcileTolerancePct);
+  }
+
+  // --- vertical chart data ---
+  // The precomputed file holds the curated vertical list, so the chart lists
+  // its verticals when there is one; the mapping file's can mix taxonomies.
+  // Every figure comes from the rollup, so the chart, the overall change and
+  // the analyses agree; the precomputed % changes appear only in the
+  // reconciliation.
+  const verticalSource: VerticalSource = precomputed.length > 0 ? "precomputed" : "rollup";
+  const listed = new Set(precomputed.map((v) => v.vertical));
+  const verticals: VerticalDatum[] = rollup.verticals.flatMap((v) =>
+    v.pct_change === null || (verticalSource === "precomputed" && !listed.has(v.vertical))
+      ? []
+      : [{ vertical: v.vertical, pct_change: v.pct_change }]
+  );
+  if (verticals.length === 0) {
+    throw new DatasetError(
+      verticalSource === "precomputed"
+        ? `No vertical in ${source!.file} has ${periods.base.label} impressions after joining ${manifest.mapping}.`
+        : `No vertical has ${periods.base.label} impressions after joining ${manifest.mapping}.`,
+      report.build()
+    );
+  }
+
+  const overallPctChange = rollup.overall.pct_change ?? 0;
+
+  const baseByKey = combineByKey(baseTable.rows, keyOf);
+
+  // Full outer join of the two periods: advertisers only in the base period
+  // (lapsed) are kept with a null comparison and zero impressions.
+  const advertiserDetailsByName: Record<string, AdvertiserDetailDatum> = {};
+  const advToImp = new Map<string, AdvertiserDatum>();
+  for (const [key, r] of combineByKey(compTable.rows, keyOf)) {
+    const prev = baseByKey.get(key);
+    advertiserDetailsByName[r.advertiser] = {
+      advertiser: r.advertiser,
+      base: prev ? { impressions: prev.impressions, reach: prev.reach, frequency: prev.frequency } : null,
+      comparison: { impressions: r.impressions, reach: r.reach, frequency: r.frequency },
+    };
+    advToImp.set(key, { advertiser: r.advertiser, impressions: r.impressions });
+  }
+  for (const [key, r] of baseByKey) {
+    if (advToImp.has(key)) continue;
+    advertiserDetailsByName[r.advertiser] = {
+      advertiser: r.advertiser,
+      base: { impressions: r.impressions, reach: r.reach, frequency: r.frequency },
+      comparison: null,
+    };
+    advToImp.set(key, { advertiser: r.advertiser, impressions: 0 });
+  }
+  const baseImpressionsOf = (a: AdvertiserDatum) =>
+    (advertiserDetailsByName[a.advertiser]?.base?.impressions ?? 0) * (a.shared?.share ?? 1);
+
+  // --- advertiser -> vertical mapping, attributed as in the rollup ---
+  const verticalCounts = mappedVerticalCounts(mapping.rows, keyOf);
+  const advertiserByVertical: Record<string, AdvertiserDatum[]> = {};
+  for (const [vName, members] of verticalMembers(mapping.rows, (k) => advToImp.has(k), manifest.attribution, keyOf)) {
+    advertiserByVertical[vName] = Array.from(members, ([key, share]): AdvertiserDatum => {
+      const hit = advToImp.get(key)!;
+      const verticals = verticalCounts.get(key) ?? 1;
+      if (verticals < 2) return hit;
+      return { ...hit, impressions: hit.impressions * share, shared: { share, verticals } };
+    }).sort((a, b) => b.impressions - a.impressions || baseImpressionsOf(b) - baseImpressionsOf(a));
+  }
+
+  // --- advertiser -> parent company, when the manifest has a hierarchy file ---
+  const parentByKey = new Map<string, string>();
+  for (const r of parents?.rows ?? []) {
+    const key = keyOf(r.advertiser);
+    if (!parentByKey.has(key)) parentByKey.set(key, r.parent);
+  }
+  const parentByAdvertiser: Record<string, string> = {};
+  for (const name of Object.keys(advertiserDetailsByName)) {
+    const parent = parentByKey.get(keyOf(name));
+    if (parent) parentByAdvertiser[name] = parent;
+  }
+
+  return {
+    periods,
+    verticals,
+    verticalSource,
+    overallPctChange,
+    rollup,
+    reconciliation,
+    advertiserByVertical,
+    advertiserDetailsByName,
+    parentByAdvertiser,
+    pctRescaled,
+    aliases,
+    attribution: manifest.attribution,
+    tables: { base: baseTable, comparison: compTable, mapping, parents },
+    report: report.build(),
+  };
+}
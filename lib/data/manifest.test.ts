@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { formatManifest, ManifestError, parseManifest, resolvePeriodPair } from "./manifest";
+
+const periods = [
+  { id: "2024-H2", kind: "half", year: 2024, index: 2, file: "periods/2024-H2.csv" },
+  { id: "2025", kind: "year", year: 2025, file: "periods/2025.csv", label: "FY 2025" },
+  { id: "2025-03", kind: "month", year: 2025, index: 3, file: "periods/2025-03.csv" },
+];
+
+const raw = (overrides: Record<string, unknown> = {}) =>
+  JSON.stringify({
+    mapping: "adv_verticals.csv",
+    periods,
+    defaultPair: { base: "2024-H2", comparison: "2025" },
+    ...overrides,
+  });
+
+const rejects = (overrides: Record<string, unknown>, message: RegExp) =>
+  assert.throws(() => parseManifest(raw(overrides)), (err) => {
+    assert.ok(err instanceof ManifestError);
+    assert.match(err.message, message);
+    return true;
+  });
+
+describe("parseManifest", () => {
+  it("fills in defaults", () => {
+    const m = parseManifest(raw());
+    assert.equal(m.parents, null);
+    assert.deepEqual(m.verticalChanges, []);
+    assert.equal(m.attribution, "full");
+    assert.deepEqual(
+      m.periods.map((p) => [p.label, p.index]),
+      [
+        ["2H, 2024", 2],
+        ["FY 2025", 1],
+        ["Mar, 2025", 3],
+      ]
+    );
+  });
+
+  it("rejects files that would not load", () => {
+    assert.throws(() => parseManifest("{"), /not valid JSON/);
+    rejects({ periods: periods.slice(0, 1) }, /at least two periods/);
+    rejects({ periods: [...periods, periods[0]] }, /Duplicate period id: 2024-H2/);
+    rejects({ periods: [{ ...periods[0], kind: "week" }, periods[1]] }, /periods\[0\]\.kind must be one of/);
+    rejects({ periods: [periods[0], { ...periods[2], index: 13 }] }, /periods\[1\]\.index is out of range for a month/);
+    rejects({ periods: [periods[0], { ...periods[1], file: " " }] }, /periods\[1\]\.file must be a non-empty string/);
+    rejects({ defaultPair: { base: "2024-H2", comparison: "2026" } }, /unknown period: 2026/);
+    rejects({ aggregation: { reconcileTolerancePct: -1 } }, /must be a non-negative number/);
+    rejects({ attribution: "half" }, /attribution must be one of/);
+    rejects({ verticalChanges: [{ base: "2024-H2", comparison: "2025" }] }, /verticalChanges\[0\]\.file/);
+  });
+});
+
+describe("formatManifest", () => {
+  it("writes a manifest that parses back unchanged", () => {
+    const m = parseManifest(
+      raw({
+        parents: "parents.csv",
+        attribution: "weighted",
+        aggregation: { reconcileTolerancePct: 2 },
+        verticalChanges: [{ base: "2024-H2", comparison: "2025", file: "change.csv" }],
+      })
+    );
+    assert.deepEqual(parseManifest(formatManifest(m)), m);
+    assert.deepEqual(parseManifest(formatManifest(parseManifest(raw()))), parseManifest(raw()));
+  });
+
+  it("leaves out default labels and the default policy", () => {
+    const text = formatManifest(parseManifest(raw()));
+    assert.ok(!text.includes("2H, 2024"));
+    assert.ok(text.includes(`"label": "FY 2025"`));
+    assert.ok(!text.includes("attribution"));
+  });
+});
+
+describe("resolvePeriodPair", () => {
+  const m = parseManifest(raw());
+
+  it("falls back to the default pair for a missing side", () => {
+    const pair = resolvePeriodPair(m, null, "2025-03");
+    assert.deepEqual([pair.base.id, pair.comparison.id], ["2024-H2", "2025-03"]);
+    assert.equal(resolvePeriodPair(m).comparison.id, "2025");
+  });
+
+  it("rejects unknown and identical periods", () => {
+    assert.throws(() => resolvePeriodPair(m, "2023"), /Unknown base period: 2023/);
+    assert.throws(() => resolvePeriodPair(m, undefined, "2026"), /Unknown comparison period: 2026/);
+    assert.throws(() => resolvePeriodPair(m, "2025"), /must differ/);
+  });
+});
@@ -0,0 +1,213 @@
+import fs from "node:fs";
+import path from "node:path";
+import { ATTRIBUTION_POLICIES, DEFAULT_ATTRIBUTION, type AttributionPolicy } from "./attribution";
+import {
+  defaultPeriodLabel,
+  isValidPeriodIndex,
+  type Period,
+  type PeriodKind,
+  type PeriodPair,
+} from "./periods";
+
+export const MANIFEST_FILE = "manifest.json";
+
+export type VerticalChangeSource = {
+  base: string;
+  comparison: string;
+  file: string;
+};
+
+export type AggregationSettings = {
+  // allowed gap, in percentage points, between computed and precomputed % change
+  reconcileTolerancePct: number;
+};
+
+export const DEFAULT_AGGREGATION: AggregationSettings = {
+  reconcileTolerancePct: 1,
+};
+
+export type Manifest = {
+  // advertiser -> vertical mapping CSV
+  mapping: string;
+  // advertiser -> parent company CSV; null when brands are not grouped
+  parents: string | null;
+  periods: Period[];
+  defaultPair: { base: string; comparison: string };
+  // precomputed vertical % change files, keyed by period pair
+  verticalChanges: VerticalChangeSource[];
+  aggregation: AggregationSettings;
+  // how advertisers mapped to several verticals are counted in each
+  attribution: AttributionPolicy;
+};
+
+export class ManifestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ManifestError";
+  }
+}
+
+const PERIOD_KINDS: PeriodKind[] = ["month", "quarter", "half", "year"];
+
+function asRecord(v: unknown, where: string): Record<string, unknown> {
+  if (typeof v !== "object" || v === null || Array.isArray(v)) throw new ManifestError(`${where} must be an object.`);
+  return v as Record<string, unknown>;
+}
+
+function asString(v: unknown, where: string): string {
+  if (typeof v !== "string" || !v.trim()) throw new ManifestError(`${where} must be a non-empty string.`);
+  return v.trim();
+}
+
+function parsePeriod(v: unknown, i: number): Period {
+  const where = `periods[${i}]`;
+  const r = asRecord(v, where);
+  const id = asString(r.id, `${where}.id`);
+  const kind = asString(r.kind, `${where}.kind`) as PeriodKind;
+  if (!PERIOD_KINDS.includes(kind)) {
+    throw new ManifestError(`${where}.kind must be one of: ${PERIOD_KINDS.join(", ")}.`);
+  }
+  const year = Number(r.year);
+  if (!Number.isInteger(year)) throw new ManifestError(`${where}.year must be an integer.`);
+  const index = kind === "year" ? 1 : Number(r.index);
+  if (!isValidPeriodIndex(kind, index)) throw new ManifestError(`${where}.index is out of range for a ${kind}.`);
+
+  return {
+    id,
+    kind,
+    year,
+    index,
+    label: r.label === undefined ? defaultPeriodLabel(kind, year, index) : asString(r.label, `${where}.label`),
+    file: asString(r.file, `${where}.file`),
+  };
+}
+
+export function parseManifest(raw: string): Manifest {
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (err) {
+    throw new ManifestError(`${MANIFEST_FILE} is not valid JSON: ${(err as Error).message}`);
+  }
+  const r = asRecord(json, MANIFEST_FILE);
+
+  if (!Array.isArray(r.periods) || r.periods.length < 2) {
+    throw new ManifestError("periods must list at least two periods.");
+  }
+  const periods = r.periods.map(parsePeriod);
+  const ids = new Set<string>();
+  for (const p of periods) {
+    if (ids.has(p.id)) throw new ManifestError(`Duplicate period id: ${p.id}`);
+    ids.add(p.id);
+  }
+
+  const def = asRecord(r.defaultPair, "defaultPair");
+  const defaultPair = {
+    base: asString(def.base, "defaultPair.base"),
+    comparison: asString(def.comparison, "defaultPair.comparison"),
+  };
+  for (const id of [defaultPair.base, defaultPair.comparison]) {
+    if (!ids.has(id)) throw new ManifestError(`defaultPair references unknown period: ${id}`);
+  }
+
+  const verticalChanges = (Array.isArray(r.verticalChanges) ? r.verticalChanges : []).map((v, i) => {
+    const vc = asRecord(v, `verticalChanges[${i}]`);
+    return {
+      base: asString(vc.base, `verticalChanges[${i}].base`),
+      comparison: asString(vc.comparison, `verticalChanges[${i}].comparison`),
+      file: asString(vc.file, `verticalChanges[${i}].file`),
+    };
+  });
+
+  const agg = r.aggregation === undefined ? {} : asRecord(r.aggregation, "aggregation");
+  const aggregation = { ...DEFAULT_AGGREGATION };
+  for (const key of Object.keys(DEFAULT_AGGREGATION) as (keyof AggregationSettings)[]) {
+    if (agg[key] === undefined) continue;
+    const n = Number(agg[key]);
+    if (!Number.isFinite(n) || n < 0) throw new ManifestError(`aggregation.${key} must be a non-negative number.`);
+    aggregation[key] = n;
+  }
+
+  const attribution =
+    r.attribution === undefined ? DEFAULT_ATTRIBUTION : (asString(r.attribution, "attribution") as AttributionPolicy);
+  if (!ATTRIBUTION_POLICIES.includes(attribution)) {
+    throw new ManifestError(`attribution must be one of: ${ATTRIBUTION_POLICIES.join(", ")}.`);
+  }
+
+  return {
+    mapping: asString(r.mapping, "mapping"),
+    parents: r.parents === undefined || r.parents === null ? null : asString(r.parents, "parents"),
+    periods,
+    defaultPair,
+    verticalChanges,
+    aggregation,
+    attribution,
+  };
+}
+
+// The manifest as JSON that parseManifest reads back unchanged.
+export function formatManifest(manifest: Manifest): string {
+  const json = {
+    mapping: manifest.mapping,
+    ...(manifest.parents ? { parents: manifest.parents } : {}),
+    periods: manifest.periods.map((p) => ({
+      id: p.id,
+      kind: p.kind,
+      year: p.year,
+      ...(p.kind === "year" ? {} : { index: p.index }),
+      ...(p.label === defaultPeriodLabel(p.kind, p.year, p.index) ? {} : { label: p.label }),
+      file: p.file,
+    })),
+    defaultPair: manifest.defaultPair,
+    aggregation: manifest.aggregation,
+    ...(manifest.attribution === DEFAULT_ATTRIBUTION ? {} : { attribution: manifest.attribution }),
+    verticalChanges: manifest.verticalChanges,
+  };
+  // one line per object, as the file is written by hand
+  const compact = (o: object) =>
+    `{ ${Object.entries(o)
+      .map(([k, v]) => `${JSON.stringify(k)}: ${JSON.stringify(v)}`)
+      .join(", ")} }`;
+  const lines = Object.entries(json).map(([k, v]) => {
+    const value = Array.isArray(v)
+      ? v.length === 0
+        ? "[]"
+        : `[\n${v.map((item) => `    ${compact(item)}`).join(",\n")}\n  ]`
+      : typeof v === "object"
+        ? compact(v)
+        : JSON.stringify(v);
+    return `  ${JSON.stringify(k)}: ${value}`;
+  });
+  return `{\n${lines.join(",\n")}\n}\n`;
+}
+
+export function loadManifest(dataDir: string): Manifest {
+  return parseManifest(fs.readFileSync(path.join(dataDir, MANIFEST_FILE), "utf-8"));
+}
+
+export function findPeriod(manifest: Manifest, id: string | null | undefined): Period | null {
+  if (!id) return null;
+  return manifest.periods.find((p) => p.id === id) ?? null;
+}
+
+/**
+ * Resolves base/comparison ids against the manifest, falling back to the
+ * manifest's default pair for whichever side is missing.
+ */
+export function resolvePeriodPair(manifest: Manifest, baseId?: string | null, comparisonId?: string | null): PeriodPair {
+  const base = baseId ? findPeriod(manifest, baseId) : findPeriod(manifest, manifest.defaultPair.base);
+  const comparison = comparisonId
+    ? findPeriod(manifest, comparisonId)
+    : findPeriod(manifest, manifest.defaultPair.comparison);
+
+  if (!base) throw new ManifestError(`Unknown base period: ${baseId}`);
+  if (!comparison) throw new ManifestError(`Unknown comparison period: ${comparisonId}`);
+  if (base.id === comparison.id) throw new ManifestError("Base and comparison periods must differ.");
+  return { base, comparison };
+}
+
+export function verticalChangeSource(manifest: Manifest, pair: PeriodPair): VerticalChangeSource | null {
+  return (
+    manifest.verticalChanges.find((v) => v.base === pair.base.id && v.comparison === pair.comparison.id) ?? null
+  );
+}
@@ -0,0 +1,49 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+
+// Content hashes and bounded memo tables behind the data caches (parsed tables
+// in readTable.ts, compiled datasets in cache.ts). Entries are keyed by the
+// SHA-256 of the files they were built from, so editing, uploading or rolling
+// back a file invalidates them. A file is only re-hashed when its size or
+// modification time changes.
+
+const hashes = new Map<string, { size: number; mtimeMs: number; hash: string }>();
+
+export function fileHash(file: string): string {
+  const stat = fs.statSync(file);
+  const hit = hashes.get(file);
+  if (hit && hit.size === stat.size && hit.mtimeMs === stat.mtimeMs) return hit.hash;
+  const hash = crypto.createHash("sha256").update(fs.readFileSync(file)).digest("hex");
+  hashes.set(file, { size: stat.size, mtimeMs: stat.mtimeMs, hash });
+  return hash;
+}
+
+// DATA_CACHE=off reads every file on every request, as before the caches.
+export function dataCacheEnabled(): boolean {
+  return process.env.DATA_CACHE !== "off";
+}
+
+export type Memo<V> = {
+  get: (key: string) => V | undefined;
+  set: (key: string, value: V) => void;
+};
+
+// A map that keeps the `max` most recently used entries.
+export function createMemo<V>(max: number): Memo<V> {
+  const entries = new Map<string, V>();
+  return {
+    get: (key) => {
+      const hit = entries.get(key);
+      if (hit !== undefined) {
+        entries.delete(key);
+        entries.set(key, hit);
+      }
+      return hit;
+    },
+    set: (key, value) => {
+      entries.delete(key);
+      entries.set(key, value);
+      while (entries.size > max) entries.delete(entries.keys().next().value!);
+    },
+  };
+}
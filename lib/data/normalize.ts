@@ -0,0 +1,46 @@
+export function normalizeKey(s: string): string {
+  return String(s ?? "")
+    .trim()
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(
+      /\b(inc|inc\.|llc|l\.l\.c\.|ltd|ltd\.|co|co\.|corp|corp\.|corporation|company|holdings)\b/g,
+      ""
+    )
+    .replace(/[^a-z0-9]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Join key for an advertiser name.
+export type AdvertiserKey = (name: string) => string;
+
+/**
+ * normalizeKey, except for the names of alias entities marked `exact`: those
+ * are keyed by the name itself (case aside), so they stay apart from names
+ * that merely normalize alike. The "=" prefix never comes out of normalizeKey.
+ */
+export function advertiserKeyer(entities: { name: string; exact?: boolean }[]): AdvertiserKey {
+  const exact = new Set(entities.filter((e) => e.exact).map((e) => e.name.trim().toLowerCase()));
+  if (exact.size === 0) return normalizeKey;
+  return (name) => {
+    const raw = name.trim().toLowerCase();
+    return exact.has(raw) ? `=${raw}` : normalizeKey(name);
+  };
+}
+
+export function looksLikeOverallLabel(v: string) {
+  const s = v.trim().toLowerCase();
+  return s === "overall" || s === "total" || s === "all" || s === "grand total" || s === "overall total";
+}
+
+// Values that all sit within ±1.5 are treated as proportions (0.12 = 12%).
+export function isProportionScale(values: number[]): boolean {
+  const maxAbs = Math.max(...values.map((v) => Math.abs(v)));
+  return Number.isFinite(maxAbs) && maxAbs <= 1.5;
+}
+
+export function toPercentIfProportion(values: number[]): number[] {
+  if (isProportionScale(values)) return values.map((v) => v * 100);
+  return values;
+}
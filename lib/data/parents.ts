@@ -0,0 +1,84 @@
+import type { AdvertiserDatum, AdvertiserDetailDatum, ParentDatum, PeriodMetrics, VerticalAdvertisers } from "./types";
+
+// Brands roll up to parent companies through the optional hierarchy file
+// (manifest `parents`). Impressions add up. Households do not: a household
+// reached by two brands of one parent is counted by both, so a parent's reach
+// is the sum of its brands' reach, an upper bound, and its frequency
+// (impressions per summed household) a lower bound.
+
+export const PARENT_REACH_NOTE = "sum of brands; households reached by several brands count more than once";
+export const PARENT_FREQUENCY_NOTE = "impressions per summed household, so lower than the true average";
+
+function combinePeriod(periods: (PeriodMetrics | null)[]): PeriodMetrics | null {
+  const active = periods.filter((p) => p !== null);
+  if (active.length === 0) return null;
+  const impressions = active.every((p) => p.impressions !== null)
+    ? active.reduce((acc, p) => acc + p.impressions!, 0)
+    : null;
+  const reach = active.every((p) => p.reach !== null) ? active.reduce((acc, p) => acc + p.reach!, 0) : null;
+  return {
+    impressions,
+    reach,
+    frequency: impressions !== null && reach ? impressions / reach : null,
+  };
+}
+
+// A parent's metrics in both periods from its brands' details.
+export function combineDetails(name: string, brands: AdvertiserDetailDatum[]): AdvertiserDetailDatum {
+  return {
+    advertiser: name,
+    base: combinePeriod(brands.map((b) => b.base)),
+    comparison: combinePeriod(brands.map((b) => b.comparison)),
+  };
+}
+
+/**
+ * Groups a vertical's advertisers by parent company, largest first as in the
+ * advertiser list. Advertisers without a parent stand alone under their own
+ * name.
+ */
+export function groupByParent(
+  advertisers: AdvertiserDatum[],
+  parentOf: (advertiser: string) => string | undefined,
+  baseImpressionsOf: (name: string) => number
+): ParentDatum[] {
+  const byParent = new Map<string, ParentDatum>();
+  for (const a of advertisers) {
+    const name = parentOf(a.advertiser) ?? a.advertiser;
+    const hit = byParent.get(name) ?? { advertiser: name, impressions: 0, brands: [] };
+    hit.impressions += a.impressions;
+    hit.brands.push(a.advertiser);
+    byParent.set(name, hit);
+  }
+  const baseOf = (p: ParentDatum) => p.brands.reduce((acc, b) => acc + baseImpressionsOf(b), 0);
+  return Array.from(byParent.values()).sort((a, b) => b.impressions - a.impressions || baseOf(b) - baseOf(a));
+}
+
+// A vertical's parent companies, from its advertisers and the dataset's
+// advertiser-to-parent map.
+export function parentsInVertical(brands: VerticalAdvertisers, parentByAdvertiser: Record<string, string>): ParentDatum[] {
+  return groupByParent(
+    brands.advertisers,
+    (name) => parentByAdvertiser[name],
+    (name) => brands.details[name]?.base?.impressions ?? 0
+  );
+}
+
+/**
+ * A vertical's advertisers with its brands replaced by their parents, so the
+ * chart, its exports and data downloads can draw the parent view with the
+ * same code as the advertiser view. A parent's metrics sum its brands' as
+ * attributed to the vertical.
+ */
+export function atParentLevel(parents: ParentDatum[], brands: VerticalAdvertisers): VerticalAdvertisers {
+  const details: Record<string, AdvertiserDetailDatum> = {};
+  for (const p of parents) {
+    const rows = p.brands.map((b) => brands.details[b]).filter((d) => d !== undefined);
+    details[p.advertiser] = combineDetails(p.advertiser, rows);
+  }
+  return {
+    vertical: brands.vertical,
+    advertisers: parents.map((p) => ({ advertiser: p.advertiser, impressions: p.impressions })),
+    details,
+  };
+}
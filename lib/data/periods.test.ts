@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  basePhrase,
+  chartTitle,
+  comparePeriods,
+  defaultPeriodId,
+  defaultPeriodLabel,
+  isValidPeriodIndex,
+  isYearOverYear,
+  periodColumnSuffixes,
+  periodPhrase,
+  periodRangePhrase,
+  type Period,
+  type PeriodKind,
+} from "./periods";
+
+const period = (kind: PeriodKind, year: number, index = 1): Period => ({
+  id: defaultPeriodId(kind, year, index),
+  kind,
+  year,
+  index,
+  label: defaultPeriodLabel(kind, year, index),
+  file: "",
+});
+
+describe("period ids and labels", () => {
+  it("names each kind of period", () => {
+    assert.deepEqual(
+      [period("month", 2025, 3), period("quarter", 2025, 3), period("half", 2025, 2), period("year", 2025)].map((p) => [
+        p.id,
+        p.label,
+        periodPhrase(p),
+        periodRangePhrase(p),
+      ]),
+      [
+        ["2025-03", "Mar, 2025", "March 2025", "in March 2025"],
+        ["2025-Q3", "Q3, 2025", "the third quarter of 2025", "from July through September of 2025"],
+        ["2025-H2", "2H, 2025", "the second half of 2025", "from July through December of 2025"],
+        ["2025", "2025", "2025", "from January through December of 2025"],
+      ]
+    );
+  });
+
+  it("bounds the index by the kind", () => {
+    assert.ok(isValidPeriodIndex("month", 12));
+    assert.ok(!isValidPeriodIndex("month", 13));
+    assert.ok(!isValidPeriodIndex("half", 0));
+    assert.ok(!isValidPeriodIndex("quarter", 1.5));
+    assert.ok(!isValidPeriodIndex("year", 2));
+  });
+
+  it("lists the header suffixes a period's columns may carry", () => {
+    assert.deepEqual(periodColumnSuffixes(period("half", 2025, 2)), ["2h_2025", "2025_2h", "2h25", "2h_25", "25_h2"]);
+    assert.deepEqual(periodColumnSuffixes(period("month", 2025, 3)), ["2025_03", "mar_2025", "mar25", "mar_25"]);
+  });
+});
+
+describe("period pairs", () => {
+  it("orders periods by start month, shorter first", () => {
+    const sorted = [period("year", 2025), period("half", 2024, 2), period("month", 2025, 1), period("quarter", 2025, 1)]
+      .sort(comparePeriods)
+      .map((p) => p.id);
+    assert.deepEqual(sorted, ["2024-H2", "2025-01", "2025-Q1", "2025"]);
+  });
+
+  it("titles year-over-year pairs as such", () => {
+    const yoy = { base: period("half", 2024, 2), comparison: period("half", 2025, 2) };
+    assert.ok(isYearOverYear(yoy));
+    assert.equal(basePhrase(yoy), "the same period in 2024");
+    assert.equal(chartTitle(yoy), "Percent Change in YOY TV Impressions for 2H, 2025");
+
+    const other = { base: period("half", 2025, 1), comparison: period("half", 2025, 2) };
+    assert.ok(!isYearOverYear(other));
+    assert.equal(basePhrase(other), "1H, 2025");
+    assert.equal(chartTitle(other), "Percent Change in TV Impressions, 1H, 2025 vs 2H, 2025");
+  });
+});
@@ -0,0 +1,141 @@
+export type PeriodKind = "month" | "quarter" | "half" | "year";
+
+export type Period = {
+  id: string;
+  kind: PeriodKind;
+  year: number;
+  // 1-based month, quarter or half; always 1 for a full year
+  index: number;
+  label: string;
+  // CSV path, relative to the data directory
+  file: string;
+};
+
+export type PeriodPair = {
+  base: Period;
+  comparison: Period;
+};
+
+const MONTHS = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+const MONTHS_PER: Record<PeriodKind, number> = { month: 1, quarter: 3, half: 6, year: 12 };
+const MAX_INDEX: Record<PeriodKind, number> = { month: 12, quarter: 4, half: 2, year: 1 };
+
+export function isValidPeriodIndex(kind: PeriodKind, index: number): boolean {
+  return Number.isInteger(index) && index >= 1 && index <= MAX_INDEX[kind];
+}
+
+// e.g. "2H, 2025", "Q3, 2025", "Mar, 2025", "2025"
+export function defaultPeriodLabel(kind: PeriodKind, year: number, index: number): string {
+  switch (kind) {
+    case "month":
+      return `${MONTHS[index - 1].slice(0, 3)}, ${year}`;
+    case "quarter":
+      return `Q${index}, ${year}`;
+    case "half":
+      return `${index}H, ${year}`;
+    case "year":
+      return String(year);
+  }
+}
+
+// e.g. "2025-H2", "2025-Q3", "2025-03", "2025", the form the manifest uses
+export function defaultPeriodId(kind: PeriodKind, year: number, index: number): string {
+  switch (kind) {
+    case "month":
+      return `${year}-${String(index).padStart(2, "0")}`;
+    case "quarter":
+      return `${year}-Q${index}`;
+    case "half":
+      return `${year}-H${index}`;
+    case "year":
+      return String(year);
+  }
+}
+
+// First and last month (0-based) covered by the period.
+function monthSpan(p: Period): [number, number] {
+  const size = MONTHS_PER[p.kind];
+  const first = (p.index - 1) * size;
+  return [first, first + size - 1];
+}
+
+// e.g. "the second half of 2025", "the third quarter of 2025", "March 2025", "2025"
+export function periodPhrase(p: Period): string {
+  const ordinals = ["first", "second", "third", "fourth"];
+  switch (p.kind) {
+    case "month":
+      return `${MONTHS[p.index - 1]} ${p.year}`;
+    case "quarter":
+      return `the ${ordinals[p.index - 1]} quarter of ${p.year}`;
+    case "half":
+      return `the ${ordinals[p.index - 1]} half of ${p.year}`;
+    case "year":
+      return String(p.year);
+  }
+}
+
+// e.g. "from July through December of 2025", "in March 2025"
+export function periodRangePhrase(p: Period): string {
+  const [first, last] = monthSpan(p);
+  if (first === last) return `in ${MONTHS[first]} ${p.year}`;
+  return `from ${MONTHS[first]} through ${MONTHS[last]} of ${p.year}`;
+}
+
+// Chronological order: by start month, then the shorter period first.
+export function comparePeriods(a: Period, b: Period): number {
+  const [aFirst, aLast] = monthSpan(a);
+  const [bFirst, bLast] = monthSpan(b);
+  return a.year - b.year || aFirst - bFirst || aLast - bLast;
+}
+
+// Same span of months, exactly one year earlier.
+export function isYearOverYear(pair: PeriodPair): boolean {
+  const { base, comparison } = pair;
+  return base.kind === comparison.kind && base.index === comparison.index && comparison.year - base.year === 1;
+}
+
+// e.g. "the same period in 2024" for YOY pairs, otherwise "2H, 2024"
+export function basePhrase(pair: PeriodPair): string {
+  return isYearOverYear(pair) ? `the same period in ${pair.base.year}` : pair.base.label;
+}
+
+export function chartTitle(pair: PeriodPair): string {
+  if (isYearOverYear(pair)) return `Percent Change in YOY TV Impressions for ${pair.comparison.label}`;
+  return `Percent Change in TV Impressions, ${pair.base.label} vs ${pair.comparison.label}`;
+}
+
+/**
+ * Header suffixes a period's metric columns may carry, e.g. for 2H 2025:
+ * "2h_2025", "2025_2h", "2h25", "2h_25", "25_h2".
+ */
+export function periodColumnSuffixes(p: Period): string[] {
+  const yyyy = String(p.year);
+  const yy = yyyy.slice(-2);
+  switch (p.kind) {
+    case "month": {
+      const mm = String(p.index).padStart(2, "0");
+      const mon = MONTHS[p.index - 1].slice(0, 3).toLowerCase();
+      return [`${yyyy}_${mm}`, `${mon}_${yyyy}`, `${mon}${yy}`, `${mon}_${yy}`];
+    }
+    case "quarter":
+      return [`q${p.index}_${yyyy}`, `${yyyy}_q${p.index}`, `q${p.index}${yy}`, `q${p.index}_${yy}`, `${yy}_q${p.index}`];
+    case "half":
+      return [`${p.index}h_${yyyy}`, `${yyyy}_${p.index}h`, `${p.index}h${yy}`, `${p.index}h_${yy}`, `${yy}_h${p.index}`];
+    case "year":
+      return [yyyy, `fy${yy}`, `fy_${yyyy}`];
+  }
+}
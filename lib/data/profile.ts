@@ -0,0 +1,123 @@
+import { aliasResolver, loadAliasTable, withAliases } from "./aliases";
+import { combineByKey, pctChangeOf, sumImpressionsByKey, verticalMembers } from "./aggregate";
+import type { AttributionPolicy, SharedAttribution } from "./attribution";
+import { loadManifest } from "./manifest";
+import { advertiserKeyer } from "./normalize";
+import { comparePeriods, type Period } from "./periods";
+import { readTable } from "./readTable";
+import { createReportBuilder } from "./report";
+import { mappingSchema, parentSchema, periodMetricsSchema } from "./schema";
+import type { PeriodMetrics } from "./types";
+
+export type ProfilePeriod = {
+  period: Period;
+  // null when the advertiser has no row in the period's file
+  metrics: PeriodMetrics | null;
+  // against the previous period; null for the first period or a missing value
+  impressions_pct_change: number | null;
+};
+
+export type VerticalStanding = {
+  period: Period;
+  // 1-based, by impressions among the vertical's advertisers active in the
+  // period (ties share a rank); null when the advertiser was not active
+  rank: number | null;
+  // advertisers in the vertical with impressions in the period
+  advertisers: number;
+  vertical_impressions: number;
+  // the advertiser's impressions as a % of the vertical's
+  share_pct: number | null;
+};
+
+export type AdvertiserProfile = {
+  advertiser: string;
+  // every period in the manifest, oldest first
+  periods: ProfilePeriod[];
+  // every vertical the mapping file assigns the advertiser to; `shared` is set
+  // when there are several, and standings count the share attributed to each
+  verticals: { vertical: string; shared: SharedAttribution | null; standings: VerticalStanding[] }[];
+  attribution: AttributionPolicy;
+  // the parent company from the hierarchy file, with its other brands
+  parent: { name: string; brands: string[] } | null;
+};
+
+/**
+ * Everything the data files say about one advertiser, across every period in
+ * the manifest rather than one base/comparison pair. Null when no period
+ * file has a row for it.
+ */
+export function loadAdvertiserProfile(dataDir: string, name: string): AdvertiserProfile | null {
+  const manifest = loadManifest(dataDir);
+  const report = createReportBuilder();
+  const aliases = loadAliasTable(dataDir);
+  const resolve = aliasResolver(aliases);
+  const keyOf = advertiserKeyer(aliases.entities);
+  const key = keyOf(resolve(name));
+
+  const periods = manifest.periods.slice().sort(comparePeriods);
+  const tables = periods.map((p) => withAliases(readTable(dataDir, periodMetricsSchema(p), report), resolve));
+  const mapping = withAliases(readTable(dataDir, mappingSchema(manifest.mapping), report), resolve);
+
+  // rows repeating an advertiser are added up, as in loadDataset
+  const rowsFor = tables.map((t) => combineByKey(t.rows, keyOf).get(key) ?? null);
+  const latest = rowsFor.filter((r) => r !== null).pop();
+  if (!latest) return null;
+
+  const profilePeriods = periods.map((period, i): ProfilePeriod => {
+    const r = rowsFor[i];
+    const prev = i > 0 ? rowsFor[i - 1] : undefined;
+    return {
+      period,
+      metrics: r ? { impressions: r.impressions, reach: r.reach, frequency: r.frequency } : null,
+      impressions_pct_change: prev === undefined ? null : pctChangeOf(prev?.impressions ?? 0, r?.impressions ?? 0),
+    };
+  });
+
+  const verticalNames: string[] = [];
+  for (const r of mapping.rows) {
+    if (keyOf(r.advertiser) === key && !verticalNames.includes(r.vertical)) verticalNames.push(r.vertical);
+  }
+
+  const byKey = tables.map((t) => sumImpressionsByKey(t.rows, keyOf));
+  const members = verticalMembers(mapping.rows, () => true, manifest.attribution, keyOf);
+
+  const verticals = verticalNames.map((vertical) => {
+    const inVertical = members.get(vertical) ?? new Map<string, number>();
+    const share = inVertical.get(key) ?? 0;
+    return {
+      vertical,
+      shared: verticalNames.length > 1 ? { share, verticals: verticalNames.length } : null,
+      standings: periods.map((period, i): VerticalStanding => {
+        const impressionsOf = (k: string) => (byKey[i].get(k) ?? 0) * (inVertical.get(k) ?? 0);
+        const active = Array.from(inVertical.keys()).filter((k) => impressionsOf(k) > 0);
+        const total = active.reduce((acc, k) => acc + impressionsOf(k), 0);
+        const own = impressionsOf(key);
+        return {
+          period,
+          rank: own > 0 ? 1 + active.filter((k) => impressionsOf(k) > own).length : null,
+          advertisers: active.length,
+          vertical_impressions: total,
+          share_pct: total > 0 ? (own / total) * 100 : null,
+        };
+      }),
+    };
+  });
+
+  let parent: AdvertiserProfile["parent"] = null;
+  if (manifest.parents) {
+    const rows = withAliases(readTable(dataDir, parentSchema(manifest.parents), report), resolve).rows;
+    const own = rows.find((r) => keyOf(r.advertiser) === key);
+    if (own) {
+      const brands = rows.filter((r) => r.parent === own.parent && keyOf(r.advertiser) !== key).map((r) => r.advertiser);
+      parent = { name: own.parent, brands: Array.from(new Set(brands)) };
+    }
+  }
+
+  return {
+    advertiser: latest.advertiser,
+    periods: profilePeriods,
+    verticals,
+    attribution: manifest.attribution,
+    parent,
+  };
+}
@@ -0,0 +1,209 @@
+import { ATTRIBUTION_LABELS, attributionShares } from "./attribution";
+import type { LoadedDataset } from "./load";
+import { advertiserKeyer, type AdvertiserKey } from "./normalize";
+
+export type QualityCell = string | number;
+
+export type QualitySection = {
+  id: string;
+  title: string;
+  description: string;
+  columns: string[];
+  rows: Record<string, QualityCell>[];
+};
+
+export type QualityReport = {
+  pctRescaled: boolean;
+  sections: QualitySection[];
+};
+
+function groupByKey<T>(items: T[], nameOf: (t: T) => string, keyOf: AdvertiserKey): Map<string, T[]> {
+  const out = new Map<string, T[]>();
+  for (const item of items) {
+    const k = keyOf(nameOf(item));
+    if (!out.has(k)) out.set(k, []);
+    out.get(k)!.push(item);
+  }
+  return out;
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
+
+export function buildQualityReport(dataset: LoadedDataset): QualityReport {
+  const { base, comparison, mapping } = dataset.tables;
+  const { report, periods } = dataset;
+  const compFile = periods.comparison.file;
+  const mapFile = mapping.file;
+  const keyOf = advertiserKeyer(dataset.aliases.entities);
+
+  const compByKey = groupByKey(comparison.rows, (r) => r.advertiser, keyOf);
+  const mappingByKey = groupByKey(mapping.rows, (r) => r.advertiser, keyOf);
+
+  // --- comparison-period names with no vertical mapping ---
+  const unmatchedAdvertisers: QualitySection["rows"] = [];
+  for (const [key, rows] of compByKey) {
+    if (mappingByKey.has(key)) continue;
+    for (const r of rows) {
+      unmatchedAdvertisers.push({ advertiser: r.advertiser, key, line: r.line, impressions: r.impressions });
+    }
+  }
+  unmatchedAdvertisers.sort((a, b) => Number(b.impressions) - Number(a.impressions));
+
+  // --- mapping names with no comparison-period row ---
+  const unmatchedMappings: QualitySection["rows"] = [];
+  for (const [key, rows] of mappingByKey) {
+    if (compByKey.has(key)) continue;
+    for (const name of unique(rows.map((r) => r.advertiser))) {
+      const verticals = unique(rows.filter((r) => r.advertiser === name).map((r) => r.vertical));
+      unmatchedMappings.push({ advertiser: name, key, verticals: verticals.join(" | ") });
+    }
+  }
+  unmatchedMappings.sort((a, b) => String(a.advertiser).localeCompare(String(b.advertiser)));
+
+  // --- distinct raw names collapsing to one key ---
+  const nearDuplicates: QualitySection["rows"] = [];
+  const sources: [string, Map<string, { advertiser: string }[]>][] = [
+    [periods.base.file, groupByKey(base.rows, (r) => r.advertiser, keyOf)],
+    [compFile, compByKey],
+    [mapFile, mappingByKey],
+  ];
+  for (const [file, byKey] of sources) {
+    for (const [key, rows] of byKey) {
+      const names = unique(rows.map((r) => r.advertiser));
+      if (names.length < 2) continue;
+      nearDuplicates.push({ file, key, count: names.length, names: names.join(" | ") });
+    }
+  }
+  nearDuplicates.sort((a, b) => Number(b.count) - Number(a.count));
+
+  // --- one advertiser, several verticals, with the share counted in each ---
+  const shares = attributionShares(mapping.rows, dataset.attribution, keyOf);
+  const multiVertical: QualitySection["rows"] = [];
+  for (const [key, rows] of mappingByKey) {
+    const verticals = unique(rows.map((r) => r.vertical));
+    if (verticals.length < 2) continue;
+    const shareOf = (v: string) => `${Math.round((shares.get(key)?.get(v) ?? 0) * 100)}%`;
+    multiVertical.push({
+      advertiser: rows[0].advertiser,
+      key,
+      count: verticals.length,
+      verticals: verticals.map((v) => (dataset.attribution === "full" ? v : `${v} (${shareOf(v)})`)).join(" | "),
+    });
+  }
+  multiVertical.sort((a, b) => Number(b.count) - Number(a.count));
+
+  const rejectedRows = report.rejectedRows.map((r) => ({
+    file: r.file,
+    line: r.line,
+    reason: r.reason,
+    values: JSON.stringify(r.values),
+  }));
+
+  const missingColumns = report.missingColumns.map((c) => ({
+    file: c.file,
+    field: c.field,
+    required: c.required ? "yes" : "no",
+    candidates: c.candidates.join(" | "),
+    found: c.found.join(" | "),
+  }));
+
+  const coercions = report.coercions.map((c) => ({
+    file: c.file,
+    column: c.column,
+    kind: c.kind,
+    count: c.count,
+    examples: c.examples.map((e) => `line ${e.line}: "${e.from}" -> "${e.to}"`).join(" | "),
+  }));
+
+  const fmt = (n: number | null) => (n === null ? "" : n);
+  const reconciliation = (dataset.reconciliation ?? []).map((r) => ({
+    vertical: r.vertical,
+    status: r.status,
+    computed_pct: fmt(r.computed_pct),
+    precomputed_pct: fmt(r.precomputed_pct),
+    diff_pp: fmt(r.diff_pp),
+    computed_base: fmt(r.computed_base),
+    precomputed_base: fmt(r.precomputed_base),
+    computed_comparison: fmt(r.computed_comparison),
+    precomputed_comparison: fmt(r.precomputed_comparison),
+  }));
+
+  return {
+    pctRescaled: dataset.pctRescaled,
+    sections: [
+      {
+        id: "unmatched-advertisers",
+        title: "Advertisers without a vertical",
+        description:
+          `Rows in ${compFile} whose normalized name has no match in ${mapFile}. These never appear under any vertical.`,
+        columns: ["advertiser", "key", "line", "impressions"],
+        rows: unmatchedAdvertisers,
+      },
+      {
+        id: "unmatched-mappings",
+        title: "Mapped advertisers without data",
+        description: `Names in ${mapFile} whose normalized name has no row in ${compFile}.`,
+        columns: ["advertiser", "key", "verticals"],
+        rows: unmatchedMappings,
+      },
+      {
+        id: "near-duplicates",
+        title: "Names collapsing to the same key",
+        description:
+          "Distinct raw names that normalize to the same key. The joins count them as one advertiser, adding up their impressions and leaving households and frequency blank, so check that they really are the same advertiser, or keep them apart with exact-name entities in the alias editor.",
+        columns: ["file", "key", "count", "names"],
+        rows: nearDuplicates,
+      },
+      {
+        id: "multi-vertical",
+        title: "Advertisers mapped to several verticals",
+        description: `Advertisers whose impressions are ${ATTRIBUTION_LABELS[dataset.attribution]}.`,
+        columns: ["advertiser", "key", "count", "verticals"],
+        rows: multiVertical,
+      },
+      {
+        id: "reconciliation",
+        title: "Vertical reconciliation",
+        description:
+          dataset.reconciliation === null
+            ? "No precomputed vertical file is listed for this period pair, so there is nothing to reconcile."
+            : "Verticals whose % change, rolled up from advertiser rows, differs from the precomputed file by more than the manifest tolerance, or that exist on one side only.",
+        columns: [
+          "vertical",
+          "status",
+          "computed_pct",
+          "precomputed_pct",
+          "diff_pp",
+          "computed_base",
+          "precomputed_base",
+          "computed_comparison",
+          "precomputed_comparison",
+        ],
+        rows: reconciliation.filter((r) => r.status !== "ok"),
+      },
+      {
+        id: "rejected-rows",
+        title: "Rejected rows",
+        description: "Rows dropped because a required value was empty or not a number.",
+        columns: ["file", "line", "reason", "values"],
+        rows: rejectedRows,
+      },
+      {
+        id: "missing-columns",
+        title: "Missing columns",
+        description: "Schema fields that could not be matched to any CSV header.",
+        columns: ["file", "field", "required", "candidates", "found"],
+        rows: missingColumns,
+      },
+      {
+        id: "coercions",
+        title: "Value coercions",
+        description: "Values that were rewritten while parsing, including the proportion-to-percent rescale.",
+        columns: ["file", "column", "kind", "count", "examples"],
+        rows: coercions,
+      },
+    ],
+  };
+}
@@ -0,0 +1,174 @@
+import fs from "node:fs";
+import path from "node:path";
+import { csvParse } from "d3-dsv";
+import { createMemo, dataCacheEnabled, fileHash } from "./memo";
+import { createReportBuilder, type ReportBuilder } from "./report";
+import type { ColumnSpec, RowOf, TableSchema } from "./schema";
+import type { CoercionKind, ResolvedColumn, ValidationReport } from "./types";
+
+export function pickCol(
+  columns: string[],
+  candidates: readonly string[]
+): { column: string; match: "exact" | "substring" } | null {
+  const lowerMap = new Map(columns.map((c) => [c.toLowerCase(), c]));
+  for (const cand of candidates) {
+    const hit = lowerMap.get(cand.toLowerCase());
+    if (hit) return { column: hit, match: "exact" };
+  }
+  for (const cand of candidates) {
+    const cLower = cand.toLowerCase();
+    const hit = columns.find((c) => c.toLowerCase().includes(cLower));
+    if (hit) return { column: hit, match: "substring" };
+  }
+  return null;
+}
+
+export function resolveColumn(columns: string[], field: string, spec: ColumnSpec): ResolvedColumn | null {
+  const hit = pickCol(columns, spec.candidates);
+  if (hit) return { field, ...hit };
+  if (spec.fallbackSubstring) {
+    const sub = spec.fallbackSubstring.toLowerCase();
+    const fallback = columns.find((c) => c.toLowerCase().includes(sub));
+    if (fallback) return { field, column: fallback, match: "fallback" };
+  }
+  return null;
+}
+
+// The header each schema field would be read from, or null when none matches.
+export function suggestColumns(columns: string[], schema: TableSchema): Record<string, ResolvedColumn | null> {
+  const out: Record<string, ResolvedColumn | null> = {};
+  for (const [field, spec] of Object.entries(schema.columns)) out[field] = resolveColumn(columns, field, spec);
+  return out;
+}
+
+type Coerced<T> = { value: T | null; kinds: CoercionKind[] };
+
+function coerceString(raw: string | undefined): Coerced<string> {
+  if (raw === undefined) return { value: null, kinds: [] };
+  const value = raw.trim();
+  return { value: value || null, kinds: value !== raw && value ? ["trimmed"] : [] };
+}
+
+function coerceNumber(raw: string | undefined): Coerced<number> {
+  if (raw === undefined) return { value: null, kinds: [] };
+  let s = raw.trim();
+  if (!s) return { value: null, kinds: [] };
+
+  const kinds: CoercionKind[] = [];
+  if (s !== raw) kinds.push("trimmed");
+  if (/^-?[\d,]+(\.\d+)?%?$/.test(s) && s.includes(",")) {
+    s = s.replace(/,/g, "");
+    kinds.push("thousands-separator");
+  }
+  if (s.endsWith("%")) {
+    s = s.slice(0, -1).trim();
+    kinds.push("percent-sign");
+  }
+
+  const n = Number(s);
+  if (!Number.isFinite(n)) return { value: null, kinds: ["invalid-to-null"] };
+  return { value: n, kinds };
+}
+
+export type ParsedTable<S extends TableSchema> = {
+  file: string;
+  rows: (RowOf<S> & { line: number })[];
+  columns: ResolvedColumn[];
+};
+
+/**
+ * Parses CSV text against a declared schema. Rows with a missing or
+ * unparseable required value are rejected; every rejection, unresolved
+ * column and value coercion is recorded on `report`.
+ */
+export function parseTable<S extends TableSchema>(
+  raw: string,
+  schema: S,
+  report: ReportBuilder
+): ParsedTable<S> {
+  const file = schema.file;
+  const parsed = csvParse(raw);
+  const headers = parsed.columns ?? Object.keys(parsed[0] ?? {});
+
+  const resolved: ResolvedColumn[] = [];
+  let missingRequired = false;
+  for (const [field, spec] of Object.entries(schema.columns)) {
+    const col = resolveColumn(headers, field, spec);
+    if (col) {
+      resolved.push(col);
+      continue;
+    }
+    report.missingColumn({
+      file,
+      field,
+      candidates: [...spec.candidates],
+      found: headers,
+      required: spec.required,
+    });
+    if (spec.required) missingRequired = true;
+  }
+
+  const rows: ParsedTable<S>["rows"] = [];
+  if (!missingRequired) {
+    parsed.forEach((r, i) => {
+      const line = i + 2;
+      const out: Record<string, string | number | null> = { line };
+      const problems: string[] = [];
+
+      for (const [field, spec] of Object.entries(schema.columns)) {
+        const col = resolved.find((c) => c.field === field);
+        const rawVal = col ? r[col.column] : undefined;
+        const { value, kinds } = spec.type === "number" ? coerceNumber(rawVal) : coerceString(rawVal);
+
+        for (const kind of kinds) {
+          if (kind === "invalid-to-null" && spec.required) continue;
+          report.coercion(file, col?.column ?? field, kind, line, rawVal ?? "", value === null ? "" : String(value));
+        }
+        if (value === null && spec.required) {
+          problems.push(
+            rawVal === undefined || !rawVal.trim()
+              ? `${field} is empty`
+              : `${field} is not a valid ${spec.type}: "${rawVal}"`
+          );
+        }
+        out[field] = value;
+      }
+
+      if (problems.length > 0) {
+        report.rejectRow({ file, line, reason: problems.join("; "), values: { ...r } as Record<string, string> });
+        return;
+      }
+      rows.push(out as RowOf<S> & { line: number });
+    });
+  }
+
+  report.fileSummary({ file, rowsRead: parsed.length, rowsAccepted: rows.length, columns: resolved });
+  return { file, rows, columns: resolved };
+}
+
+// Parsed tables by file content and schema, with the report entries each produced.
+const parsedTables = createMemo<{ table: ParsedTable<TableSchema>; report: ValidationReport }>(16);
+
+/**
+ * Reads and parses a CSV in the data directory. A file read before with the
+ * same content and schema comes from memory, its report entries replayed onto
+ * `report`; callers must not modify the rows.
+ */
+export function readTable<S extends TableSchema>(
+  dataDir: string,
+  schema: S,
+  report: ReportBuilder
+): ParsedTable<S> {
+  const file = path.join(dataDir, schema.file);
+  if (!dataCacheEnabled()) return parseTable(fs.readFileSync(file, "utf-8"), schema, report);
+
+  const key = `${fileHash(file)}\u0000${JSON.stringify(schema)}`;
+  let hit = parsedTables.get(key);
+  if (!hit) {
+    const own = createReportBuilder();
+    hit = { table: parseTable(fs.readFileSync(file, "utf-8"), schema, own), report: own.build() };
+    parsedTables.set(key, hit);
+  }
+  report.merge(hit.report);
+  return hit.table as ParsedTable<S>;
+}
@@ -0,0 +1,70 @@
+import type {
+  CoercionKind,
+  FileSummary,
+  MissingColumn,
+  RejectedRow,
+  TypeCoercion,
+  ValidationReport,
+} from "./types";
+
+const MAX_COERCION_EXAMPLES = 5;
+
+export type ReportBuilder = {
+  fileSummary: (summary: FileSummary) => void;
+  rejectRow: (row: RejectedRow) => void;
+  missingColumn: (col: MissingColumn) => void;
+  coercion: (file: string, column: string, kind: CoercionKind, line: number, from: string, to: string) => void;
+  // adds a report built earlier, e.g. for a table read from the cache
+  merge: (report: ValidationReport) => void;
+  build: () => ValidationReport;
+};
+
+export function createReportBuilder(): ReportBuilder {
+  const files: FileSummary[] = [];
+  const rejectedRows: RejectedRow[] = [];
+  const missingColumns: MissingColumn[] = [];
+  const coercions = new Map<string, TypeCoercion>();
+
+  return {
+    fileSummary: (summary) => files.push(summary),
+    rejectRow: (row) => rejectedRows.push(row),
+    missingColumn: (col) => missingColumns.push(col),
+    coercion: (file, column, kind, line, from, to) => {
+      const key = `${file}\u0000${column}\u0000${kind}`;
+      let entry = coercions.get(key);
+      if (!entry) {
+        entry = { file, column, kind, count: 0, examples: [] };
+        coercions.set(key, entry);
+      }
+      entry.count += 1;
+      if (entry.examples.length < MAX_COERCION_EXAMPLES) entry.examples.push({ line, from, to });
+    },
+    merge: (report) => {
+      files.push(...report.files);
+      rejectedRows.push(...report.rejectedRows);
+      missingColumns.push(...report.missingColumns);
+      for (const c of report.coercions) {
+        const key = `${c.file}\u0000${c.column}\u0000${c.kind}`;
+        const entry = coercions.get(key);
+        if (!entry) {
+          coercions.set(key, { ...c, examples: [...c.examples] });
+          continue;
+        }
+        entry.count += c.count;
+        entry.examples.push(...c.examples.slice(0, MAX_COERCION_EXAMPLES - entry.examples.length));
+      }
+    },
+    build: () => ({
+      files: [...files],
+      rejectedRows: [...rejectedRows],
+      missingColumns: [...missingColumns],
+      coercions: Array.from(coercions.values()),
+    }),
+  };
+}
+
+// Optional columns (a mapping file's primary and weight columns, say) are
+// often absent on purpose, so only missing required ones count.
+export function reportHasIssues(report: ValidationReport): boolean {
+  return report.rejectedRows.length > 0 || report.missingColumns.some((c) => c.required);
+}
@@ -0,0 +1,107 @@
+import { periodColumnSuffixes, type Period, type PeriodPair } from "./periods";
+
+export type ColumnType = "string" | "number";
+
+export type ColumnSpec = {
+  type: ColumnType;
+  // header names to try, exact (case-insensitive) first, then as substrings
+  candidates: readonly string[];
+  // last-resort substring when no candidate matches
+  fallbackSubstring?: string;
+  // a row missing a required value is rejected; optional values become null
+  required: boolean;
+};
+
+export type TableSchema = {
+  file: string;
+  columns: Record<string, ColumnSpec>;
+};
+
+type ValueFor<C extends ColumnSpec> = C["type"] extends "number"
+  ? C["required"] extends true
+    ? number
+    : number | null
+  : C["required"] extends true
+    ? string
+    : string | null;
+
+export type RowOf<S extends TableSchema> = {
+  [K in keyof S["columns"]]: ValueFor<S["columns"][K]>;
+};
+
+export function verticalChangeSchema(file: string, pair: PeriodPair) {
+  const impressionCandidates = (p: Period) =>
+    periodColumnSuffixes(p).flatMap((s) => [`imp_${s}`, `impressions_${s}`]);
+
+  return {
+    file,
+    columns: {
+      vertical: { type: "string", candidates: ["vertical", "vert", "category", "name"], required: true },
+      pct_change: {
+        type: "number",
+        candidates: ["%_change", "pct_change", "percent_change", "change"],
+        required: true,
+      },
+      base_impressions: { type: "number", candidates: impressionCandidates(pair.base), required: false },
+      comparison_impressions: { type: "number", candidates: impressionCandidates(pair.comparison), required: false },
+    },
+  } as const satisfies TableSchema;
+}
+
+function metricCandidates(period: Period, names: string[]): string[] {
+  const suffixes = periodColumnSuffixes(period);
+  return [
+    ...names.flatMap((n) => suffixes.map((s) => `${n}_${s}`)),
+    ...suffixes.map((s) => `tv_${names[0]}_${s}`),
+    `tv_${names[0]}`,
+    ...names,
+  ];
+}
+
+export function periodMetricsSchema(period: Period) {
+  return {
+    file: period.file,
+    columns: {
+      advertiser: { type: "string", candidates: ["advertiser_name"], required: true },
+      impressions: {
+        type: "number",
+        candidates: metricCandidates(period, ["impressions"]),
+        fallbackSubstring: "impress",
+        required: true,
+      },
+      reach: { type: "number", candidates: metricCandidates(period, ["reach", "households"]), required: false },
+      frequency: { type: "number", candidates: metricCandidates(period, ["frequency", "freq"]), required: false },
+    },
+  } as const satisfies TableSchema;
+}
+
+export function mappingSchema(file: string) {
+  return {
+    file,
+    columns: {
+      advertiser: { type: "string", candidates: ["advertiser", "advertiser_name", "name", "brand"], required: true },
+      vertical: { type: "string", candidates: ["vertical", "vert", "category"], required: true },
+      // read by the primary and weighted attribution policies
+      primary: { type: "string", candidates: ["primary", "is_primary"], required: false },
+      weight: { type: "number", candidates: ["weight", "attribution_weight", "share"], required: false },
+    },
+  } as const satisfies TableSchema;
+}
+
+export function parentSchema(file: string) {
+  return {
+    file,
+    columns: {
+      advertiser: { type: "string", candidates: ["advertiser", "advertiser_name", "brand", "name"], required: true },
+      parent: {
+        type: "string",
+        candidates: ["parent", "parent_company", "holding_company", "company"],
+        required: true,
+      },
+    },
+  } as const satisfies TableSchema;
+}
+
+export type PeriodMetricsRow = RowOf<ReturnType<typeof periodMetricsSchema>> & { line: number };
+export type MappingRow = RowOf<ReturnType<typeof mappingSchema>> & { line: number };
+export type ParentRow = RowOf<ReturnType<typeof parentSchema>> & { line: number };
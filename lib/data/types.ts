@@ -0,0 +1,99 @@
+import type { SharedAttribution } from "./attribution";
+
+export type VerticalDatum = {
+  vertical: string;
+  pct_change: number;
+};
+
+export type AdvertiserDatum = {
+  advertiser: string;
+  // comparison-period impressions counted in the vertical
+  impressions: number;
+  // set when the advertiser is mapped to more than one vertical
+  shared?: SharedAttribution;
+};
+
+// A parent company's bar in one vertical: its brands mapped to the vertical,
+// with their comparison-period impressions summed.
+export type ParentDatum = AdvertiserDatum & {
+  brands: string[];
+};
+
+export type PeriodMetrics = {
+  impressions: number | null;
+  reach: number | null;
+  frequency: number | null;
+};
+
+// One advertiser's metrics in the base and comparison periods of a pair;
+// null when the advertiser has no row in that period's file.
+export type AdvertiserDetailDatum = {
+  advertiser: string;
+  base: PeriodMetrics | null;
+  comparison: PeriodMetrics | null;
+};
+
+// One vertical's advertisers as the advertiser chart draws them: largest
+// first, with both periods' metrics as attributed to the vertical.
+export type VerticalAdvertisers = {
+  vertical: string;
+  advertisers: AdvertiserDatum[];
+  details: Record<string, AdvertiserDetailDatum>;
+};
+
+// =========================
+// Validation report
+// =========================
+
+// How a schema field was matched to a CSV header.
+export type ResolvedColumn = {
+  field: string;
+  column: string;
+  match: "exact" | "substring" | "fallback";
+};
+
+export type RejectedRow = {
+  file: string;
+  // 1-based line in the CSV, counting the header as line 1
+  line: number;
+  reason: string;
+  values: Record<string, string>;
+};
+
+export type MissingColumn = {
+  file: string;
+  field: string;
+  candidates: string[];
+  found: string[];
+  required: boolean;
+};
+
+export type CoercionKind =
+  | "trimmed"
+  | "thousands-separator"
+  | "percent-sign"
+  | "invalid-to-null"
+  | "proportion-to-percent";
+
+export type TypeCoercion = {
+  file: string;
+  column: string;
+  kind: CoercionKind;
+  count: number;
+  // a few raw -> coerced samples, for display
+  examples: { line: number; from: string; to: string }[];
+};
+
+export type FileSummary = {
+  file: string;
+  rowsRead: number;
+  rowsAccepted: number;
+  columns: ResolvedColumn[];
+};
+
+export type ValidationReport = {
+  files: FileSummary[];
+  rejectedRows: RejectedRow[];
+  missingColumns: MissingColumn[];
+  coercions: TypeCoercion[];
+};
@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseManifest } from "./manifest";
+import { normalizeUpload, planUpload, UploadError, type UploadFile } from "./upload";
+
+const current = parseManifest(
+  JSON.stringify({
+    mapping: "adv_verticals.csv",
+    periods: [
+      { id: "2024-H2", kind: "half", year: 2024, index: 2, file: "periods/2024-H2.csv" },
+      { id: "2025-H2", kind: "half", year: 2025, index: 2, file: "periods/2025-H2.csv" },
+    ],
+    defaultPair: { base: "2024-H2", comparison: "2025-H2" },
+    verticalChanges: [{ base: "2024-H2", comparison: "2025-H2", file: "vertical_pct_change.csv" }],
+  })
+);
+
+const file = (name: string, role: UploadFile["role"], csv = "x\n1"): UploadFile => ({ name, role, csv });
+
+describe("planUpload", () => {
+  it("adds a new period and lets the rest of the upload refer to it", () => {
+    const plan = planUpload(current, {
+      files: [
+        file("h1.csv", { kind: "newPeriod", period: { kind: "half", year: 2025, index: 1 } }),
+        file("change.csv", { kind: "verticalChange", base: "2025-H1", comparison: "2025-H2" }),
+      ],
+      defaultPair: { base: "2025-H1", comparison: "2025-H2" },
+    });
+    assert.deepEqual(
+      plan.files.map((f) => f.target),
+      ["periods/2025-H1.csv", "vertical_pct_change_2025-H1_2025-H2.csv"]
+    );
+    assert.deepEqual(plan.manifest.periods.at(-1), {
+      id: "2025-H1",
+      kind: "half",
+      year: 2025,
+      index: 1,
+      label: "1H, 2025",
+      file: "periods/2025-H1.csv",
+    });
+    assert.equal(plan.manifest.verticalChanges.length, 2);
+    assert.deepEqual(plan.manifest.defaultPair, { base: "2025-H1", comparison: "2025-H2" });
+    // the current manifest is left as it was
+    assert.equal(current.periods.length, 2);
+    assert.equal(current.verticalChanges.length, 1);
+  });
+
+  it("replaces the files the manifest already names", () => {
+    const plan = planUpload(current, {
+      files: [
+        file("map.csv", { kind: "mapping" }),
+        file("h2.csv", { kind: "period", periodId: "2025-H2" }),
+        file("change.csv", { kind: "verticalChange", base: "2024-H2", comparison: "2025-H2" }),
+      ],
+    });
+    assert.deepEqual(
+      plan.files.map((f) => f.target),
+      ["adv_verticals.csv", "periods/2025-H2.csv", "vertical_pct_change.csv"]
+    );
+    assert.deepEqual(plan.manifest.periods, current.periods);
+    assert.deepEqual(plan.manifest.defaultPair, current.defaultPair);
+  });
+
+  it("rejects uploads it cannot place", () => {
+    const rejects = (files: UploadFile[], message: RegExp, defaultPair?: { base: string; comparison: string }) =>
+      assert.throws(() => planUpload(current, { files, defaultPair }), (err) => {
+        assert.ok(err instanceof UploadError);
+        assert.match(err.message, message);
+        return true;
+      });
+
+    rejects([file("h2.csv", { kind: "newPeriod", period: { kind: "half", year: 2025, index: 2 } })], /already a period/);
+    rejects([file("q1.csv", { kind: "period", periodId: "2026-Q1" })], /unknown period 2026-Q1/);
+    rejects([file("c.csv", { kind: "verticalChange", base: "2025-H2", comparison: "2025-H2" })], /two different/);
+    rejects(
+      [file("a.csv", { kind: "period", periodId: "2025-H2" }), file("b.csv", { kind: "period", periodId: "2025-H2" })],
+      /both be written to periods\/2025-H2\.csv/
+    );
+    rejects([], /default pair/, { base: "2024-H2", comparison: "2026-H1" });
+  });
+});
+
+describe("normalizeUpload", () => {
+  const periodFile = (csv: string, columns?: UploadFile["columns"]) =>
+    planUpload(current, { files: [{ ...file("h2.csv", { kind: "period", periodId: "2025-H2" }, csv), columns }] })
+      .files[0];
+
+  it("keeps the matched columns under the names the loader looks for first", () => {
+    const csv = "advertiser_name,notes,impressions,households\nAcme,hi,1000,100\nBeta,,500,\n";
+    assert.equal(
+      normalizeUpload(periodFile(csv)),
+      "advertiser_name,impressions_2h_2025,reach_2h_2025\nAcme,1000,100\nBeta,500,"
+    );
+  });
+
+  it("reads confirmed columns and leaves out fields mapped to nothing", () => {
+    const csv = "advertiser_name,impressions,households,hh_confirmed\nAcme,1000,100,90\n";
+    assert.equal(
+      normalizeUpload(periodFile(csv, { reach: "hh_confirmed" })),
+      "advertiser_name,impressions_2h_2025,reach_2h_2025\nAcme,1000,90"
+    );
+    assert.equal(
+      normalizeUpload(periodFile(csv, { reach: null })),
+      "advertiser_name,impressions_2h_2025\nAcme,1000"
+    );
+  });
+
+  it("rejects a confirmed column the file does not have", () => {
+    assert.throws(
+      () => normalizeUpload(periodFile("advertiser_name,impressions\nAcme,1\n", { impressions: "imps" })),
+      /h2\.csv has no column "imps"/
+    );
+  });
+});
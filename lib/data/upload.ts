@@ -0,0 +1,364 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { csvFormat, csvParse } from "d3-dsv";
+import { ALIASES_FILE } from "./aliases";
+import { DatasetError, loadDataset } from "./load";
+import { findPeriod, formatManifest, MANIFEST_FILE, ManifestError, type Manifest } from "./manifest";
+import { defaultPeriodId, defaultPeriodLabel, isValidPeriodIndex, type Period, type PeriodKind } from "./periods";
+import { parseTable, suggestColumns } from "./readTable";
+import { createReportBuilder } from "./report";
+import { mappingSchema, periodMetricsSchema, verticalChangeSchema, type ColumnType, type TableSchema } from "./schema";
+import type { ResolvedColumn, ValidationReport } from "./types";
+
+// Uploaded CSVs are checked against the same schemas the loader reads with,
+// rewritten with the confirmed column mapping baked into their headers, and
+// only published (see ./versions.ts) once the whole dataset loads from a
+// staging copy.
+
+export type NewPeriod = { kind: PeriodKind; year: number; index: number; label?: string };
+
+// What an uploaded file replaces or adds.
+export type UploadRole =
+  | { kind: "mapping" }
+  | { kind: "period"; periodId: string }
+  | { kind: "newPeriod"; period: NewPeriod }
+  | { kind: "verticalChange"; base: string; comparison: string };
+
+export type UploadFile = {
+  // the file's name on the analyst's machine, for messages
+  name: string;
+  role: UploadRole;
+  csv: string;
+  // schema field -> header to read it from; null leaves an optional field
+  // out. Fields not listed use the suggested header.
+  columns?: Record<string, string | null>;
+};
+
+export type UploadRequest = {
+  files: UploadFile[];
+  // the pair the dashboard opens on; the manifest's current one when left out
+  defaultPair?: { base: string; comparison: string };
+};
+
+export class UploadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UploadError";
+  }
+}
+
+export type FieldPreview = {
+  field: string;
+  type: ColumnType;
+  required: boolean;
+  candidates: string[];
+  suggested: ResolvedColumn | null;
+};
+
+export type UploadPreview = {
+  // path in the data directory the file will be written to
+  target: string;
+  headers: string[];
+  sample: Record<string, string>[];
+  rows: number;
+  fields: FieldPreview[];
+};
+
+export type PlannedFile = {
+  upload: UploadFile;
+  target: string;
+  schema: TableSchema;
+};
+
+export type UploadPlan = {
+  manifest: Manifest;
+  files: PlannedFile[];
+};
+
+export type UploadValidation = {
+  files: { name: string; target: string; report: ValidationReport }[];
+  // whether the dashboard's default pair loads from the staged data
+  dataset: { ok: boolean; error: string | null };
+  manifest: Manifest;
+  ok: boolean;
+};
+
+const SAMPLE_ROWS = 5;
+
+// =========================
+// Request parsing
+// =========================
+
+function asRecord(v: unknown, where: string): Record<string, unknown> {
+  if (typeof v !== "object" || v === null || Array.isArray(v)) throw new UploadError(`${where} must be an object.`);
+  return v as Record<string, unknown>;
+}
+
+function asString(v: unknown, where: string): string {
+  if (typeof v !== "string") throw new UploadError(`${where} must be a string.`);
+  return v;
+}
+
+function parseRole(v: unknown, where: string): UploadRole {
+  const r = asRecord(v, where);
+  switch (r.kind) {
+    case "mapping":
+      return { kind: "mapping" };
+    case "period":
+      return { kind: "period", periodId: asString(r.periodId, `${where}.periodId`) };
+    case "newPeriod": {
+      const p = asRecord(r.period, `${where}.period`);
+      const kind = asString(p.kind, `${where}.period.kind`) as PeriodKind;
+      const year = Number(p.year);
+      const index = kind === "year" ? 1 : Number(p.index);
+      if (!Number.isInteger(year) || !isValidPeriodIndex(kind, index)) {
+        throw new UploadError(`${where}.period is not a valid ${kind}.`);
+      }
+      const label = p.label === undefined || p.label === "" ? undefined : asString(p.label, `${where}.period.label`);
+      return { kind: "newPeriod", period: { kind, year, index, label } };
+    }
+    case "verticalChange":
+      return {
+        kind: "verticalChange",
+        base: asString(r.base, `${where}.base`),
+        comparison: asString(r.comparison, `${where}.comparison`),
+      };
+    default:
+      throw new UploadError(`${where}.kind must be mapping, period, newPeriod or verticalChange.`);
+  }
+}
+
+export function parseUploadFile(v: unknown, where = "file"): UploadFile {
+  const f = asRecord(v, where);
+  let columns: Record<string, string | null> | undefined;
+  if (f.columns !== undefined) {
+    columns = {};
+    for (const [field, col] of Object.entries(asRecord(f.columns, `${where}.columns`))) {
+      columns[field] = col === null ? null : asString(col, `${where}.columns.${field}`);
+    }
+  }
+  return {
+    name: asString(f.name, `${where}.name`),
+    role: parseRole(f.role, `${where}.role`),
+    csv: asString(f.csv, `${where}.csv`),
+    columns,
+  };
+}
+
+export function parseUploadRequest(v: unknown): UploadRequest {
+  const r = asRecord(v, "request");
+  if (!Array.isArray(r.files) || r.files.length === 0) throw new UploadError("files must list at least one file.");
+  const files = r.files.map((f, i) => parseUploadFile(f, `files[${i}]`));
+  let defaultPair: UploadRequest["defaultPair"];
+  if (r.defaultPair !== undefined) {
+    const d = asRecord(r.defaultPair, "defaultPair");
+    defaultPair = { base: asString(d.base, "defaultPair.base"), comparison: asString(d.comparison, "defaultPair.comparison") };
+  }
+  return { files, defaultPair };
+}
+
+// =========================
+// Planning
+// =========================
+
+/**
+ * Works out where each file goes and the manifest that results: new periods
+ * are added, vertical change files registered for their pair and the default
+ * pair updated. The current manifest is not modified.
+ */
+export function planUpload(current: Manifest, request: UploadRequest): UploadPlan {
+  const manifest: Manifest = {
+    ...current,
+    periods: current.periods.slice(),
+    verticalChanges: current.verticalChanges.slice(),
+    defaultPair: request.defaultPair ?? current.defaultPair,
+  };
+
+  // new periods first, so other files in the same upload can refer to them
+  const added = new Map<UploadFile, Period>();
+  for (const f of request.files) {
+    if (f.role.kind !== "newPeriod") continue;
+    const { kind, year, index, label } = f.role.period;
+    const id = defaultPeriodId(kind, year, index);
+    if (findPeriod(manifest, id)) {
+      throw new UploadError(`${f.name}: ${id} is already a period; upload it as a replacement for that period.`);
+    }
+    const period: Period = {
+      id,
+      kind,
+      year,
+      index,
+      label: label ?? defaultPeriodLabel(kind, year, index),
+      file: `periods/${id}.csv`,
+    };
+    manifest.periods.push(period);
+    added.set(f, period);
+  }
+
+  const files = request.files.map((upload): PlannedFile => {
+    const role = upload.role;
+    switch (role.kind) {
+      case "mapping":
+        return { upload, target: manifest.mapping, schema: mappingSchema(manifest.mapping) };
+      case "period": {
+        const period = findPeriod(manifest, role.periodId);
+        if (!period) throw new UploadError(`${upload.name}: unknown period ${role.periodId}.`);
+        return { upload, target: period.file, schema: periodMetricsSchema(period) };
+      }
+      case "newPeriod": {
+        const period = added.get(upload)!;
+        return { upload, target: period.file, schema: periodMetricsSchema(period) };
+      }
+      case "verticalChange": {
+        const base = findPeriod(manifest, role.base);
+        const comparison = findPeriod(manifest, role.comparison);
+        if (!base || !comparison || base.id === comparison.id) {
+          throw new UploadError(`${upload.name}: the vertical change file needs two different, known periods.`);
+        }
+        let source = manifest.verticalChanges.find((v) => v.base === base.id && v.comparison === comparison.id);
+        if (!source) {
+          source = { base: base.id, comparison: comparison.id, file: `vertical_pct_change_${base.id}_${comparison.id}.csv` };
+          manifest.verticalChanges.push(source);
+        }
+        return { upload, target: source.file, schema: verticalChangeSchema(source.file, { base, comparison }) };
+      }
+    }
+  });
+
+  const targets = new Set<string>();
+  for (const f of files) {
+    if (targets.has(f.target)) throw new UploadError(`Two files would both be written to ${f.target}.`);
+    targets.add(f.target);
+  }
+
+  const { base, comparison } = manifest.defaultPair;
+  if (!findPeriod(manifest, base) || !findPeriod(manifest, comparison) || base === comparison) {
+    throw new UploadError("The default pair needs two different, known periods.");
+  }
+
+  return { manifest, files };
+}
+
+// =========================
+// Preview + normalization
+// =========================
+
+function parseCsv(planned: PlannedFile) {
+  const parsed = csvParse(planned.upload.csv);
+  const headers = parsed.columns ?? [];
+  if (headers.length === 0) throw new UploadError(`${planned.upload.name} has no header row.`);
+  return { parsed, headers };
+}
+
+// Headers, a few rows and the suggested column for each field of the file's schema.
+export function previewUpload(manifest: Manifest, file: UploadFile): UploadPreview {
+  const planned = planUpload(manifest, { files: [file] }).files[0];
+  const { parsed, headers } = parseCsv(planned);
+  const suggested = suggestColumns(headers, planned.schema);
+  return {
+    target: planned.target,
+    headers,
+    sample: parsed.slice(0, SAMPLE_ROWS).map((r) => ({ ...r }) as Record<string, string>),
+    rows: parsed.length,
+    fields: Object.entries(planned.schema.columns).map(([field, spec]) => ({
+      field,
+      type: spec.type,
+      required: spec.required,
+      candidates: [...spec.candidates],
+      suggested: suggested[field],
+    })),
+  };
+}
+
+/**
+ * The file with only its mapped columns, each renamed to the first header
+ * its field's schema looks for, so the loader reads exactly the confirmed
+ * mapping. Unmapped fields are left out (a required one then shows up in
+ * validation as a missing column).
+ */
+export function normalizeUpload(planned: PlannedFile): string {
+  const { parsed, headers } = parseCsv(planned);
+  const suggested = suggestColumns(headers, planned.schema);
+
+  const picks: { from: string; to: string }[] = [];
+  for (const [field, spec] of Object.entries(planned.schema.columns)) {
+    const override = planned.upload.columns?.[field];
+    const from = override !== undefined ? override : (suggested[field]?.column ?? null);
+    if (from === null) continue;
+    if (!headers.includes(from)) throw new UploadError(`${planned.upload.name} has no column "${from}".`);
+    picks.push({ from, to: spec.candidates[0] });
+  }
+
+  const rows = parsed.map((r) => Object.fromEntries(picks.map((p) => [p.to, r[p.from] ?? ""])));
+  return csvFormat(rows, picks.map((p) => p.to));
+}
+
+// =========================
+// Staging + validation
+// =========================
+
+export type StagedUpload = {
+  plan: UploadPlan;
+  // a copy of the data directory with the upload applied
+  dir: string;
+  validation: UploadValidation;
+};
+
+// Files a manifest refers to, relative to the data directory, manifest included.
+export function manifestFiles(manifest: Manifest): string[] {
+  return [
+    MANIFEST_FILE,
+    manifest.mapping,
+    ...(manifest.parents ? [manifest.parents] : []),
+    ...manifest.periods.map((p) => p.file),
+    ...manifest.verticalChanges.map((v) => v.file),
+  ];
+}
+
+/**
+ * Applies the upload to a temporary copy of the data (the files the current
+ * manifest uses, the alias table and the uploaded ones) and validates it: each file against
+ * its schema, then the dataset as the dashboard would load it. The caller
+ * removes `dir` with discardStage.
+ */
+export function stageUpload(dataDir: string, current: Manifest, request: UploadRequest): StagedUpload {
+  const plan = planUpload(current, request);
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "upload-"));
+  try {
+    for (const file of [...manifestFiles(current), ALIASES_FILE]) {
+      const from = path.join(dataDir, file);
+      if (!fs.existsSync(from)) continue;
+      fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+      fs.copyFileSync(from, path.join(dir, file));
+    }
+
+    const files = plan.files.map((planned) => {
+      const csv = normalizeUpload(planned);
+      fs.mkdirSync(path.dirname(path.join(dir, planned.target)), { recursive: true });
+      fs.writeFileSync(path.join(dir, planned.target), csv);
+      const report = createReportBuilder();
+      parseTable(csv, planned.schema, report);
+      return { name: planned.upload.name, target: planned.target, report: report.build() };
+    });
+    fs.writeFileSync(path.join(dir, MANIFEST_FILE), formatManifest(plan.manifest));
+
+    let dataset: UploadValidation["dataset"] = { ok: true, error: null };
+    try {
+      loadDataset(dir);
+    } catch (err) {
+      if (!(err instanceof DatasetError || err instanceof ManifestError)) throw err;
+      dataset = { ok: false, error: err.message };
+    }
+
+    const ok = dataset.ok && files.every((f) => f.report.missingColumns.every((c) => !c.required));
+    return { plan, dir, validation: { files, dataset, manifest: plan.manifest, ok } };
+  } catch (err) {
+    discardStage(dir);
+    throw err;
+  }
+}
+
+export function discardStage(dir: string) {
+  fs.rmSync(dir, { recursive: true, force: true });
+}
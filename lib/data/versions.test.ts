@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { ALIASES_FILE } from "./aliases";
+import { MANIFEST_FILE } from "./manifest";
+import { UploadError } from "./upload";
+import { currentVersionId, listVersions, rollBackTo, snapshotData } from "./versions";
+
+const MANIFEST = JSON.stringify({
+  mapping: "adv_verticals.csv",
+  periods: [
+    { id: "2024-H2", kind: "half", year: 2024, index: 2, file: "periods/2024-H2.csv" },
+    { id: "2025-H2", kind: "half", year: 2025, index: 2, file: "periods/2025-H2.csv" },
+  ],
+  defaultPair: { base: "2024-H2", comparison: "2025-H2" },
+  verticalChanges: [],
+});
+
+const ALIASES = JSON.stringify({ entities: [{ name: "Acme", aliases: ["ACME Corp"] }] });
+
+describe("snapshotData and rollBackTo", () => {
+  let dataDir: string;
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(dataDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(dataDir, file), content);
+  };
+  const read = (file: string) => fs.readFileSync(path.join(dataDir, file), "utf-8");
+  const exists = (file: string) => fs.existsSync(path.join(dataDir, file));
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "versions-"));
+    write(MANIFEST_FILE, MANIFEST);
+    write("adv_verticals.csv", "advertiser,vertical\nAcme,Travel\n");
+    write("periods/2024-H2.csv", "advertiser_name,impressions\nAcme,100\n");
+    write("periods/2025-H2.csv", "advertiser_name,impressions\nAcme,150\n");
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it("records the manifest's files and the alias table, and marks the version current", () => {
+    write(ALIASES_FILE, ALIASES);
+    const v = snapshotData(dataDir, "first", new Date("2025-10-19T15:30:12Z"));
+    assert.equal(v.id, "20251019-153012");
+    assert.deepEqual(v.files, [
+      MANIFEST_FILE,
+      "adv_verticals.csv",
+      "periods/2024-H2.csv",
+      "periods/2025-H2.csv",
+      ALIASES_FILE,
+    ]);
+    assert.equal(currentVersionId(dataDir), v.id);
+
+    const again = snapshotData(dataDir, "second", new Date("2025-10-19T15:30:12Z"));
+    assert.equal(again.id, "20251019-153012-2");
+    assert.deepEqual(
+      listVersions(dataDir).map((x) => x.note),
+      ["second", "first"]
+    );
+  });
+
+  it("restores the version's files and alias table", () => {
+    write(ALIASES_FILE, ALIASES);
+    const v = snapshotData(dataDir, "before", new Date("2025-10-19T15:30:12Z"));
+    write("periods/2025-H2.csv", "advertiser_name,impressions\nAcme,999\n");
+    write(ALIASES_FILE, JSON.stringify({ entities: [] }));
+    snapshotData(dataDir, "after", new Date("2025-10-20T09:00:00Z"));
+
+    rollBackTo(dataDir, v.id);
+    assert.equal(read("periods/2025-H2.csv"), "advertiser_name,impressions\nAcme,150\n");
+    assert.equal(read(ALIASES_FILE), ALIASES);
+    assert.equal(currentVersionId(dataDir), v.id);
+  });
+
+  it("removes an alias table the version did not have", () => {
+    const v = snapshotData(dataDir, "no aliases", new Date("2025-10-19T15:30:12Z"));
+    write(ALIASES_FILE, ALIASES);
+    rollBackTo(dataDir, v.id);
+    assert.equal(exists(ALIASES_FILE), false);
+    // the other files are still there
+    assert.equal(read(MANIFEST_FILE), MANIFEST);
+  });
+
+  it("leaves the alias table alone for versions that do not list it", () => {
+    const v = snapshotData(dataDir, "older", new Date("2025-10-19T15:30:12Z"));
+    const meta = path.join(dataDir, ".versions", v.id, "version.json");
+    fs.writeFileSync(meta, JSON.stringify({ ...v, files: v.files.filter((f) => f !== ALIASES_FILE) }));
+    write(ALIASES_FILE, ALIASES);
+    rollBackTo(dataDir, v.id);
+    assert.equal(read(ALIASES_FILE), ALIASES);
+  });
+
+  it("refuses an unknown version or one whose manifest no longer parses", () => {
+    assert.throws(() => rollBackTo(dataDir, "nope"), UploadError);
+    const v = snapshotData(dataDir, "broken", new Date("2025-10-19T15:30:12Z"));
+    fs.writeFileSync(path.join(dataDir, ".versions", v.id, MANIFEST_FILE), "{");
+    write(ALIASES_FILE, ALIASES);
+    assert.throws(() => rollBackTo(dataDir, v.id), /not valid JSON/);
+    assert.equal(read(ALIASES_FILE), ALIASES);
+  });
+});
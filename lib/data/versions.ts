@@ -0,0 +1,113 @@
+import fs from "node:fs";
+import path from "node:path";
+import { ALIASES_FILE } from "./aliases";
+import { loadManifest, MANIFEST_FILE, parseManifest } from "./manifest";
+import { discardStage, manifestFiles, stageUpload, UploadError, type UploadRequest, type UploadValidation } from "./upload";
+
+// Published datasets are kept under <dataDir>/.versions/<id>/: the manifest,
+// every file it refers to and the alias table, as published. Rolling back
+// copies a version's files over the live ones; `current` records which
+// version is live.
+
+export const VERSIONS_DIR = ".versions";
+const META_FILE = "version.json";
+const CURRENT_FILE = "current";
+
+export type DataVersion = {
+  id: string;
+  createdAt: string;
+  note: string;
+  // every file the version covers, including any (the alias table) the data
+  // did not have when it was saved
+  files: string[];
+};
+
+function versionsDir(dataDir: string) {
+  return path.join(dataDir, VERSIONS_DIR);
+}
+
+function copyFiles(fromDir: string, toDir: string, files: string[]) {
+  for (const file of files) {
+    const from = path.join(fromDir, file);
+    if (!fs.existsSync(from)) continue;
+    fs.mkdirSync(path.dirname(path.join(toDir, file)), { recursive: true });
+    fs.copyFileSync(from, path.join(toDir, file));
+  }
+}
+
+// e.g. 20251019-153012, suffixed when two versions land in the same second
+function newVersionId(dataDir: string, now: Date): string {
+  const stamp = now.toISOString().replace(/[-:]/g, "").replace("T", "-").slice(0, 15);
+  let id = stamp;
+  for (let i = 2; fs.existsSync(path.join(versionsDir(dataDir), id)); i++) id = `${stamp}-${i}`;
+  return id;
+}
+
+// Newest first.
+export function listVersions(dataDir: string): DataVersion[] {
+  const dir = versionsDir(dataDir);
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir, { withFileTypes: true })
+    .filter((e) => e.isDirectory() && fs.existsSync(path.join(dir, e.name, META_FILE)))
+    .map((e) => JSON.parse(fs.readFileSync(path.join(dir, e.name, META_FILE), "utf-8")) as DataVersion)
+    .sort((a, b) => b.id.localeCompare(a.id));
+}
+
+export function currentVersionId(dataDir: string): string | null {
+  const file = path.join(versionsDir(dataDir), CURRENT_FILE);
+  return fs.existsSync(file) ? fs.readFileSync(file, "utf-8").trim() || null : null;
+}
+
+// Copies the live manifest, its files and the alias table into a new version
+// and marks it current.
+export function snapshotData(dataDir: string, note: string, now = new Date()): DataVersion {
+  const files = [...manifestFiles(loadManifest(dataDir)), ALIASES_FILE];
+  const id = newVersionId(dataDir, now);
+  const dir = path.join(versionsDir(dataDir), id);
+  copyFiles(dataDir, dir, files);
+  const version: DataVersion = { id, createdAt: now.toISOString(), note, files };
+  fs.writeFileSync(path.join(dir, META_FILE), `${JSON.stringify(version, null, 2)}\n`);
+  fs.writeFileSync(path.join(versionsDir(dataDir), CURRENT_FILE), id);
+  return version;
+}
+
+/**
+ * Publishes an upload: stages and validates it, and only if the staged data
+ * loads, writes the uploaded files and new manifest into the data directory
+ * and records them as a new version. The data as it was is snapshotted first
+ * when no version exists yet, so there is always something to roll back to.
+ */
+export function publishUpload(
+  dataDir: string,
+  request: UploadRequest,
+  note: string
+): { version: DataVersion | null; validation: UploadValidation } {
+  const staged = stageUpload(dataDir, loadManifest(dataDir), request);
+  try {
+    if (!staged.validation.ok) return { version: null, validation: staged.validation };
+    if (listVersions(dataDir).length === 0) snapshotData(dataDir, "Data before the first upload");
+    copyFiles(staged.dir, dataDir, [MANIFEST_FILE, ...staged.plan.files.map((f) => f.target)]);
+    return { version: snapshotData(dataDir, note), validation: staged.validation };
+  } finally {
+    discardStage(staged.dir);
+  }
+}
+
+// Makes a stored version live again. A file the version covers but did not
+// have is removed, so an alias table added since goes too; other files added
+// since are left in place but are no longer referenced by the restored
+// manifest.
+export function rollBackTo(dataDir: string, id: string): DataVersion {
+  const version = listVersions(dataDir).find((v) => v.id === id);
+  if (!version) throw new UploadError(`Unknown version: ${id}`);
+  const dir = path.join(versionsDir(dataDir), id);
+  // refuse a version whose manifest no longer parses rather than break the dashboard
+  parseManifest(fs.readFileSync(path.join(dir, MANIFEST_FILE), "utf-8"));
+  copyFiles(dir, dataDir, version.files);
+  for (const file of version.files) {
+    if (!fs.existsSync(path.join(dir, file))) fs.rmSync(path.join(dataDir, file), { force: true });
+  }
+  fs.writeFileSync(path.join(versionsDir(dataDir), CURRENT_FILE), id);
+  return version;
+}
@@ -0,0 +1,261 @@
+import type { ChartUrlState } from "@/lib/chartState";
+import {
+  ADVERTISER_SORT_LABELS,
+  changeMetricFor,
+  metricPctChange,
+  pageAdvertisers,
+  rankAdvertisers,
+} from "@/lib/data/advertisers";
+import { describeShared, type AttributionPolicy } from "@/lib/data/attribution";
+import { filterCohort, type CohortFilter } from "@/lib/data/cohorts";
+import { basePhrase, chartTitle, periodRangePhrase, type PeriodPair } from "@/lib/data/periods";
+import type { AdvertiserDatum, VerticalAdvertisers, VerticalDatum } from "@/lib/data/types";
+import { DEFAULT_PALETTE, type ChartPalette } from "@/lib/theme";
+import { wrapText, type Scene, type SceneNode } from "./scene";
+
+// The same inputs VerticalPctChangeChart receives, plus the URL state to draw.
+export type ChartSceneInput = {
+  data: VerticalDatum[];
+  // the selected vertical's advertisers; null (or another vertical's) draws none
+  advertisers: VerticalAdvertisers | null;
+  periods: PeriodPair;
+  state: ChartUrlState;
+  cohort: CohortFilter;
+  // how advertisers mapped to several verticals are counted in each
+  attribution: AttributionPolicy;
+  // the theme's colours; the standard palette when left out
+  palette?: ChartPalette;
+};
+
+const WIDTH = 1400;
+
+function fmtMM(n: number | null | undefined) {
+  if (n === null || n === undefined || !Number.isFinite(n)) return "—";
+  return `${Math.round(n / 1_000_000).toLocaleString("en-US")}MM`;
+}
+
+function fmtPct(n: number | null | undefined) {
+  if (n === null || n === undefined || !Number.isFinite(n)) return "—";
+  return `${n >= 0 ? "+" : ""}${n.toFixed(1)}%`;
+}
+
+// The selected vertical's advertisers, or none when they were not provided.
+function advertisersOf(input: ChartSceneInput): VerticalAdvertisers {
+  const { vertical } = input.state;
+  return input.advertisers && input.advertisers.vertical === vertical
+    ? input.advertisers
+    : { vertical: vertical ?? "", advertisers: [], details: {} };
+}
+
+/**
+ * The page of the selected vertical's advertisers the chart shows for
+ * `input.state`: cohort-filtered, ranked and paged the same way as on screen.
+ */
+export function advertiserPageFor(input: ChartSceneInput) {
+  const { advertisers, details } = advertisersOf(input);
+  const { state } = input;
+  const ranked = rankAdvertisers(filterCohort(advertisers, details, input.cohort), details, state.sort);
+  // lapsed advertisers are drawn (and, in the lapsed cohort, totalled) by their base period
+  const impressionsOf = (a: AdvertiserDatum) =>
+    details[a.advertiser]?.comparison === null ? (details[a.advertiser]?.base?.impressions ?? 0) : a.impressions;
+  const page = pageAdvertisers(
+    ranked,
+    state.top === "all" ? null : state.top,
+    state.page,
+    input.cohort === "lapsed" ? impressionsOf : undefined
+  );
+  return { page, impressionsOf };
+}
+
+/**
+ * Lays out the chart for a URL state without a browser: the vertical bars,
+ * then (when selected) the vertical's advertiser bars and the advertiser's
+ * metric table. It follows the on-screen chart's layout loosely; the
+ * connector animation and hover states are left out.
+ */
+export function buildChartScene(input: ChartSceneInput): Scene {
+  const { data, periods, state } = input;
+  const palette = input.palette ?? DEFAULT_PALETTE;
+  const nodes: SceneNode[] = [];
+  // a background rect first, so dark palettes export legibly
+  const done = (height: number): Scene => ({
+    width: WIDTH,
+    height,
+    nodes: [{ kind: "rect", x: 0, y: 0, width: WIDTH, height, fill: palette.background }, ...nodes],
+  });
+  const text = (x: number, y: number, s: string, opts: Partial<Extract<SceneNode, { kind: "text" }>> = {}) =>
+    nodes.push({ kind: "text", x, y, text: s, size: 14, fill: palette.text, ...opts });
+
+  text(WIDTH / 2, 32, chartTitle(periods), { size: 18, bold: true, anchor: "middle" });
+
+  // --- vertical bars ---
+  const rowH = 22;
+  const barH = 16;
+  const top = 60;
+  const half = 340;
+  const zeroX = WIDTH / 2;
+  const maxAbs = Math.max(...data.map((d) => Math.abs(d.pct_change)), 1) * 1.02;
+  data.forEach((d, i) => {
+    const yMid = top + i * rowH + rowH / 2;
+    const w = (Math.abs(d.pct_change) / maxAbs) * half;
+    const isPos = d.pct_change >= 0;
+    const isSelected = d.vertical === state.vertical;
+    nodes.push({
+      kind: "rect",
+      x: isPos ? zeroX : zeroX - w,
+      y: yMid - barH / 2,
+      width: Math.max(w, 0.5),
+      height: barH,
+      fill: isPos ? palette.positive : palette.negative,
+      opacity: 0.28 + 0.72 * (Math.abs(d.pct_change) / maxAbs),
+      stroke: isSelected ? palette.selected : undefined,
+    });
+    text(isPos ? zeroX + w + 8 : zeroX - w - 8, yMid + 5, `${d.vertical} (${fmtPct(d.pct_change)})`, {
+      size: 13,
+      anchor: isPos ? "start" : "end",
+      bold: isSelected,
+    });
+  });
+  let y = top + data.length * rowH;
+  nodes.push({ kind: "line", x1: zeroX, y1: top, x2: zeroX, y2: y, stroke: palette.axis, width: 1 });
+
+  const vertical = state.vertical && data.some((d) => d.vertical === state.vertical) ? state.vertical : null;
+  if (!vertical) return done(y + 30);
+
+  // --- advertiser bars ---
+  const { advertisers, details } = advertisersOf(input);
+  const { page, impressionsOf } = advertiserPageFor(input);
+  const cohortWord = input.cohort === "all" ? "" : `${input.cohort} `;
+  const range =
+    state.top === "all"
+      ? `all ${page.total.count} ${cohortWord}advertisers`
+      : page.offset === 0
+        ? `the top ${page.shown.length} ${cohortWord}advertisers`
+        : `the ${cohortWord}advertisers ranked ${page.offset + 1}-${page.offset + page.shown.length}`;
+  y += 50;
+  const paragraph =
+    page.total.count === 0
+      ? `There are no ${cohortWord}advertisers in the ${vertical} vertical.`
+      : `The following chart contains ${range} in the ${vertical} vertical, by TV ad impressions served ` +
+        `${periodRangePhrase(periods.comparison)}${state.sort === "impressions" ? "" : ` (ranked by ${ADVERTISER_SORT_LABELS[state.sort].toLowerCase()})`}.`;
+  for (const line of wrapText(paragraph, 15, 640)) {
+    text(WIDTH / 2, y, line, { size: 15, anchor: "middle" });
+    y += 20;
+  }
+
+  const bars = page.shown;
+  const otherSlot = state.bars === "impressions" && page.other ? 1 : 0;
+  const plotTop = y + 30;
+  const plotH = 170;
+  const plotBottom = plotTop + plotH;
+  const left = 340;
+  const band = (WIDTH - 2 * left) / Math.max(bars.length + otherSlot, 1);
+  const barW = Math.max(1, Math.min(32, band - Math.min(4, band * 0.25)));
+  const xOf = (i: number) => left + i * band + (band - barW) / 2;
+  const selected = bars.findIndex((a) => a.advertiser === state.advertiser);
+
+  if (state.bars === "change") {
+    const metric = changeMetricFor(state.sort);
+    const changes = bars.map((a) => (details[a.advertiser] ? metricPctChange(metric, details[a.advertiser]) : null));
+    const cap = Math.min(200, Math.max(...changes.map((v) => (v === null ? 0 : Math.abs(v))), 1));
+    const zeroY = plotTop + plotH / 2;
+    changes.forEach((v, i) => {
+      const h = v === null ? 2 : (Math.min(Math.abs(v), cap) / cap) * (plotH / 2);
+      nodes.push({
+        kind: "rect",
+        x: xOf(i),
+        y: v === null ? zeroY - 1 : v >= 0 ? zeroY - h : zeroY,
+        width: barW,
+        height: h,
+        fill: i === selected ? palette.selected : v === null ? palette.bar : v >= 0 ? palette.positive : palette.negative,
+        opacity: i === selected || v === null ? 1 : 0.28 + 0.72 * (Math.min(Math.abs(v), cap) / cap),
+      });
+    });
+    nodes.push({ kind: "line", x1: left, y1: zeroY, x2: WIDTH - left, y2: zeroY, stroke: palette.axis, width: 0.7 });
+  } else {
+    const maxImp = Math.max(...bars.map(impressionsOf), 1);
+    bars.forEach((a, i) => {
+      const h = (impressionsOf(a) / maxImp) * plotH;
+      nodes.push({
+        kind: "rect",
+        x: xOf(i),
+        y: plotBottom - h,
+        width: barW,
+        height: h,
+        fill: i === selected ? palette.selected : palette.bar,
+      });
+    });
+    if (page.other) {
+      const h = Math.min(plotH, (page.other.impressions / maxImp) * plotH);
+      const x = xOf(bars.length);
+      nodes.push({ kind: "rect", x, y: plotBottom - h, width: barW, height: h, fill: palette.otherBar, stroke: palette.textDisabled });
+      text(x + barW / 2, plotBottom + 14, "Other", { size: 11, fill: palette.textMuted, anchor: "middle" });
+    }
+    nodes.push({ kind: "line", x1: left, y1: plotBottom, x2: WIDTH - left, y2: plotBottom, stroke: palette.axis, width: 0.7 });
+  }
+  if (selected !== -1) {
+    text(xOf(selected) + barW / 2, plotTop - 10, bars[selected].advertiser, {
+      size: 13,
+      fill: palette.selected,
+      bold: true,
+      anchor: "middle",
+    });
+  }
+  y = plotBottom + 40;
+
+  // --- selected advertiser's metrics ---
+  const datum = advertisers.find((a) => a.advertiser === state.advertiser);
+  const d = state.advertiser ? details[state.advertiser] : undefined;
+  if (!d) return done(y);
+
+  const sentence = !d.comparison
+    ? `${d.advertiser} lapsed: it served ${fmtMM(d.base?.impressions)} impressions in ${periods.base.label} and none in ${periods.comparison.label}.`
+    : !d.base
+      ? `${d.advertiser} served ${fmtMM(d.comparison.impressions)} impressions in ${periods.comparison.label}, and is new: it did not advertise on TV in ${basePhrase(periods)}.`
+      : `${d.advertiser} served ${fmtMM(d.comparison.impressions)} impressions in ${periods.comparison.label}, a ${fmtPct(metricPctChange("impressions", d))} change over ${basePhrase(periods)}.`;
+  for (const line of wrapText(sentence, 15, 900)) {
+    text(WIDTH / 2, y, line, { size: 15, anchor: "middle" });
+    y += 20;
+  }
+  if (datum?.shared) {
+    text(WIDTH / 2, y, describeShared(datum.shared, input.attribution).title, {
+      size: 13,
+      anchor: "middle",
+      fill: palette.textMuted,
+    });
+    y += 20;
+  }
+  y += 16;
+
+  const colBase = 560;
+  const colPct = 700;
+  const colComp = 840;
+  text(colBase, y, periods.base.label, { bold: true, anchor: "end" });
+  text(colComp, y, periods.comparison.label, { bold: true });
+  y += 26;
+  const rows: { label: string; metric: "impressions" | "reach" | "frequency" }[] = [
+    { label: "Impressions Served", metric: "impressions" },
+    { label: "Households Reached", metric: "reach" },
+    { label: "Average Frequency", metric: "frequency" },
+  ];
+  for (const row of rows) {
+    const fmt = (v: number | null | undefined, active: boolean) => {
+      if (!active) return "Not active";
+      if (row.metric !== "frequency") return fmtMM(v);
+      return v === null || v === undefined ? "—" : v.toFixed(1);
+    };
+    const pct = metricPctChange(row.metric, d);
+    text(colBase - 200, y, row.label, { size: 13, bold: true, anchor: "end" });
+    text(colBase, y, fmt(d.base?.[row.metric], d.base !== null), { size: 13, anchor: "end" });
+    text(colPct, y, fmtPct(pct), {
+      size: 13,
+      bold: true,
+      anchor: "middle",
+      fill: pct === null ? palette.textMuted : pct >= 0 ? palette.positive : palette.negative,
+    });
+    text(colComp, y, fmt(d.comparison?.[row.metric], d.comparison !== null), { size: 13 });
+    y += 24;
+  }
+
+  return done(y + 20);
+}
@@ -0,0 +1,12 @@
+import type { Sheet, SheetCell } from "./viewData";
+
+function csvCell(v: SheetCell): string {
+  if (v === null) return "";
+  const s = String(v);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+// RFC 4180 CSV of one sheet, header row first; empty cells for nulls.
+export function sheetToCsv(sheet: Sheet): string {
+  return [sheet.columns, ...sheet.rows].map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
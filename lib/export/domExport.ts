@@ -0,0 +1,207 @@
+// Browser-side export of a rendered chart <svg>: foreignObject HTML becomes
+// plain SVG rects and text, web fonts are inlined, and the result can be
+// rasterized to PNG. Elements marked
+// data-export="skip" (buttons, pickers) are left out.
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+function alphaOf(color: string): number {
+  if (color === "transparent") return 0;
+  const m = /rgba?\(([^)]+)\)/.exec(color);
+  if (!m) return 1;
+  const parts = m[1].split(/[\s,/]+/).filter(Boolean);
+  return parts.length > 3 ? Number(parts[3]) : 1;
+}
+
+function svgEl(name: string, attrs: Record<string, string | number>): SVGElement {
+  const el = document.createElementNS(SVG_NS, name);
+  for (const [k, v] of Object.entries(attrs)) el.setAttribute(k, String(v));
+  return el;
+}
+
+/**
+ * Redraws a foreignObject's laid-out HTML as SVG, in the user space of the
+ * owning <svg>: boxes with a background or border become rects, and text is
+ * split into the lines the browser wrapped it into.
+ */
+function flattenForeignObject(fo: SVGForeignObjectElement, toUser: DOMMatrix): SVGGElement {
+  const g = svgEl("g", {}) as SVGGElement;
+  const scale = toUser.a;
+  const pt = (x: number, y: number) => new DOMPoint(x, y).matrixTransform(toUser);
+
+  const walker = document.createTreeWalker(fo, NodeFilter.SHOW_ELEMENT | NodeFilter.SHOW_TEXT, {
+    acceptNode: (n) =>
+      n instanceof Element && n.getAttribute("data-export") === "skip"
+        ? NodeFilter.FILTER_REJECT
+        : NodeFilter.FILTER_ACCEPT,
+  });
+
+  for (let n = walker.nextNode(); n; n = walker.nextNode()) {
+    if (n instanceof HTMLElement) {
+      const cs = getComputedStyle(n);
+      const border = parseFloat(cs.borderTopWidth) > 0 && alphaOf(cs.borderTopColor) > 0;
+      if (alphaOf(cs.backgroundColor) === 0 && !border) continue;
+      const r = n.getBoundingClientRect();
+      if (r.width === 0 || r.height === 0) continue;
+      const p = pt(r.left, r.top);
+      g.appendChild(
+        svgEl("rect", {
+          x: p.x,
+          y: p.y,
+          width: r.width * scale,
+          height: r.height * scale,
+          fill: alphaOf(cs.backgroundColor) > 0 ? cs.backgroundColor : "none",
+          ...(border ? { stroke: cs.borderTopColor, "stroke-width": parseFloat(cs.borderTopWidth) * scale } : {}),
+        })
+      );
+      continue;
+    }
+
+    const text = n.textContent ?? "";
+    const parent = n.parentElement;
+    if (!parent || !text.trim()) continue;
+    const cs = getComputedStyle(parent);
+    const fontSize = parseFloat(cs.fontSize);
+
+    // Group words by the line box they landed on.
+    const lines: { left: number; top: number; bottom: number; words: string[] }[] = [];
+    const range = document.createRange();
+    for (const m of text.matchAll(/\S+/g)) {
+      range.setStart(n, m.index);
+      range.setEnd(n, m.index + m[0].length);
+      const r = range.getBoundingClientRect();
+      if (r.width === 0) continue;
+      const line = lines[lines.length - 1];
+      if (line && Math.abs(line.top - r.top) < fontSize / 2) line.words.push(m[0]);
+      else lines.push({ left: r.left, top: r.top, bottom: r.bottom, words: [m[0]] });
+    }
+
+    for (const line of lines) {
+      // baseline sits about 80% of the way down the glyph box
+      const p = pt(line.left, line.top + (line.bottom - line.top) * 0.8);
+      const t = svgEl("text", {
+        x: p.x,
+        y: p.y,
+        "font-size": fontSize * scale,
+        "font-family": cs.fontFamily,
+        "font-weight": cs.fontWeight,
+        fill: cs.color,
+      });
+      t.textContent = line.words.join(" ");
+      g.appendChild(t);
+    }
+  }
+  return g;
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// @font-face rules for the families in `fontFamily`, with their files inlined.
+async function embeddedFontCss(fontFamily: string): Promise<string> {
+  const families = fontFamily.split(",").map((f) => f.trim().replace(/^["']|["']$/g, ""));
+  const rules: CSSFontFaceRule[] = [];
+  for (const sheet of Array.from(document.styleSheets)) {
+    let cssRules: CSSRuleList;
+    try {
+      cssRules = sheet.cssRules;
+    } catch {
+      continue; // cross-origin sheet
+    }
+    for (const rule of Array.from(cssRules)) {
+      if (!(rule instanceof CSSFontFaceRule)) continue;
+      const family = rule.style.getPropertyValue("font-family").trim().replace(/^["']|["']$/g, "");
+      if (families.includes(family)) rules.push(rule);
+    }
+  }
+
+  const out: string[] = [];
+  for (const rule of rules) {
+    let css = rule.cssText;
+    for (const m of css.matchAll(/url\(["']?([^"')]+)["']?\)/g)) {
+      if (m[1].startsWith("data:")) continue;
+      try {
+        const res = await fetch(new URL(m[1], rule.parentStyleSheet?.href ?? window.location.href));
+        css = css.replace(m[0], `url(${await blobToDataUrl(await res.blob())})`);
+      } catch {
+        // leave the url; the viewer falls back to a local font
+      }
+    }
+    out.push(css);
+  }
+  return out.join("\n");
+}
+
+/** Standalone SVG markup for a rendered chart. */
+export async function exportableSvg(svg: SVGSVGElement): Promise<string> {
+  const ctm = svg.getScreenCTM();
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  if (ctm) {
+    const toUser = ctm.inverse();
+    const live = Array.from(svg.querySelectorAll("foreignObject"));
+    Array.from(clone.querySelectorAll("foreignObject")).forEach((fo, i) => {
+      fo.replaceWith(flattenForeignObject(live[i], toUser));
+    });
+  }
+
+  const vb = svg.viewBox.baseVal;
+  const fontFamily = getComputedStyle(svg).fontFamily;
+  clone.setAttribute("xmlns", SVG_NS);
+  clone.setAttribute("width", String(vb.width));
+  clone.setAttribute("height", String(vb.height));
+  clone.setAttribute("font-family", fontFamily);
+  clone.removeAttribute("class");
+  clone.removeAttribute("style");
+
+  const style = document.createElementNS(SVG_NS, "style");
+  style.textContent = await embeddedFontCss(fontFamily);
+  clone.insertBefore(style, clone.firstChild);
+  clone.insertBefore(svgEl("rect", { width: "100%", height: "100%", fill: "white" }), style.nextSibling);
+
+  return new XMLSerializer().serializeToString(clone);
+}
+
+async function rasterize(svgMarkup: string, width: number, height: number, scale: number) {
+  const url = URL.createObjectURL(new Blob([svgMarkup], { type: "image/svg+xml" }));
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const ctx = canvas.getContext("2d")!;
+    ctx.fillStyle = "white";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return canvas;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function canvasBlob(canvas: HTMLCanvasElement, type: string): Promise<Blob> {
+  return new Promise((resolve, reject) =>
+    canvas.toBlob((b) => (b ? resolve(b) : reject(new Error("canvas export failed"))), type)
+  );
+}
+
+// High-DPI PNG: `scale` device pixels per SVG unit.
+export async function svgToPng(svgMarkup: string, width: number, height: number, scale = 3): Promise<Blob> {
+  return canvasBlob(await rasterize(svgMarkup, width, height, scale), "image/png");
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+}
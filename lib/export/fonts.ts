@@ -0,0 +1,89 @@
+import fs from "node:fs";
+import path from "node:path";
+import * as fontkit from "fontkit";
+import subsetFont from "subset-font";
+import type { PdfFont } from "./pdf";
+import type { Scene } from "./scene";
+
+// Server-rendered exports embed DejaVu Sans (SCENE_FONT_FAMILY): it covers
+// Latin, Greek and Cyrillic, and its licence allows embedding. Characters it
+// has no glyph for draw as its blank box.
+const FONT_DIR = path.join(process.cwd(), "node_modules", "dejavu-fonts-ttf", "ttf");
+const FONT_FILES = { regular: "DejaVuSans.ttf", bold: "DejaVuSans-Bold.ttf" } as const;
+
+export type ExportFontWeight = keyof typeof FONT_FILES;
+
+// Paths of the full font files, for renderers that load fonts from disk.
+export const EXPORT_FONT_PATHS = Object.values(FONT_FILES).map((f) => path.join(FONT_DIR, f));
+
+// One weight of the export font, subset to the glyphs of a scene's text.
+export type ExportFont = Omit<PdfFont, "name"> & {
+  weight: ExportFontWeight;
+  // @font-face src for SVG
+  dataUrl: string;
+  // glyph ids for `text` and its advance in em (no kerning, as in the PDF)
+  layout(text: string): { glyphs: number[]; advance: number };
+};
+
+export type ExportFonts = Record<ExportFontWeight, ExportFont>;
+
+const fullFonts = new Map<ExportFontWeight, { data: Buffer; font: fontkit.Font }>();
+
+function fullFont(weight: ExportFontWeight) {
+  let full = fullFonts.get(weight);
+  if (!full) {
+    const data = fs.readFileSync(path.join(FONT_DIR, FONT_FILES[weight]));
+    full = { data, font: fontkit.create(data) as fontkit.Font };
+    fullFonts.set(weight, full);
+  }
+  return full;
+}
+
+async function subsetWeight(weight: ExportFontWeight, text: string): Promise<ExportFont> {
+  const full = fullFont(weight);
+  const data = await subsetFont(full.data, text, { targetFormat: "sfnt", noLayoutClosure: true });
+  const font = fontkit.create(data) as fontkit.Font;
+  const em = (units: number) => Math.round((units * 1000) / font.unitsPerEm);
+
+  const widths: number[] = [];
+  for (let id = 0; id < font.numGlyphs; id++) widths.push(em(font.getGlyph(id).advanceWidth));
+  const unicode = new Map<number, string>();
+  for (const ch of text) {
+    const id = font.glyphForCodePoint(ch.codePointAt(0)!).id;
+    if (id !== 0 && !unicode.has(id)) unicode.set(id, ch);
+  }
+  const { minX, minY, maxX, maxY } = full.font.bbox;
+
+  return {
+    weight,
+    postscriptName: full.font.postscriptName,
+    data,
+    dataUrl: `data:font/ttf;base64,${data.toString("base64")}`,
+    widths,
+    unicode,
+    ascent: em(full.font.ascent),
+    descent: em(full.font.descent),
+    // DejaVu's OS/2 table predates the cap height field; measure the H instead
+    capHeight: em(full.font.glyphForCodePoint(0x48).bbox.maxY),
+    bbox: [em(minX), em(minY), em(maxX), em(maxY)],
+    layout(s) {
+      const glyphs = font.glyphsForString(s);
+      return {
+        glyphs: glyphs.map((g) => g.id),
+        advance: glyphs.reduce((sum, g) => sum + g.advanceWidth, 0) / font.unitsPerEm,
+      };
+    },
+  };
+}
+
+// Both weights, each subset to the text the scene draws in it.
+export async function exportFontsFor(scene: Scene): Promise<ExportFonts> {
+  const text = { regular: new Set<string>(), bold: new Set<string>() };
+  for (const n of scene.nodes) {
+    if (n.kind === "text") for (const ch of n.text) text[n.bold ? "bold" : "regular"].add(ch);
+  }
+  const [regular, bold] = await Promise.all(
+    (["regular", "bold"] as const).map((w) => subsetWeight(w, [...text[w]].join("")))
+  );
+  return { regular, bold };
+}
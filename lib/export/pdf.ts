@@ -0,0 +1,154 @@
+// Minimal single-page PDF writer: a content stream plus embedded TrueType
+// fonts. Enough for chart exports without a PDF library.
+
+// An embedded font. Text is shown as big-endian 16-bit glyph ids (Identity-H),
+// so any glyph in the font can be drawn, whatever its script.
+export type PdfFont = {
+  // resource name, referenced from the content stream as /<name> <size> Tf
+  name: string;
+  postscriptName: string;
+  // sfnt (TrueType) data, normally subset to the glyphs the page uses
+  data: Uint8Array;
+  // advance widths in 1/1000 em, by glyph id
+  widths: number[];
+  // the text each glyph draws, so the PDF can be searched and copied from
+  unicode: Map<number, string>;
+  // 1/1000 em
+  ascent: number;
+  descent: number;
+  capHeight: number;
+  bbox: [number, number, number, number];
+};
+
+export type PdfPage = {
+  // points (1/72 in); PDF's origin is the bottom-left corner
+  width: number;
+  height: number;
+  content: string;
+  fonts: PdfFont[];
+};
+
+const encoder = new TextEncoder();
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
+
+const hex4 = (n: number) => n.toString(16).padStart(4, "0");
+
+// Glyph ids as a hex string operand for Tj.
+export function pdfGlyphs(glyphs: number[]): string {
+  return `<${glyphs.map(hex4).join("")}>`;
+}
+
+function utf16Hex(s: string): string {
+  let out = "";
+  for (let i = 0; i < s.length; i++) out += hex4(s.charCodeAt(i));
+  return out;
+}
+
+// CMap from glyph ids back to text.
+function toUnicodeCMap(unicode: Map<number, string>): string {
+  const entries = [...unicode].filter(([, s]) => s).sort(([a], [b]) => a - b);
+  const blocks: string[] = [];
+  // at most 100 mappings per bfchar block
+  for (let i = 0; i < entries.length; i += 100) {
+    const chunk = entries.slice(i, i + 100);
+    blocks.push(`${chunk.length} beginbfchar\n${chunk.map(([g, s]) => `<${hex4(g)}> <${utf16Hex(s)}>`).join("\n")}\nendbfchar`);
+  }
+  return [
+    "/CIDInit /ProcSet findresource begin",
+    "12 dict begin",
+    "begincmap",
+    "/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def",
+    "/CMapName /Adobe-Identity-UCS def",
+    "/CMapType 2 def",
+    "1 begincodespacerange\n<0000> <ffff>\nendcodespacerange",
+    ...blocks,
+    "endcmap",
+    "CMapName currentdict /CMap defineresource pop",
+    "end",
+    "end",
+  ].join("\n");
+}
+
+// Six-letter subset tag (ABCDEF+Name), derived from the font data so the same
+// subset always gets the same tag.
+function subsetTag(data: Uint8Array): string {
+  let h = 2166136261;
+  for (const b of data) h = Math.imul(h ^ b, 16777619) >>> 0;
+  let tag = "";
+  for (let i = 0; i < 6; i++) {
+    tag += String.fromCharCode(65 + (h % 26));
+    h = Math.floor(h / 26);
+  }
+  return tag;
+}
+
+export function buildPdf(page: PdfPage): Uint8Array {
+  const objects: Uint8Array[][] = [];
+  const add = (...parts: (string | Uint8Array)[]) => {
+    objects.push(parts.map((p) => (typeof p === "string" ? encoder.encode(p) : p)));
+    return objects.length;
+  };
+  const stream = (dict: string, data: Uint8Array) => add(`<< ${dict}/Length ${data.length} >>\nstream\n`, data, "\nendstream");
+
+  const catalog = add("<< /Type /Catalog /Pages 2 0 R >>");
+  const pages = add("<< /Type /Pages /Kids [3 0 R] /Count 1 >>");
+  const pageObj = add(""); // filled in once the resource ids are known
+
+  const fontIds = page.fonts.map((font) => {
+    const baseFont = `${subsetTag(font.data)}+${font.postscriptName}`;
+    const file = stream(`/Length1 ${font.data.length} `, font.data);
+    const descriptor = add(
+      `<< /Type /FontDescriptor /FontName /${baseFont} /Flags 32 /FontBBox [${font.bbox.join(" ")}] ` +
+        `/ItalicAngle 0 /Ascent ${font.ascent} /Descent ${font.descent} /CapHeight ${font.capHeight} ` +
+        `/StemV 80 /FontFile2 ${file} 0 R >>`
+    );
+    const cidFont = add(
+      `<< /Type /Font /Subtype /CIDFontType2 /BaseFont /${baseFont} ` +
+        `/CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> ` +
+        `/FontDescriptor ${descriptor} 0 R /CIDToGIDMap /Identity /W [0 [${font.widths.join(" ")}]] >>`
+    );
+    const toUnicode = stream("", encoder.encode(toUnicodeCMap(font.unicode)));
+    return add(
+      `<< /Type /Font /Subtype /Type0 /BaseFont /${baseFont} /Encoding /Identity-H ` +
+        `/DescendantFonts [${cidFont} 0 R] /ToUnicode ${toUnicode} 0 R >>`
+    );
+  });
+  // text is written as glyph ids, so the content stream itself is ASCII
+  const contentId = stream("", encoder.encode(page.content));
+
+  const fonts = page.fonts.map((f, i) => `/${f.name} ${fontIds[i]} 0 R`).join(" ");
+  objects[pageObj - 1] = [
+    encoder.encode(
+      `<< /Type /Page /Parent ${pages} 0 R /MediaBox [0 0 ${page.width} ${page.height}] ` +
+        `/Resources << /Font << ${fonts} >> >> /Contents ${contentId} 0 R >>`
+    ),
+  ];
+
+  const parts: Uint8Array[] = [encoder.encode("%PDF-1.4\n")];
+  let offset = parts[0].length;
+  const offsets: number[] = [];
+  objects.forEach((obj, i) => {
+    offsets.push(offset);
+    const chunk = concat([encoder.encode(`${i + 1} 0 obj\n`), ...obj, encoder.encode("\nendobj\n")]);
+    parts.push(chunk);
+    offset += chunk.length;
+  });
+
+  const xref = [
+    `xref\n0 ${objects.length + 1}\n`,
+    "0000000000 65535 f \n",
+    ...offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`),
+    `trailer\n<< /Size ${objects.length + 1} /Root ${catalog} 0 R >>\nstartxref\n${offset}\n%%EOF\n`,
+  ].join("");
+  parts.push(encoder.encode(xref));
+  return concat(parts);
+}
@@ -0,0 +1,17 @@
+import { Resvg } from "@resvg/resvg-js";
+import { EXPORT_FONT_PATHS, type ExportFonts } from "./fonts";
+import { SCENE_FONT_FAMILY, sceneToSvg, type Scene } from "./scene";
+
+// PNG of the scene, `scale` pixels per scene unit. resvg ignores @font-face,
+// so it loads the font files the SVG's subsets are cut from.
+export function sceneToPng(scene: Scene, fonts: ExportFonts, scale = 2): Uint8Array {
+  const resvg = new Resvg(sceneToSvg(scene, fonts), {
+    fitTo: { mode: "zoom", value: scale },
+    font: {
+      fontFiles: EXPORT_FONT_PATHS,
+      loadSystemFonts: false,
+      defaultFontFamily: SCENE_FONT_FAMILY,
+    },
+  });
+  return resvg.render().asPng();
+}
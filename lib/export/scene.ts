@@ -0,0 +1,251 @@
+import colorNames from "color-name";
+import type { ExportFonts } from "./fonts";
+import { buildPdf, pdfGlyphs } from "./pdf";
+
+// A flat list of drawing primitives that can be written out as SVG or PDF.
+// Coordinates are SVG-style: origin top-left, text `y` is the baseline.
+export type SceneNode =
+  | {
+      kind: "rect";
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+      fill: string;
+      // 0..1, flattened onto white for PDF
+      opacity?: number;
+      stroke?: string;
+    }
+  | { kind: "line"; x1: number; y1: number; x2: number; y2: number; stroke: string; width: number; dashed?: boolean }
+  | {
+      kind: "text";
+      x: number;
+      y: number;
+      text: string;
+      size: number;
+      fill: string;
+      anchor?: "start" | "middle" | "end";
+      bold?: boolean;
+    };
+
+export type Scene = {
+  width: number;
+  height: number;
+  nodes: SceneNode[];
+};
+
+// Embedded in the SVG and PDF renderings (see fonts.ts).
+export const SCENE_FONT_FAMILY = "DejaVu Sans";
+
+// Resource names for the two weights in the PDF's content stream.
+const PDF_FONTS = { regular: "F1", bold: "F2" } as const;
+
+// Helvetica advance widths (per 1000 em) for printable ASCII, from its AFM.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+  556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+  260, 334, 584,
+];
+
+// Approximate rendered width, for layout; bold runs about 6% wider. The PDF
+// places text with the embedded font's own widths.
+export function textWidth(text: string, size: number, bold = false): number {
+  let units = 0;
+  for (const ch of text) {
+    const code = ch.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+  }
+  return (units / 1000) * size * (bold ? 1.06 : 1);
+}
+
+// Greedy word wrap to `maxWidth`.
+export function wrapText(text: string, size: number, maxWidth: number, bold = false): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const next = line ? `${line} ${word}` : word;
+    if (line && textWidth(next, size, bold) > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = next;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+// Shortens `text` with an ellipsis so it fits `maxWidth`.
+export function truncateText(text: string, size: number, maxWidth: number, bold = false): string {
+  if (textWidth(text, size, bold) <= maxWidth) return text;
+  let out = text;
+  while (out.length > 1 && textWidth(`${out}…`, size, bold) > maxWidth) out = out.slice(0, -1);
+  return `${out.trimEnd()}…`;
+}
+
+// =========================
+// Colours
+// =========================
+
+// 0..255 channels and 0..1 alpha.
+export type Rgba = [number, number, number, number];
+
+function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+  const k = (n: number) => (n + h / 30) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => l - a * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1));
+  return [f(0) * 255, f(8) * 255, f(4) * 255];
+}
+
+// "50%" as a fraction of `full`, a plain number as is.
+const channel = (v: string, full: number) => (v.endsWith("%") ? (parseFloat(v) / 100) * full : parseFloat(v));
+
+/**
+ * A CSS colour as RGBA: hex (#rgb, #rgba, #rrggbb, #rrggbbaa), rgb()/rgba(),
+ * hsl()/hsla(), a named colour or `transparent`. `var(--x, fallback)` takes
+ * its fallback, since a page's custom properties don't reach an export.
+ * Returns null for anything else.
+ */
+export function parseColor(value: string): Rgba | null {
+  const v = value.trim().toLowerCase();
+  const fallback = /^var\(\s*--[\w-]+\s*,\s*(.+)\)$/.exec(v);
+  if (fallback) return parseColor(fallback[1]);
+  if (v === "transparent") return [0, 0, 0, 0];
+  if (v in colorNames) return [...colorNames[v as keyof typeof colorNames], 1];
+
+  const hex = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.exec(v);
+  if (hex) {
+    const digits = hex[1].length <= 4 ? hex[1].replace(/./g, "$&$&") : hex[1];
+    const [r, g, b, a = 255] = digits.match(/../g)!.map((d) => parseInt(d, 16));
+    return [r, g, b, a / 255];
+  }
+
+  const fn = /^(rgba?|hsla?)\(([^)]*)\)$/.exec(v);
+  if (!fn) return null;
+  const parts = fn[2].split(/[\s,/]+/).filter(Boolean);
+  if (parts.length < 3 || parts.length > 4 || parts.some((p) => Number.isNaN(parseFloat(p)))) return null;
+  const alpha = parts.length === 4 ? Math.min(Math.max(channel(parts[3], 1), 0), 1) : 1;
+  const rgb = fn[1].startsWith("rgb")
+    ? [channel(parts[0], 255), channel(parts[1], 255), channel(parts[2], 255)]
+    : hslToRgb(((parseFloat(parts[0]) % 360) + 360) % 360, channel(parts[1], 1), channel(parts[2], 1));
+  const [r, g, b] = rgb.map((c) => Math.round(Math.min(Math.max(c, 0), 255)));
+  return [r, g, b, alpha];
+}
+
+function sceneColor(value: string): Rgba {
+  const c = parseColor(value);
+  if (!c) throw new Error(`Chart export cannot draw the colour "${value}"`);
+  return c;
+}
+
+// =========================
+// SVG
+// =========================
+
+function escapeXml(s: string) {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+const r2 = (n: number) => Math.round(n * 100) / 100;
+
+// `fill="#rrggbb"` (or stroke), plus an opacity attribute when not opaque.
+function svgPaint(attr: "fill" | "stroke", value: string, opacity = 1): string {
+  const [r, g, b, a] = sceneColor(value);
+  const hex = `#${[r, g, b].map((c) => c.toString(16).padStart(2, "0")).join("")}`;
+  const alpha = a * opacity;
+  return ` ${attr}="${hex}"${alpha < 1 ? ` ${attr}-opacity="${r2(alpha)}"` : ""}`;
+}
+
+// Standalone SVG with the subset fonts inlined as @font-face rules.
+export function sceneToSvg(scene: Scene, fonts: ExportFonts): string {
+  const body = scene.nodes.map((n) => {
+    switch (n.kind) {
+      case "rect":
+        return (
+          `<rect x="${r2(n.x)}" y="${r2(n.y)}" width="${r2(n.width)}" height="${r2(n.height)}"` +
+          `${n.fill === "none" ? ` fill="none"` : svgPaint("fill", n.fill, n.opacity)}` +
+          `${n.stroke ? svgPaint("stroke", n.stroke) : ""}/>`
+        );
+      case "line":
+        return (
+          `<line x1="${r2(n.x1)}" y1="${r2(n.y1)}" x2="${r2(n.x2)}" y2="${r2(n.y2)}"${svgPaint("stroke", n.stroke)}` +
+          ` stroke-width="${n.width}"${n.dashed ? ` stroke-dasharray="3 3"` : ""}/>`
+        );
+      case "text":
+        return (
+          `<text x="${r2(n.x)}" y="${r2(n.y)}" font-size="${n.size}"${svgPaint("fill", n.fill)}` +
+          `${n.anchor && n.anchor !== "start" ? ` text-anchor="${n.anchor}"` : ""}` +
+          `${n.bold ? ` font-weight="700"` : ""}>${escapeXml(n.text)}</text>`
+        );
+    }
+  });
+  const fontFaces = [fonts.regular, fonts.bold].map(
+    (f) =>
+      `@font-face { font-family: "${SCENE_FONT_FAMILY}"; font-weight: ${f.weight === "bold" ? 700 : 400}; ` +
+      `src: url(${f.dataUrl}) format("truetype"); }`
+  );
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${scene.width}" height="${scene.height}" ` +
+      `viewBox="0 0 ${scene.width} ${scene.height}" font-family="${SCENE_FONT_FAMILY}">`,
+    `<style>\n${fontFaces.join("\n")}\n</style>`,
+    `<rect width="100%" height="100%" fill="white"/>`,
+    ...body,
+    "</svg>",
+  ].join("\n");
+}
+
+// =========================
+// PDF
+// =========================
+
+// A colour (optionally faded onto white) as PDF "r g b" components.
+function pdfColor(value: string, opacity = 1): string {
+  const [r, g, b, a] = sceneColor(value);
+  const alpha = a * opacity;
+  return [r, g, b].map((x) => ((x * alpha + 255 * (1 - alpha)) / 255).toFixed(3)).join(" ");
+}
+
+// Vector PDF of the scene, one point per scene unit, with the fonts embedded.
+export function sceneToPdf(scene: Scene, fonts: ExportFonts): Uint8Array {
+  const H = scene.height;
+  const ops: string[] = [];
+  for (const n of scene.nodes) {
+    switch (n.kind) {
+      case "rect":
+        if (n.fill !== "none") {
+          ops.push(`${pdfColor(n.fill, n.opacity)} rg ${r2(n.x)} ${r2(H - n.y - n.height)} ${r2(n.width)} ${r2(n.height)} re f`);
+        }
+        if (n.stroke) {
+          ops.push(`${pdfColor(n.stroke)} RG 0.8 w ${r2(n.x)} ${r2(H - n.y - n.height)} ${r2(n.width)} ${r2(n.height)} re S`);
+        }
+        break;
+      case "line":
+        ops.push(
+          `${pdfColor(n.stroke)} RG ${n.width} w ${n.dashed ? "[3 3] 0 d" : "[] 0 d"} ` +
+            `${r2(n.x1)} ${r2(H - n.y1)} m ${r2(n.x2)} ${r2(H - n.y2)} l S`
+        );
+        break;
+      case "text": {
+        const { glyphs, advance } = fonts[n.bold ? "bold" : "regular"].layout(n.text);
+        const w = advance * n.size;
+        const x = n.anchor === "middle" ? n.x - w / 2 : n.anchor === "end" ? n.x - w : n.x;
+        ops.push(
+          `BT /${n.bold ? PDF_FONTS.bold : PDF_FONTS.regular} ${n.size} Tf ${pdfColor(n.fill)} rg ` +
+            `${r2(x)} ${r2(H - n.y)} Td ${pdfGlyphs(glyphs)} Tj ET`
+        );
+        break;
+      }
+    }
+  }
+  return buildPdf({
+    width: scene.width,
+    height: scene.height,
+    content: ops.join("\n"),
+    fonts: [
+      { ...fonts.regular, name: PDF_FONTS.regular },
+      { ...fonts.bold, name: PDF_FONTS.bold },
+    ],
+  });
+}
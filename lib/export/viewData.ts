@@ -0,0 +1,132 @@
+import { ADVERTISER_SORT_LABELS, withChanges } from "@/lib/data/advertisers";
+import { ATTRIBUTION_LABELS } from "@/lib/data/attribution";
+import { cohortOf, COHORT_LABELS } from "@/lib/data/cohorts";
+import { PARENT_REACH_NOTE } from "@/lib/data/parents";
+import { chartTitle } from "@/lib/data/periods";
+import type { PeriodMetrics } from "@/lib/data/types";
+import { advertiserPageFor, type ChartSceneInput } from "./chartScene";
+
+export type SheetCell = string | number | null;
+
+export type Sheet = {
+  name: string;
+  columns: string[];
+  rows: SheetCell[][];
+};
+
+export type ViewDataInput = ChartSceneInput & {
+  // data files the dataset was read from, relative to the data directory
+  sourceFiles: string[];
+};
+
+function delta(metric: keyof PeriodMetrics, base: PeriodMetrics | null, comparison: PeriodMetrics | null) {
+  const a = base?.[metric];
+  const b = comparison?.[metric];
+  return a === null || a === undefined || b === null || b === undefined ? null : b - a;
+}
+
+/**
+ * The rows behind the chart for a URL state: the vertical list, the page of
+ * advertisers shown for the selected vertical, and a metadata sheet recording
+ * the periods, source files and filters they were taken with.
+ */
+export function buildViewSheets(input: ViewDataInput, generatedAt: Date): Sheet[] {
+  const { periods, state } = input;
+  const base = periods.base.label;
+  const comp = periods.comparison.label;
+  const sheets: Sheet[] = [
+    {
+      name: "Verticals",
+      columns: ["vertical", "pct_change"],
+      rows: input.data.map((d) => [d.vertical, d.pct_change]),
+    },
+  ];
+
+  const vertical = state.vertical && input.data.some((d) => d.vertical === state.vertical) ? state.vertical : null;
+  let other: [string, SheetCell][] = [];
+  if (vertical) {
+    const { page } = advertiserPageFor(input);
+    const details = input.advertisers?.details ?? {};
+    sheets.push({
+      name: "Advertisers",
+      columns: [
+        "rank",
+        "advertiser",
+        "cohort",
+        `${base} impressions`,
+        `${comp} impressions`,
+        "impressions_delta",
+        "impressions_pct_change",
+        `${base} reach`,
+        `${comp} reach`,
+        "reach_delta",
+        "reach_pct_change",
+        `${base} frequency`,
+        `${comp} frequency`,
+        "frequency_delta",
+        "frequency_pct_change",
+        "vertical_share",
+      ],
+      rows: page.shown.map((a, i) => {
+        // metrics as attributed to the vertical, like the bars
+        const d = details[a.advertiser] ?? { advertiser: a.advertiser, base: null, comparison: null };
+        const c = withChanges(d);
+        return [
+          page.offset + i + 1,
+          a.advertiser,
+          details[a.advertiser] ? COHORT_LABELS[cohortOf(d)] : null,
+          d.base?.impressions ?? null,
+          d.comparison?.impressions ?? null,
+          c.impressions_delta,
+          c.impressions_pct_change,
+          d.base?.reach ?? null,
+          d.comparison?.reach ?? null,
+          delta("reach", d.base, d.comparison),
+          c.reach_pct_change,
+          d.base?.frequency ?? null,
+          d.comparison?.frequency ?? null,
+          delta("frequency", d.base, d.comparison),
+          c.frequency_pct_change,
+          a.shared?.share ?? 1,
+        ];
+      }),
+    });
+    if (page.other) {
+      // advertisers ranked below the page, drawn as the "Other" bar
+      other = [
+        ["Other advertisers", page.other.count],
+        [`Other ${comp} impressions`, Math.round(page.other.impressions)],
+      ];
+    }
+  }
+
+  const meta: [string, SheetCell][] = [
+    ["Chart", chartTitle(periods)],
+    ["Base period", `${base} (${periods.base.id})`],
+    ["Comparison period", `${comp} (${periods.comparison.id})`],
+    ...input.sourceFiles.map((f): [string, SheetCell] => ["Source file", f]),
+    ["Generated at", generatedAt.toISOString()],
+    ["Vertical", vertical ?? "All verticals"],
+    ["Advertiser", vertical ? state.advertiser : null],
+    ...(state.level === "parent"
+      ? ([
+          ["Advertisers shown as", "Parent companies"],
+          ["Parent company households", PARENT_REACH_NOTE],
+        ] as [string, SheetCell][])
+      : []),
+    ["Multi-vertical advertisers", ATTRIBUTION_LABELS[input.attribution]],
+    ["Cohort", COHORT_LABELS[input.cohort]],
+    ["Ranked by", ADVERTISER_SORT_LABELS[state.sort]],
+    ["Page size", state.top === "all" ? "All" : state.top],
+    ["Page", state.page + 1],
+    ...other,
+  ];
+  sheets.push({ name: "Metadata", columns: ["field", "value"], rows: meta });
+  return sheets;
+}
+
+// The table a single-table format (CSV) carries: the advertisers when a
+// vertical is selected, otherwise the verticals.
+export function primarySheet(sheets: Sheet[]): Sheet {
+  return sheets.find((s) => s.name === "Advertisers") ?? sheets[0];
+}
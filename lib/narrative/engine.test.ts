@@ -0,0 +1,224 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { CohortTotal, CohortTotals } from "@/lib/data/cohorts";
+import type { PeriodPair } from "@/lib/data/periods";
+import {
+  advertiserNarrative,
+  cohortNarrative,
+  fmtDelta,
+  fmtImpressions,
+  headlineNarrative,
+  leadersList,
+  NarrativeError,
+  narrativeText,
+  renderTemplate,
+  verticalNarrative,
+} from "./engine";
+
+const periods: PeriodPair = {
+  base: { id: "2024-h2", kind: "half", year: 2024, index: 2, label: "2H, 2024", file: "2024-h2.csv" },
+  comparison: { id: "2025-h2", kind: "half", year: 2025, index: 2, label: "2H, 2025", file: "2025-h2.csv" },
+};
+
+const total = (count: number, delta: number): CohortTotal => ({
+  count,
+  base_impressions: 0,
+  comparison_impressions: delta,
+  delta,
+});
+
+const overall: CohortTotals = {
+  new: total(1, 2_500_000),
+  lapsed: total(3, -40_000),
+  growing: total(2, 1.2e9),
+  shrinking: total(1, -680),
+};
+
+describe("fmtImpressions", () => {
+  it("uses T, B and MM for large counts", () => {
+    assert.equal(fmtImpressions(1.234e12), "1.23T");
+    assert.equal(fmtImpressions(4.5e9), "4.5B");
+    assert.equal(fmtImpressions(678e6), "678MM");
+    assert.equal(fmtImpressions(-2_500_000), "3MM");
+  });
+
+  it("falls back to K and exact counts below a million", () => {
+    assert.equal(fmtImpressions(12_345), "12K");
+    assert.equal(fmtImpressions(999_400), "999K");
+    assert.equal(fmtImpressions(999_600), "1MM");
+    assert.equal(fmtImpressions(999.6), "1K");
+    assert.equal(fmtImpressions(950), "950");
+    assert.equal(fmtImpressions(0), "0");
+  });
+
+  it("signs deltas, leaving zero unsigned", () => {
+    assert.equal(fmtDelta(1.2e9), "+1.2B");
+    assert.equal(fmtDelta(-340e6), "-340MM");
+    assert.equal(fmtDelta(-40_000), "-40K");
+    assert.equal(fmtDelta(-400), "-400");
+    assert.equal(fmtDelta(0), "0");
+    assert.equal(fmtDelta(-0.2), "0");
+  });
+});
+
+describe("headlineNarrative", () => {
+  it("names only decliners when every vertical fell", () => {
+    const text = narrativeText(
+      headlineNarrative({
+        overallPctChange: -12.4,
+        periods,
+        gainers: [],
+        decliners: [
+          { name: "Travel", value: "-30.0%" },
+          { name: "Pets", value: "-20.0%" },
+          { name: "Retail", value: "-5.0%" },
+        ],
+      })
+    );
+    assert.equal(
+      text,
+      "Overall TV advertising impressions sharply declined by 12.4% in the second half of 2025, compared to " +
+        "the same period in 2024. No vertical grew; those contributing most to the decline were Travel and Pets."
+    );
+  });
+
+  it("says so when nothing changed", () => {
+    const text = narrativeText(headlineNarrative({ overallPctChange: 0, periods, gainers: [], decliners: [] }));
+    assert.match(text, /essentially flat \(\+0\.0%\)/);
+    assert.match(text, /No vertical's TV impressions changed\.$/);
+  });
+});
+
+describe("leadersList", () => {
+  it("keeps a tie at the cut-off together", () => {
+    const list = leadersList(
+      [
+        { name: "A", value: "+9.0%" },
+        { name: "B", value: "+4.0%" },
+        { name: "C", value: "+4.0%" },
+        { name: "D", value: "+1.0%" },
+      ],
+      2
+    );
+    assert.match(narrativeText(list), /B and C \(tied at \+4\.0%\)$/);
+    assert.deepEqual(
+      list.filter((s) => s.strong).map((s) => s.text),
+      ["A", "B", "C"]
+    );
+  });
+});
+
+describe("verticalNarrative", () => {
+  const all = [
+    { vertical: "Travel", pct_change: 8 },
+    { vertical: "Pets", pct_change: 3 },
+    { vertical: "Retail", pct_change: 3 },
+    { vertical: "Food", pct_change: -1 },
+  ];
+
+  it("ranks tied verticals jointly", () => {
+    assert.equal(
+      narrativeText(verticalNarrative(all[2], all)),
+      "Retail: up 3.0% in impressions, ranked joint 2nd of 4 verticals"
+    );
+    assert.equal(
+      narrativeText(verticalNarrative(all[3], all)),
+      "Food: slightly down 1.0% in impressions, ranked 4th of 4 verticals"
+    );
+  });
+
+  it("uses the singular for a single vertical", () => {
+    const only = { vertical: "Travel", pct_change: 0.2 };
+    assert.equal(
+      narrativeText(verticalNarrative(only, [only])),
+      "Travel: essentially flat (+0.2%) in impressions, ranked 1st of 1 vertical"
+    );
+  });
+});
+
+describe("cohortNarrative", () => {
+  it("pluralizes each cohort by its count", () => {
+    const text = narrativeText(
+      cohortNarrative({ cohort: "all", periods, overall, total: overall.new, verticals: [] })
+    );
+    assert.equal(
+      text,
+      "1 new advertiser added 3MM impressions, while 3 advertisers that ran in 2H, 2024 but not in 2H, 2025 " +
+        "took away 40K. Among continuing advertisers, 2 grew by 1.2B and 1 shrank by 680."
+    );
+  });
+
+  it("describes one cohort with its leading verticals", () => {
+    const one = narrativeText(
+      cohortNarrative({ cohort: "lapsed", periods, overall, total: total(1, -40_000), verticals: [] })
+    );
+    assert.equal(
+      one,
+      "The 1 lapsed advertiser (active in 2H, 2024 but not in 2H, 2025) accounts for a net change of -40K impressions."
+    );
+    const led = narrativeText(
+      cohortNarrative({
+        cohort: "new",
+        periods,
+        overall,
+        total: total(2, 900),
+        verticals: [{ name: "Pets", value: "+900" }],
+      })
+    );
+    assert.match(led, /^The 2 new advertisers .* account for a net change of \+900 impressions, led by Pets\.$/);
+  });
+});
+
+describe("advertiserNarrative", () => {
+  it("renders missing metrics as a dash", () => {
+    const text = narrativeText(
+      advertiserNarrative(
+        {
+          advertiser: "Acme",
+          base: { impressions: 1000, reach: 10, frequency: 100 },
+          comparison: { impressions: 1200, reach: null, frequency: null },
+        },
+        periods
+      )
+    );
+    assert.equal(
+      text,
+      "Acme served 1,200 impressions in 2H, 2025, a sharp 20.0% increase over the same period in 2024. " +
+        "This media activity reached — households with an average household frequency of — impressions per household."
+    );
+  });
+
+  it("falls back to the plain sentence when the base impressions are missing", () => {
+    const text = narrativeText(
+      advertiserNarrative(
+        {
+          advertiser: "Acme",
+          base: { impressions: null, reach: null, frequency: null },
+          comparison: { impressions: 500, reach: 50, frequency: 10 },
+        },
+        periods
+      )
+    );
+    assert.match(text, /^Acme served 500 impressions in 2H, 2025\. This media activity reached 50 households/);
+  });
+
+  it("describes new and lapsed advertisers", () => {
+    const created = advertiserNarrative(
+      { advertiser: "Acme", base: null, comparison: { impressions: 5, reach: 1, frequency: 5 } },
+      periods
+    );
+    assert.match(narrativeText(created), /and is new: it did not advertise on TV in the same period in 2024\./);
+    const lapsed = advertiserNarrative(
+      { advertiser: "Acme", base: { impressions: null, reach: 3, frequency: null }, comparison: null },
+      periods
+    );
+    assert.match(narrativeText(lapsed), /^Acme lapsed: it served — impressions in 2H, 2024 and none in 2H, 2025\./);
+  });
+});
+
+describe("renderTemplate", () => {
+  it("throws on unknown values and non-numeric plurals", () => {
+    assert.throws(() => renderTemplate("{nope}", {}), NarrativeError);
+    assert.throws(() => renderTemplate("{n|one|many}", { n: "2" }), NarrativeError);
+  });
+});
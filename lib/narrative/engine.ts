@@ -0,0 +1,360 @@
+import type { CohortFilter, CohortTotal, CohortTotals } from "@/lib/data/cohorts";
+import { basePhrase, periodPhrase, type PeriodPair } from "@/lib/data/periods";
+import type { AdvertiserDetailDatum, VerticalDatum } from "@/lib/data/types";
+import { DEFAULT_TEMPLATES, type Magnitude, type NarrativeTemplates } from "./templates";
+
+// A run of narrative text; `strong` runs are emphasized.
+export type Segment = { text: string; strong?: boolean };
+export type Narrative = Segment[];
+
+export type TemplateValue = string | number | Narrative | null;
+
+export class NarrativeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NarrativeError";
+  }
+}
+
+// Strong-run delimiters while a rendered template is tidied as one string.
+const OPEN = "\u0001";
+const CLOSE = "\u0002";
+
+// Collapses the whitespace left by empty values, keeps spaces outside strong
+// runs, and drops spaces before punctuation.
+function tidy(marked: string): Narrative {
+  const s = marked
+    .replace(new RegExp(`${OPEN}(\\s+)`, "g"), `$1${OPEN}`)
+    .replace(new RegExp(`(\\s+)${CLOSE}`, "g"), `${CLOSE}$1`)
+    .replace(new RegExp(`${OPEN}${CLOSE}|${CLOSE}${OPEN}`, "g"), "")
+    .replace(/\s+/g, " ")
+    .replace(new RegExp(` ([${OPEN}${CLOSE}]?[.,;:)])`, "g"), "$1")
+    .replace(new RegExp(`\\( ([${OPEN}${CLOSE}]?)`, "g"), "($1")
+    .trim();
+
+  const out: Narrative = [];
+  let strong = false;
+  for (const part of s.split(new RegExp(`([${OPEN}${CLOSE}])`))) {
+    if (part === OPEN || part === CLOSE) strong = part === OPEN;
+    else if (part) out.push(strong ? { text: part, strong } : { text: part });
+  }
+  return out;
+}
+
+/**
+ * Fills a template (see ./templates.ts for the syntax). Throws NarrativeError
+ * when the template names a value that was not supplied, so a typo in an
+ * edited template fails loudly instead of rendering a blank.
+ */
+export function renderTemplate(
+  template: string,
+  values: Record<string, TemplateValue>,
+  templates: NarrativeTemplates = DEFAULT_TEMPLATES
+): Narrative {
+  let marked = "";
+  template.split("**").forEach((part, i) => {
+    const strong = i % 2 === 1;
+    const wrap = (text: string, bold: boolean) => (bold && !strong ? `${OPEN}${text}${CLOSE}` : text);
+    let last = 0;
+    let body = "";
+    for (const m of part.matchAll(/\{(\w+)(?:\|([^|}]*)\|([^}]*))?\}/g)) {
+      body += part.slice(last, m.index);
+      last = m.index + m[0].length;
+      const v = values[m[1]];
+      if (v === undefined) throw new NarrativeError(`Template references unknown value: ${m[1]}`);
+      if (m[2] !== undefined) {
+        if (typeof v !== "number") throw new NarrativeError(`Plural form needs a number: ${m[1]}`);
+        body += v === 1 ? m[2] : m[3];
+      } else if (v === null) {
+        body += templates.missing;
+      } else if (Array.isArray(v)) {
+        body += v.map((seg) => wrap(seg.text, !!seg.strong)).join("");
+      } else {
+        body += typeof v === "number" ? v.toLocaleString("en-US") : v;
+      }
+    }
+    body += part.slice(last);
+    marked += strong ? `${OPEN}${body}${CLOSE}` : body;
+  });
+  return tidy(marked);
+}
+
+export function narrativeText(n: Narrative): string {
+  return n.map((s) => s.text).join("");
+}
+
+// Sentences joined with a space.
+export function joinNarratives(...parts: Narrative[]): Narrative {
+  return parts
+    .filter((p) => p.length > 0)
+    .flatMap((p, i) => (i === 0 ? p : [{ text: " " }, ...p]));
+}
+
+// =========================
+// Rules
+// =========================
+
+export function magnitudeOf(pct: number, templates: NarrativeTemplates = DEFAULT_TEMPLATES): Magnitude {
+  const { flatPct, slightPct, sharpPct } = templates.thresholds;
+  const abs = Math.abs(pct);
+  if (abs < flatPct) return "flat";
+  if (abs < slightPct) return "slight";
+  if (abs >= sharpPct) return "sharp";
+  return "moderate";
+}
+
+// "A", "A and B", "A, B and C"
+export function joinList(items: Narrative[]): Narrative {
+  return items.flatMap((item, i) => {
+    if (i === 0) return item;
+    return [{ text: i === items.length - 1 ? " and " : ", " }, ...item];
+  });
+}
+
+// A name with the value it is ranked by, as displayed; equal values are ties.
+export type RankedName = { name: string; value: string };
+
+/**
+ * The first `n` names of a ranked list, extended so a tie at the cut-off is
+ * not split; tied names are listed together with their shared value.
+ */
+export function leadersList(
+  ranked: RankedName[],
+  n: number,
+  templates: NarrativeTemplates = DEFAULT_TEMPLATES
+): Narrative {
+  const groups: RankedName[][] = [];
+  for (const item of ranked) {
+    const last = groups[groups.length - 1];
+    if (last && last[0].value === item.value) last.push(item);
+    else groups.push([item]);
+  }
+  const taken: RankedName[][] = [];
+  let count = 0;
+  for (const g of groups) {
+    if (count >= n) break;
+    taken.push(g);
+    count += g.length;
+  }
+  return joinList(
+    taken.map((g) => {
+      const names = joinList(g.map((item) => [{ text: item.name, strong: true }]));
+      return g.length === 1 ? names : renderTemplate(templates.tie, { names, value: g[0].value }, templates);
+    })
+  );
+}
+
+function ordinal(n: number) {
+  const tens = n % 100;
+  const suffix = tens >= 11 && tens <= 13 ? "th" : ["th", "st", "nd", "rd"][n % 10] ?? "th";
+  return `${n}${suffix}`;
+}
+
+// =========================
+// Formatting
+// =========================
+
+function fmtPct(n: number) {
+  return `${Math.abs(n).toFixed(1)}%`;
+}
+
+function fmtSignedPct(n: number) {
+  return `${n >= 0 ? "+" : "-"}${Math.abs(n).toFixed(1)}%`;
+}
+
+function fmtInt(n: number | null | undefined) {
+  if (n === null || n === undefined || !Number.isFinite(n)) return null;
+  return new Intl.NumberFormat("en-US").format(Math.round(n));
+}
+
+function fmtFrequency(n: number | null | undefined) {
+  return n === null || n === undefined || !Number.isFinite(n) ? null : n.toFixed(1);
+}
+
+// Compact impressions: 1.23T, 4.5B, 678MM, 12K, or the exact count under a
+// thousand (unsigned).
+export function fmtImpressions(n: number) {
+  const abs = Math.abs(n);
+  if (abs >= 1e12) return `${(abs / 1e12).toFixed(2)}T`;
+  if (abs >= 1e9) return `${(abs / 1e9).toFixed(1)}B`;
+  // 999,600 rounds to 1,000K; show it as 1MM instead
+  if (Math.round(abs / 1e3) >= 1000) return `${Math.round(abs / 1e6).toLocaleString("en-US")}MM`;
+  if (Math.round(abs) >= 1000) return `${Math.round(abs / 1e3)}K`;
+  return Math.round(abs).toLocaleString("en-US");
+}
+
+// =========================
+// Narratives
+// =========================
+
+export type HeadlineInput = {
+  overallPctChange: number;
+  periods: PeriodPair;
+  // verticals that grew and that declined, strongest first
+  gainers: RankedName[];
+  decliners: RankedName[];
+  // names listed per side (more when tied)
+  leaders?: number;
+};
+
+export function headlineNarrative(input: HeadlineInput, templates: NarrativeTemplates = DEFAULT_TEMPLATES): Narrative {
+  const t = templates.headline;
+  const magnitude = magnitudeOf(input.overallPctChange, templates);
+  const overall = renderTemplate(
+    magnitude === "flat" ? t.flat : input.overallPctChange >= 0 ? t.up : t.down,
+    {
+      magnitude: templates.adverbs[magnitude],
+      pct: magnitude === "flat" ? fmtSignedPct(input.overallPctChange) : fmtPct(input.overallPctChange),
+      period: periodPhrase(input.periods.comparison),
+      base: basePhrase(input.periods),
+    },
+    templates
+  );
+
+  const n = input.leaders ?? 2;
+  const gainers = leadersList(input.gainers, n, templates);
+  const decliners = leadersList(input.decliners, n, templates);
+  const leaders =
+    gainers.length && decliners.length
+      ? t.leaders
+      : gainers.length
+        ? t.gainersOnly
+        : decliners.length
+          ? t.declinersOnly
+          : t.noLeaders;
+  return joinNarratives(overall, renderTemplate(leaders, { gainers, decliners }, templates));
+}
+
+// Signed compact impressions, e.g. "+1.2B", "-340MM", "+12K".
+export function fmtDelta(n: number) {
+  const s = fmtImpressions(n);
+  return s === "0" ? s : `${n >= 0 ? "+" : "-"}${s}`;
+}
+
+export type CohortInput = {
+  cohort: CohortFilter;
+  periods: PeriodPair;
+  overall: CohortTotals;
+  total: CohortTotal;
+  // verticals driving the cohort's change, strongest first
+  verticals: RankedName[];
+};
+
+export function cohortNarrative(input: CohortInput, templates: NarrativeTemplates = DEFAULT_TEMPLATES): Narrative {
+  const t = templates.cohorts;
+  if (input.cohort === "all") {
+    const o = input.overall;
+    return renderTemplate(
+      t.all,
+      {
+        newCount: o.new.count,
+        newDelta: fmtImpressions(o.new.delta),
+        lapsedCount: o.lapsed.count,
+        lapsedDelta: fmtImpressions(o.lapsed.delta),
+        growingCount: o.growing.count,
+        growingDelta: fmtImpressions(o.growing.delta),
+        shrinkingCount: o.shrinking.count,
+        shrinkingDelta: fmtImpressions(o.shrinking.delta),
+        baseLabel: input.periods.base.label,
+        comparisonLabel: input.periods.comparison.label,
+      },
+      templates
+    );
+  }
+  const verticals = leadersList(input.verticals, 2, templates);
+  const count = input.total.count;
+  const periodLabels = { baseLabel: input.periods.base.label, comparisonLabel: input.periods.comparison.label };
+  return renderTemplate(
+    verticals.length ? t.oneLed : t.one,
+    {
+      count,
+      cohort: renderTemplate(t.phrases[input.cohort], { count, ...periodLabels }, templates),
+      delta: fmtDelta(input.total.delta),
+      verticals,
+    },
+    templates
+  );
+}
+
+/** One vertical's change and its rank (by % change) among all verticals. */
+export function verticalNarrative(
+  vertical: VerticalDatum,
+  all: VerticalDatum[],
+  templates: NarrativeTemplates = DEFAULT_TEMPLATES
+): Narrative {
+  const t = templates.vertical;
+  const magnitude = magnitudeOf(vertical.pct_change, templates);
+  const rank = 1 + all.filter((d) => d.pct_change > vertical.pct_change).length;
+  const tied = all.some((d) => d !== vertical && d.pct_change === vertical.pct_change);
+  return renderTemplate(
+    magnitude === "flat" ? t.flat : vertical.pct_change >= 0 ? t.up : t.down,
+    {
+      vertical: vertical.vertical,
+      magnitude: templates.adverbs[magnitude],
+      pct: magnitude === "flat" ? fmtSignedPct(vertical.pct_change) : fmtPct(vertical.pct_change),
+      rank: tied ? `joint ${ordinal(rank)}` : ordinal(rank),
+      count: all.length,
+    },
+    templates
+  );
+}
+
+/**
+ * The selected advertiser's sentence: impressions and their change (or that
+ * it is new or lapsed), then reach and frequency in the period it was active.
+ */
+export function advertiserNarrative(
+  d: AdvertiserDetailDatum,
+  periods: PeriodPair,
+  templates: NarrativeTemplates = DEFAULT_TEMPLATES
+): Narrative {
+  const t = templates.advertiser;
+  const common = {
+    advertiser: d.advertiser,
+    baseLabel: periods.base.label,
+    comparisonLabel: periods.comparison.label,
+    base: basePhrase(periods),
+  };
+
+  if (!d.comparison) {
+    return joinNarratives(
+      renderTemplate(t.lapsed, { ...common, impressions: fmtInt(d.base?.impressions) }, templates),
+      renderTemplate(
+        t.lapsedReach,
+        { households: fmtInt(d.base?.reach), frequency: fmtFrequency(d.base?.frequency) },
+        templates
+      )
+    );
+  }
+
+  const impressions = fmtInt(d.comparison.impressions);
+  const a = d.base?.impressions;
+  const b = d.comparison.impressions;
+  const pct = a && b !== null && Number.isFinite(a) && Number.isFinite(b) ? ((b - a) / a) * 100 : null;
+  let first: Narrative;
+  if (!d.base) {
+    first = renderTemplate(t.new, { ...common, impressions }, templates);
+  } else if (pct === null) {
+    first = renderTemplate(t.noChange, { ...common, impressions }, templates);
+  } else {
+    const magnitude = magnitudeOf(pct, templates);
+    first = renderTemplate(
+      magnitude === "flat" ? t.flat : pct >= 0 ? t.up : t.down,
+      {
+        ...common,
+        impressions,
+        magnitude: templates.adjectives[magnitude],
+        pct: magnitude === "flat" ? fmtSignedPct(pct) : fmtPct(pct),
+      },
+      templates
+    );
+  }
+  return joinNarratives(
+    first,
+    renderTemplate(
+      t.reach,
+      { households: fmtInt(d.comparison.reach), frequency: fmtFrequency(d.comparison.frequency) },
+      templates
+    )
+  );
+}
@@ -0,0 +1,119 @@
+import type { CohortFilter } from "@/lib/data/cohorts";
+
+// Wording for the generated narratives. Edit here rather than in the
+// components: the engine (./engine.ts) picks a template by rule and fills it.
+//
+// Template syntax:
+//   {name}                  value of `name` (numbers get thousands separators)
+//   {n|advertiser|advertisers}  singular or plural form, chosen by the number `n`
+//   **text**                emphasized (bold) text
+//
+// A value missing from the data renders as `missing`.
+
+export type Magnitude = "flat" | "slight" | "moderate" | "sharp";
+
+export type NarrativeTemplates = {
+  // absolute % change bands: below `flatPct` reads as flat, below `slightPct`
+  // as slight, at or above `sharpPct` as sharp
+  thresholds: { flatPct: number; slightPct: number; sharpPct: number };
+  // {magnitude} in templates: an adverb before a verb ("sharply increased")
+  // or, in advertiser templates, an adjective before a noun ("a sharp increase")
+  adverbs: Record<Magnitude, string>;
+  adjectives: Record<Magnitude, string>;
+  missing: string;
+  // list of names tied on the same value
+  tie: string;
+
+  headline: {
+    up: string;
+    down: string;
+    flat: string;
+    leaders: string;
+    gainersOnly: string;
+    declinersOnly: string;
+    noLeaders: string;
+  };
+
+  cohorts: {
+    // how each cohort is described in `one` and `oneLed`
+    phrases: Record<Exclude<CohortFilter, "all">, string>;
+    all: string;
+    one: string;
+    oneLed: string;
+  };
+
+  vertical: {
+    up: string;
+    down: string;
+    flat: string;
+  };
+
+  advertiser: {
+    up: string;
+    down: string;
+    flat: string;
+    noChange: string;
+    new: string;
+    lapsed: string;
+    reach: string;
+    lapsedReach: string;
+  };
+};
+
+export const DEFAULT_TEMPLATES: NarrativeTemplates = {
+  thresholds: { flatPct: 0.5, slightPct: 2, sharpPct: 10 },
+  adverbs: { flat: "", slight: "slightly", moderate: "", sharp: "sharply" },
+  adjectives: { flat: "", slight: "slight", moderate: "", sharp: "sharp" },
+  missing: "—",
+  tie: "{names} (tied at {value})",
+
+  headline: {
+    up: "Overall TV advertising impressions **{magnitude} increased** by **{pct}** in {period}, compared to {base}.",
+    down: "Overall TV advertising impressions **{magnitude} declined** by **{pct}** in {period}, compared to {base}.",
+    flat: "Overall TV advertising impressions were **essentially flat** ({pct}) in {period}, compared to {base}.",
+    leaders:
+      "Verticals investing more heavily in TV were {gainers}, while those contributing to the decline were {decliners}.",
+    gainersOnly: "Every vertical grew; those investing most heavily in TV were {gainers}.",
+    declinersOnly: "No vertical grew; those contributing most to the decline were {decliners}.",
+    noLeaders: "No vertical's TV impressions changed.",
+  },
+
+  cohorts: {
+    phrases: {
+      new: "new {count|advertiser|advertisers} (no TV activity in {baseLabel})",
+      lapsed: "lapsed {count|advertiser|advertisers} (active in {baseLabel} but not in {comparisonLabel})",
+      continuing: "continuing {count|advertiser|advertisers} (active in both periods)",
+      growing: "growing {count|advertiser|advertisers} (active in both periods, with more impressions)",
+      shrinking: "shrinking {count|advertiser|advertisers} (active in both periods, with fewer impressions)",
+    },
+    all:
+      "**{newCount}** new {newCount|advertiser|advertisers} added **{newDelta}** impressions, while " +
+      "**{lapsedCount}** {lapsedCount|advertiser|advertisers} that ran in {baseLabel} but not in {comparisonLabel} took away " +
+      "**{lapsedDelta}**. Among continuing advertisers, {growingCount} grew by **{growingDelta}** and " +
+      "{shrinkingCount} shrank by **{shrinkingDelta}**.",
+    one: "The **{count}** {cohort} {count|accounts|account} for a net change of **{delta}** impressions.",
+    oneLed:
+      "The **{count}** {cohort} {count|accounts|account} for a net change of **{delta}** impressions, led by {verticals}.",
+  },
+
+  vertical: {
+    up: "{vertical}: {magnitude} up {pct} in impressions, ranked {rank} of {count} {count|vertical|verticals}",
+    down: "{vertical}: {magnitude} down {pct} in impressions, ranked {rank} of {count} {count|vertical|verticals}",
+    flat: "{vertical}: essentially flat ({pct}) in impressions, ranked {rank} of {count} {count|vertical|verticals}",
+  },
+
+  advertiser: {
+    up: "**{advertiser}** served **{impressions}** impressions in {comparisonLabel}, a {magnitude} **{pct}** increase over {base}.",
+    down: "**{advertiser}** served **{impressions}** impressions in {comparisonLabel}, a {magnitude} **{pct}** decrease over {base}.",
+    flat: "**{advertiser}** served **{impressions}** impressions in {comparisonLabel}, essentially flat ({pct}) against {base}.",
+    noChange: "**{advertiser}** served **{impressions}** impressions in {comparisonLabel}.",
+    new: "**{advertiser}** served **{impressions}** impressions in {comparisonLabel}, and is new: it did not advertise on TV in {base}.",
+    lapsed: "**{advertiser}** lapsed: it served **{impressions}** impressions in {baseLabel} and none in {comparisonLabel}.",
+    reach:
+      "This media activity reached **{households}** households with an average household frequency of " +
+      "**{frequency}** impressions per household.",
+    lapsedReach:
+      "That activity reached **{households}** households with an average household frequency of " +
+      "**{frequency}** impressions per household.",
+  },
+};
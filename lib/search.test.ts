@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { buildSearchIndex, searchIndex } from "./search";
+
+const index = buildSearchIndex([
+  { name: "AT&T Inc.", weight: 500 },
+  { name: "Progressive Insurance", weight: 300 },
+  { name: "Procter & Gamble", weight: 900 },
+  { name: "Geico", weight: 400 },
+  { name: "State Farm", weight: 200 },
+  { name: "Farmers Insurance", weight: 100 },
+]);
+
+const names = (query: string, limit?: number) => searchIndex(index, query, limit).map((h) => h.name);
+
+describe("buildSearchIndex", () => {
+  it("keys and tokenizes names the way the data is joined", () => {
+    assert.deepEqual(index[0], { name: "AT&T Inc.", key: "at and t", tokens: ["at", "and", "t"], weight: 500 });
+  });
+});
+
+describe("searchIndex", () => {
+  it("matches whole names however they are written", () => {
+    assert.deepEqual(searchIndex(index, "at and t"), [{ name: "AT&T Inc.", score: 100 }]);
+    assert.equal(names("AT & T")[0], "AT&T Inc.");
+  });
+
+  it("ranks a prefix of the name above word matches, then by weight", () => {
+    assert.deepEqual(names("pro"), ["Procter & Gamble", "Progressive Insurance"]);
+    assert.deepEqual(names("farm"), ["Farmers Insurance", "State Farm"]);
+    assert.deepEqual(names("insurance"), ["Progressive Insurance", "Farmers Insurance"]);
+  });
+
+  it("needs every query word to match some word of the name", () => {
+    assert.deepEqual(names("state farm"), ["State Farm"]);
+    assert.deepEqual(names("state insurance"), []);
+  });
+
+  it("tolerates one typo in longer words, keeping the first letter", () => {
+    assert.deepEqual(names("geaco"), ["Geico"]);
+    assert.deepEqual(names("progresive"), ["Progressive Insurance"]);
+    assert.deepEqual(names("heico"), []);
+    // a swap is two edits
+    assert.deepEqual(names("gieco"), []);
+  });
+
+  it("falls back to substrings", () => {
+    assert.deepEqual(searchIndex(index, "eic"), [{ name: "Geico", score: 30 }]);
+  });
+
+  it("returns nothing for an empty query and at most `limit` hits", () => {
+    assert.deepEqual(names("  "), []);
+    assert.deepEqual(names("inc."), []);
+    assert.equal(names("insurance", 1).length, 1);
+  });
+});
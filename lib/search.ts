@@ -0,0 +1,89 @@
+import { normalizeKey } from "@/lib/data/normalize";
+
+export type SearchEntry = {
+  name: string;
+  key: string;
+  tokens: string[];
+  // tie-breaker: larger advertisers rank first among equal matches
+  weight: number;
+};
+
+export type SearchHit = {
+  name: string;
+  score: number;
+};
+
+export function buildSearchIndex(items: { name: string; weight: number }[]): SearchEntry[] {
+  return items.map((it) => {
+    const key = normalizeKey(it.name);
+    return { name: it.name, key, tokens: key.split(" ").filter(Boolean), weight: it.weight };
+  });
+}
+
+// Levenshtein distance, giving up once it exceeds `max`.
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + cost);
+      rowMin = Math.min(rowMin, cur[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prev = cur;
+  }
+  return prev[b.length];
+}
+
+// How well one query token matches the entry's tokens: prefix beats typo.
+function tokenScore(q: string, tokens: string[]): number {
+  let best = 0;
+  for (const t of tokens) {
+    if (t === q) return 3;
+    if (t.startsWith(q)) best = Math.max(best, 2);
+    // typo tolerance only for longer words, and assuming the first letter is right
+    else if (q.length >= 4 && t[0] === q[0] && editDistance(q, t.slice(0, q.length + 1), 1) <= 1) {
+      best = Math.max(best, 1);
+    }
+  }
+  return best;
+}
+
+/**
+ * Ranks entries against a free-text query. Both sides go through
+ * `normalizeKey`, so "AT&T Inc." finds "at and t". Exact and prefix matches
+ * on the whole name come first, then entries where every query word
+ * prefixes (or is one typo from) some word of the name, then substrings.
+ */
+export function searchIndex(index: SearchEntry[], query: string, limit = 10): SearchHit[] {
+  const q = normalizeKey(query);
+  if (!q) return [];
+  const qTokens = q.split(" ");
+
+  const hits: (SearchHit & { weight: number })[] = [];
+  for (const e of index) {
+    let score = 0;
+    if (e.key === q) score = 100;
+    else if (e.key.startsWith(q)) score = 80;
+    else {
+      let sum = 0;
+      for (const qt of qTokens) {
+        const s = tokenScore(qt, e.tokens);
+        if (s === 0) {
+          sum = 0;
+          break;
+        }
+        sum += s;
+      }
+      if (sum > 0) score = 40 + (sum / (qTokens.length * 3)) * 30;
+      else if (e.key.includes(q)) score = 30;
+    }
+    if (score > 0) hits.push({ name: e.name, score, weight: e.weight });
+  }
+
+  hits.sort((a, b) => b.score - a.score || b.weight - a.weight);
+  return hits.slice(0, limit).map(({ name, score }) => ({ name, score }));
+}
@@ -0,0 +1,42 @@
+import type { Manifest } from "@/lib/data/manifest";
+
+export type SearchParams = Record<string, string | string[] | undefined>;
+
+export function firstParam(v: string | string[] | undefined): string | undefined {
+  return Array.isArray(v) ? v[0] : v;
+}
+
+/**
+ * Reads `base`/`comparison` period ids from the URL, dropping any the
+ * manifest does not know (or an identical pair) so the default applies.
+ */
+export function periodIdsFromParams(manifest: Pick<Manifest, "periods">, params: SearchParams) {
+  const known = (id: string | undefined) => (id && manifest.periods.some((p) => p.id === id) ? id : undefined);
+  const base = known(firstParam(params.base));
+  const comparison = known(firstParam(params.comparison));
+  if (base && base === comparison) return {};
+  return { base, comparison };
+}
+
+// Current query string with `updates` applied; null/undefined removes a key.
+export function hrefWith(params: SearchParams, updates: Record<string, string | null | undefined>, pathname = "/") {
+  const qs = new URLSearchParams();
+  for (const [k, v] of Object.entries(params)) {
+    const first = firstParam(v);
+    if (first !== undefined) qs.set(k, first);
+  }
+  for (const [k, v] of Object.entries(updates)) {
+    if (v === null || v === undefined) qs.delete(k);
+    else qs.set(k, v);
+  }
+  const s = qs.toString();
+  return s ? `${pathname}?${s}` : pathname;
+}
+
+export function advertiserPath(name: string) {
+  return `/advertisers/${encodeURIComponent(name)}`;
+}
+
+export function verticalPath(vertical: string) {
+  return `/verticals/${encodeURIComponent(vertical)}`;
+}
@@ -0,0 +1,39 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DEFAULT_BRAND_ID, deploymentTheme, PALETTES, resolveTheme, themeCssVars, themeFromParams } from "./theme";
+
+describe("resolveTheme", () => {
+  it("merges a brand's colours over the standard palette", () => {
+    const theme = resolveTheme("neutral");
+    assert.equal(theme.brand.id, "neutral");
+    assert.equal(theme.palette.selected, "#475569");
+    assert.equal(theme.palette.positive, PALETTES.standard.positive);
+  });
+
+  it("uses the variant's palette as it is", () => {
+    assert.deepEqual(resolveTheme("neutral", "dark").palette, PALETTES.dark);
+  });
+
+  it("falls back to the defaults for unknown ids, including Object.prototype's keys", () => {
+    for (const id of ["nope", "constructor", "toString", "__proto__", "hasOwnProperty"]) {
+      const theme = resolveTheme(id, id);
+      assert.equal(theme.brand.id, DEFAULT_BRAND_ID, id);
+      assert.equal(theme.variant, "standard", id);
+    }
+  });
+});
+
+describe("themeFromParams", () => {
+  it("applies the URL's brand and variant", () => {
+    const theme = themeFromParams({ theme: "neutral", variant: "colorblind" });
+    assert.equal(theme.brand.id, "neutral");
+    assert.equal(theme.variant, "colorblind");
+  });
+
+  it("ignores a URL brand that is not a brand", () => {
+    const theme = themeFromParams({ theme: "constructor" });
+    assert.equal(theme.brand.id, deploymentTheme().brand.id);
+    assert.ok(theme.brand.title);
+    assert.ok(!Object.values(themeCssVars(theme)).includes("undefined"));
+  });
+});
@@ -0,0 +1,201 @@
+import { firstParam, type SearchParams } from "@/lib/searchParams";
+
+// Branding and colours for a deployment. A theme is a brand (title, logo,
+// font, metadata) drawn in one palette variant. The deployment picks its
+// defaults with the THEME / THEME_VARIANT environment variables; `?theme=`
+// and `?variant=` in the URL override them for a single view.
+
+export type ThemeVariant = "standard" | "colorblind" | "dark";
+
+export const THEME_VARIANTS: ThemeVariant[] = ["standard", "colorblind", "dark"];
+
+// Colours the charts draw with. SVG charts take these as concrete values (so
+// exported images keep them); the HTML around them reads the CSS variables
+// from `themeCssVars`.
+export type ChartPalette = {
+  background: string;
+  surface: string;
+  hover: string;
+  text: string;
+  textSecondary: string;
+  textMuted: string;
+  textDisabled: string;
+  link: string;
+  border: string;
+  // zero line, connector and other strong rules
+  axis: string;
+  // light rules and ticks
+  axisSoft: string;
+  positive: string;
+  negative: string;
+  selected: string;
+  // text drawn on a `selected` fill
+  onSelected: string;
+  bar: string;
+  barLight: string;
+  barStroke: string;
+  otherBar: string;
+};
+
+export type Brand = {
+  id: string;
+  title: string;
+  description: string;
+  // without a logo the title is shown in its place
+  logo: { src: string; alt: string; width: number; height: number } | null;
+  // CSS font-family for the page and charts
+  fontFamily: string;
+  // brand colours, applied over the standard variant only: the colorblind and
+  // dark variants keep their own so they stay legible
+  palette?: Partial<ChartPalette>;
+};
+
+export type Theme = {
+  brand: Brand;
+  variant: ThemeVariant;
+  palette: ChartPalette;
+};
+
+export const PALETTES: Record<ThemeVariant, ChartPalette> = {
+  standard: {
+    background: "#ffffff",
+    surface: "#ffffff",
+    hover: "#f8fafc",
+    text: "#111827",
+    textSecondary: "#374151",
+    textMuted: "#4b5563",
+    textDisabled: "#9ca3af",
+    link: "#2563eb",
+    border: "#cbd5e1",
+    axis: "#000000",
+    axisSoft: "#6b7280",
+    positive: "#16a34a",
+    negative: "#dc2626",
+    selected: "#3b82f6",
+    onSelected: "#ffffff",
+    bar: "#bdbdbd",
+    barLight: "#d4d4d4",
+    barStroke: "#8a8a8a",
+    otherBar: "#e5e7eb",
+  },
+  // Okabe-Ito blue/vermillion for gains and losses: distinguishable with the
+  // common forms of colour blindness, unlike green/red
+  colorblind: {
+    background: "#ffffff",
+    surface: "#ffffff",
+    hover: "#f8fafc",
+    text: "#111827",
+    textSecondary: "#374151",
+    textMuted: "#4b5563",
+    textDisabled: "#9ca3af",
+    link: "#0072b2",
+    border: "#cbd5e1",
+    axis: "#000000",
+    axisSoft: "#6b7280",
+    positive: "#0072b2",
+    negative: "#d55e00",
+    selected: "#cc79a7",
+    onSelected: "#ffffff",
+    bar: "#bdbdbd",
+    barLight: "#d4d4d4",
+    barStroke: "#8a8a8a",
+    otherBar: "#e5e7eb",
+  },
+  dark: {
+    background: "#0f172a",
+    surface: "#1e293b",
+    hover: "#334155",
+    text: "#f1f5f9",
+    textSecondary: "#cbd5e1",
+    textMuted: "#94a3b8",
+    textDisabled: "#64748b",
+    link: "#93c5fd",
+    border: "#475569",
+    axis: "#e2e8f0",
+    axisSoft: "#94a3b8",
+    positive: "#4ade80",
+    negative: "#f87171",
+    selected: "#60a5fa",
+    onSelected: "#0f172a",
+    bar: "#64748b",
+    barLight: "#475569",
+    barStroke: "#94a3b8",
+    otherBar: "#334155",
+  },
+};
+
+export const DEFAULT_PALETTE = PALETTES.standard;
+
+export const BRANDS: Record<string, Brand> = {
+  samba: {
+    id: "samba",
+    title: "State of Advertising | Samba TV",
+    description: "How TV advertising impressions changed by vertical and advertiser between two periods.",
+    logo: { src: "/samba_logo.png", alt: "Samba TV", width: 170, height: 60 },
+    fontFamily: "Arial, Helvetica, sans-serif",
+  },
+  // unbranded starting point for white-label deployments
+  neutral: {
+    id: "neutral",
+    title: "State of Advertising",
+    description: "How TV advertising impressions changed by vertical and advertiser between two periods.",
+    logo: null,
+    fontFamily: "var(--font-geist-sans), Arial, Helvetica, sans-serif",
+    palette: { selected: "#475569", link: "#334155" },
+  },
+};
+
+export const DEFAULT_BRAND_ID = "samba";
+
+function isVariant(v: string | undefined): v is ThemeVariant {
+  return THEME_VARIANTS.some((t) => t === v);
+}
+
+// Own keys only: a URL value like "constructor" must not reach Object.prototype.
+function isBrandId(id: string | undefined): id is string {
+  return id !== undefined && Object.hasOwn(BRANDS, id);
+}
+
+// Unknown brand or variant ids fall back to the defaults.
+export function resolveTheme(brandId?: string, variant?: string): Theme {
+  const brand = isBrandId(brandId) ? BRANDS[brandId] : BRANDS[DEFAULT_BRAND_ID];
+  const v: ThemeVariant = isVariant(variant) ? variant : "standard";
+  const palette = v === "standard" ? { ...PALETTES.standard, ...brand.palette } : PALETTES[v];
+  return { brand, variant: v, palette };
+}
+
+// The deployment's theme, from THEME / THEME_VARIANT. Server-side only.
+export function deploymentTheme(): Theme {
+  return resolveTheme(process.env.THEME, process.env.THEME_VARIANT);
+}
+
+// `?theme=` / `?variant=` over the deployment's theme. An unknown value in the
+// URL keeps the deployment's choice rather than the global default.
+export function themeFromParams(params: SearchParams): Theme {
+  const base = deploymentTheme();
+  const brandId = firstParam(params.theme);
+  const variant = firstParam(params.variant);
+  return resolveTheme(
+    isBrandId(brandId) ? brandId : base.brand.id,
+    isVariant(variant) ? variant : base.variant
+  );
+}
+
+// CSS custom properties for the HTML chrome; globals.css maps them to the
+// `ink`, `muted`, `line`, `surface`, `highlight`, `link` and `negative`
+// colours (text-ink, border-line, ...).
+export function themeCssVars(theme: Theme): Record<string, string> {
+  const p = theme.palette;
+  return {
+    "--theme-background": p.background,
+    "--theme-surface": p.surface,
+    "--theme-hover": p.hover,
+    "--theme-text": p.text,
+    "--theme-text-muted": p.textMuted,
+    "--theme-link": p.link,
+    "--theme-border": p.border,
+    "--theme-negative": p.negative,
+    "--theme-focus": p.text,
+    "--theme-font": theme.brand.fontFamily,
+  };
+}
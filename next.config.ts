@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // native binary and a wasm file loaded from their own package directories
+  serverExternalPackages: ["@resvg/resvg-js", "subset-font"],
 };
 
 export default nextConfig;
@@ -0,0 +1,34 @@
+// Times page renders against a running server (npm run dev, or npm run build
+// && npm start). The first request to each path is the cold render; the rest
+// are warm, reported as their median.
+//
+//   node scripts/bench-render.mjs [baseUrl] [runs] [path,path,...]
+//
+// Compare against DATA_CACHE=off to see what the data cache saves.
+
+const [baseUrl = "http://localhost:3000", runs = "5", paths = "/,/verticals/Retail%20Stores,/data-quality"] = process.argv.slice(2);
+
+async function time(url) {
+  const start = performance.now();
+  const res = await fetch(url, { cache: "no-store" });
+  await res.arrayBuffer();
+  if (!res.ok) throw new Error(`${url}: HTTP ${res.status}`);
+  return performance.now() - start;
+}
+
+function median(values) {
+  const sorted = values.slice().sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+const ms = (n) => `${Math.round(n)} ms`.padStart(9);
+
+console.log(`${"path".padEnd(32)}${"cold".padStart(9)}${"warm".padStart(9)}`);
+for (const p of paths.split(",")) {
+  const url = new URL(p, baseUrl).href;
+  const cold = await time(url);
+  const warm = [];
+  for (let i = 0; i < Number(runs); i++) warm.push(await time(url));
+  console.log(`${p.padEnd(32)}${ms(cold)}${ms(median(warm))}`);
+}
@@ -0,0 +1,11 @@
+// subset-font ships without type declarations; this covers the options used here.
+declare module "subset-font" {
+  type SubsetOptions = {
+    targetFormat?: "sfnt" | "truetype" | "woff" | "woff2";
+    noLayoutClosure?: boolean;
+    noHinting?: boolean;
+    dropTables?: string[];
+  };
+
+  export default function subsetFont(font: Buffer, text: string, options?: SubsetOptions): Promise<Buffer>;
+}